@@ -1,4 +1,16 @@
-import { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import moment from 'moment';
+
+export { moment };
+
+// obsidian adds `contains` to the array prototype, which parts of the plugin rely on
+if (!('contains' in Array.prototype)) {
+	Object.defineProperty(Array.prototype, 'contains', {
+		value: function <T>(this: T[], target: T): boolean {
+			return this.includes(target);
+		},
+	});
+}
 
 export function requestUrl(request: RequestUrlParam): Promise<RequestUrlResponse> {
 	return fetch(request.url, {
@@ -30,3 +42,77 @@ export function requestUrl(request: RequestUrlParam): Promise<RequestUrlResponse
 		return response_body;
 	});
 }
+
+/**
+ * Collects the messages of all notices, so tests can check what would have been shown to the user.
+ */
+export class Notice {
+	static messages: string[] = [];
+
+	message: string;
+
+	constructor(message: string | DocumentFragment) {
+		this.message = typeof message === 'string' ? message : (message.textContent ?? '');
+		Notice.messages.push(this.message);
+	}
+
+	setMessage(message: string | DocumentFragment): this {
+		this.message = typeof message === 'string' ? message : (message.textContent ?? '');
+		return this;
+	}
+
+	hide(): void {}
+}
+
+/**
+ * Modals are never opened in tests, the classes only exist so that modules importing them can be loaded.
+ */
+export class Modal {
+	open(): void {}
+
+	close(): void {}
+}
+
+export class Setting {}
+
+export const Platform = {
+	isDesktop: true,
+	isMobile: false,
+	isDesktopApp: true,
+	isMobileApp: false,
+	isIosApp: false,
+	isAndroidApp: false,
+	isPhone: false,
+	isTablet: false,
+	isMacOS: false,
+	isWin: false,
+	isLinux: true,
+	isSafari: false,
+};
+
+export function debounce<T extends unknown[]>(cb: (...args: T) => unknown, timeout: number = 0): (...args: T) => void {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	return (...args: T) => {
+		clearTimeout(timer);
+		timer = setTimeout(() => cb(...args), timeout);
+	};
+}
+
+export abstract class TAbstractFile {
+	path: string = '';
+	name: string = '';
+	parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
+	basename: string = '';
+	extension: string = '';
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+
+	isRoot(): boolean {
+		return this.parent === null;
+	}
+}
@@ -0,0 +1,153 @@
+import { debounce } from 'obsidian';
+import type MediaDbPlugin from '../main';
+import type { MediaTypeModel } from '../models/MediaTypeModel';
+import type { MediaType } from '../utils/MediaType';
+
+interface APICacheEntry {
+	timestamp: number;
+	data: Record<string, unknown>[];
+}
+
+/**
+ * The maximum number of cached requests, the oldest entries are removed first once the cache is full.
+ */
+const API_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * A short hash of a string, so that the API keys in the cache keys are not stored in the cache file.
+ *
+ * @param str
+ */
+function hashString(str: string): string {
+	let hash = 0;
+	for (let i = 0; i < str.length; i++) {
+		hash = (Math.imul(31, hash) + str.charCodeAt(i)) | 0;
+	}
+	return (hash >>> 0).toString(36);
+}
+
+export enum APICacheRequestType {
+	Search = 'search',
+	Id = 'id',
+}
+
+/**
+ * Caches the results of API requests in a file in the plugin folder.
+ * Entries expire after the TTL configured for their API.
+ */
+export class APICache {
+	plugin: MediaDbPlugin;
+	entries: Record<string, APICacheEntry>;
+
+	requestSave: () => void;
+
+	constructor(plugin: MediaDbPlugin) {
+		this.plugin = plugin;
+		this.entries = {};
+
+		this.requestSave = debounce(() => this.save().catch(e => console.warn('MDB | failed to save the API cache', e)), 2000, true);
+	}
+
+	get filePath(): string {
+		return `${this.plugin.manifest.dir}/api-cache.json`;
+	}
+
+	async load(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+
+		try {
+			if (await adapter.exists(this.filePath)) {
+				this.entries = JSON.parse(await adapter.read(this.filePath)) as Record<string, APICacheEntry>;
+			}
+		} catch (e) {
+			console.warn('MDB | failed to load the API cache, starting with an empty cache', e);
+			this.entries = {};
+		}
+
+		this.pruneEntries();
+	}
+
+	async save(): Promise<void> {
+		await this.plugin.app.vault.adapter.write(this.filePath, JSON.stringify(this.entries));
+	}
+
+	async clear(): Promise<void> {
+		this.entries = {};
+		await this.save();
+	}
+
+	/**
+	 * Returns the TTL in hours for an API. A TTL of 0 disables caching for that API.
+	 *
+	 * @param apiName
+	 */
+	getTtl(apiName: string): number {
+		return this.plugin.settings.apiCacheTtls[apiName] ?? this.plugin.apiManager.getApiByName(apiName)?.cacheTtl ?? 0;
+	}
+
+	isEnabled(apiName: string): boolean {
+		return this.plugin.settings.apiCacheEnabled && this.getTtl(apiName) > 0;
+	}
+
+	get(apiName: string, requestType: APICacheRequestType, key: string): MediaTypeModel[] | undefined {
+		if (!this.isEnabled(apiName)) {
+			return undefined;
+		}
+
+		const entry = this.entries[this.getEntryKey(apiName, requestType, key)];
+		if (!entry || this.isExpired(apiName, entry)) {
+			return undefined;
+		}
+
+		console.debug(`MDB | cache hit for ${apiName} ${requestType} "${key}"`);
+
+		return entry.data.map(x => this.plugin.mediaTypeManager.createMediaTypeModelFromMediaType(x, x.type as MediaType));
+	}
+
+	set(apiName: string, requestType: APICacheRequestType, key: string, models: MediaTypeModel[]): void {
+		if (!this.isEnabled(apiName)) {
+			return;
+		}
+
+		// the data of the user belongs to the note the model was created for, so it must not end up in other notes
+		this.entries[this.getEntryKey(apiName, requestType, key)] = {
+			timestamp: Date.now(),
+			data: JSON.parse(JSON.stringify(models.map(x => x.getWithOutUserData()))) as Record<string, unknown>[],
+		};
+		this.pruneEntries();
+		this.requestSave();
+	}
+
+	/**
+	 * Removes expired entries and, if the cache is still larger than {@link API_CACHE_MAX_ENTRIES}, the oldest entries.
+	 */
+	pruneEntries(): void {
+		for (const [key, entry] of Object.entries(this.entries)) {
+			const apiName = key.split('\n')[0];
+			if (this.isExpired(apiName, entry)) {
+				delete this.entries[key];
+			}
+		}
+
+		const keys = Object.keys(this.entries);
+		if (keys.length > API_CACHE_MAX_ENTRIES) {
+			keys.sort((a, b) => this.entries[a].timestamp - this.entries[b].timestamp);
+			for (const key of keys.slice(0, keys.length - API_CACHE_MAX_ENTRIES)) {
+				delete this.entries[key];
+			}
+		}
+	}
+
+	private isExpired(apiName: string, entry: APICacheEntry): boolean {
+		return Date.now() - entry.timestamp > this.getTtl(apiName) * 60 * 60 * 1000;
+	}
+
+	/**
+	 * The key of an entry contains the settings that change the results of the API, see {@link APIModel.cacheKeySettings}, and the date format, which all APIs use for the dates of their results.
+	 */
+	private getEntryKey(apiName: string, requestType: APICacheRequestType, key: string): string {
+		const settingNames = this.plugin.apiManager.getApiByName(apiName)?.cacheKeySettings ?? [];
+		const settings = hashString(JSON.stringify([this.plugin.settings.customDateFormat, ...settingNames.map(x => this.plugin.settings[x])]));
+		return `${apiName}\n${settings}\n${requestType}\n${key}`;
+	}
+}
@@ -1,12 +1,24 @@
 import { Notice } from 'obsidian';
 import type { MediaTypeModel } from '../models/MediaTypeModel';
+import type { APICache } from './APICache';
+import { APICacheRequestType } from './APICache';
 import type { APIModel } from './APIModel';
 
+/**
+ * Options for API queries.
+ * - bypassCache: whether to ignore cached results and always query the API (DEFAULT: false)
+ */
+export interface APIQueryOptions {
+	bypassCache?: boolean;
+}
+
 export class APIManager {
 	apis: APIModel[];
+	cache?: APICache;
 
-	constructor() {
+	constructor(cache?: APICache) {
 		this.apis = [];
+		this.cache = cache;
 	}
 
 	/**
@@ -14,15 +26,25 @@ export class APIManager {
 	 *
 	 * @param query
 	 * @param apisToQuery
+	 * @param options
 	 */
-	async query(query: string, apisToQuery: string[]): Promise<MediaTypeModel[]> {
+	async query(query: string, apisToQuery: string[], options: APIQueryOptions = {}): Promise<MediaTypeModel[]> {
 		console.debug(`MDB | api manager queried with "${query}"`);
 
+		const cacheKey = query.trim().toLowerCase();
+
 		const promises = this.apis
 			.filter(api => apisToQuery.contains(api.apiName))
 			.map(async api => {
 				try {
-					return await api.searchByTitle(query);
+					const cachedResults = options.bypassCache ? undefined : this.cache?.get(api.apiName, APICacheRequestType.Search, cacheKey);
+					if (cachedResults) {
+						return cachedResults;
+					}
+
+					const results = await api.searchByTitle(query);
+					this.cache?.set(api.apiName, APICacheRequestType.Search, cacheKey, results);
+					return results;
 				} catch (e) {
 					new Notice(`Error querying ${api.apiName}: ${e}`);
 					console.warn(e);
@@ -38,9 +60,10 @@ export class APIManager {
 	 * Queries detailed information for a MediaTypeModel.
 	 *
 	 * @param item
+	 * @param options
 	 */
-	async queryDetailedInfo(item: MediaTypeModel): Promise<MediaTypeModel | undefined> {
-		return await this.queryDetailedInfoById(item.id, item.dataSource);
+	async queryDetailedInfo(item: MediaTypeModel, options: APIQueryOptions = {}): Promise<MediaTypeModel | undefined> {
+		return await this.queryDetailedInfoById(item.id, item.dataSource, options);
 	}
 
 	/**
@@ -48,12 +71,20 @@ export class APIManager {
 	 *
 	 * @param id
 	 * @param apiName
+	 * @param options
 	 */
-	async queryDetailedInfoById(id: string, apiName: string): Promise<MediaTypeModel | undefined> {
+	async queryDetailedInfoById(id: string, apiName: string, options: APIQueryOptions = {}): Promise<MediaTypeModel | undefined> {
 		for (const api of this.apis) {
 			if (api.apiName === apiName) {
 				try {
-					return api.getById(id);
+					const cachedResult = options.bypassCache ? undefined : this.cache?.get(api.apiName, APICacheRequestType.Id, String(id));
+					if (cachedResult && cachedResult.length > 0) {
+						return cachedResult[0];
+					}
+
+					const result = await api.getById(id);
+					this.cache?.set(api.apiName, APICacheRequestType.Id, String(id), [result]);
+					return result;
 				} catch (e) {
 					new Notice(`Error querying ${api.apiName}: ${e}`);
 					console.warn(e);
@@ -76,6 +107,23 @@ export class APIManager {
 		return undefined;
 	}
 
+	/**
+	 * Finds the API whose website a url belongs to and extracts the id of the entry from the url.
+	 *
+	 * @param url
+	 * @returns the name of the API and the id or undefined if no API recognizes the url
+	 */
+	getIdFromUrl(url: string): { apiName: string; id: string } | undefined {
+		for (const api of this.apis) {
+			const id = api.getIdFromUrl(url.trim());
+			if (id) {
+				return { apiName: api.apiName, id: id };
+			}
+		}
+
+		return undefined;
+	}
+
 	registerAPI(api: APIModel): void {
 		this.apis.push(api);
 	}
@@ -1,6 +1,22 @@
 import type MediaDbPlugin from '../main';
 import type { MediaTypeModel } from '../models/MediaTypeModel';
+import type { MediaDbPluginSettings } from '../settings/Settings';
 import type { MediaType } from '../utils/MediaType';
+import type { HttpRequest, HttpRequestPolicy, HttpResponse } from './HttpClient';
+
+/**
+ * A single episode of a series, as returned by {@link APIModel.getEpisodes}.
+ * APIs without seasons put all episodes in season 1.
+ */
+export interface Episode {
+	season: number;
+	episode: number;
+	title: string;
+	/**
+	 * The air date formatted with the plugin's date format, or `unknown`.
+	 */
+	airDate: string;
+}
 
 export abstract class APIModel {
 	apiName!: string;
@@ -8,6 +24,22 @@ export abstract class APIModel {
 	apiDescription!: string;
 	types!: MediaType[];
 	plugin!: MediaDbPlugin;
+	/**
+	 * How long results from this API are cached by default, in hours. Can be overridden in the settings.
+	 */
+	cacheTtl: number = 24;
+	/**
+	 * The settings that change the results of this API, e.g. its API key or the region. They are part of the key of cached results, so changing them does not return results cached with the old values.
+	 */
+	cacheKeySettings: (keyof MediaDbPluginSettings)[] = [];
+	/**
+	 * Rate limit, retry and timeout settings for requests to this API, see {@link HttpRequestPolicy}.
+	 */
+	requestPolicy: Partial<HttpRequestPolicy> = {};
+	/**
+	 * Patterns for the urls of entries on the website of this API, see {@link getIdFromUrl}. The first capture group of a pattern has to be the id of the entry.
+	 */
+	urlPatterns: RegExp[] = [];
 
 	/**
 	 * This function should query the api and return a list of matches. The matches should be caped at 20.
@@ -18,6 +50,39 @@ export abstract class APIModel {
 
 	abstract getById(id: string): Promise<MediaTypeModel>;
 
+	/**
+	 * Returns the episodes of a series, ordered by season and episode. Only implemented by APIs that have episode lists.
+	 *
+	 * @param id the id of the series
+	 */
+	getEpisodes?(id: string): Promise<Episode[]>;
+
+	/**
+	 * Extracts the id of an entry from the url of its page, e.g. `https://www.imdb.com/title/tt0133093/` for `tt0133093`.
+	 *
+	 * @param url
+	 * @returns the id or undefined if the url does not match any of the {@link urlPatterns}
+	 */
+	getIdFromUrl(url: string): string | undefined {
+		for (const pattern of this.urlPatterns) {
+			const match = url.match(pattern);
+			if (match?.[1]) {
+				return match[1];
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Sends a request to this API through the plugin's {@link HttpClient}, using the {@link requestPolicy} of this API.
+	 *
+	 * @param request
+	 */
+	async request(request: HttpRequest): Promise<HttpResponse> {
+		return await this.plugin.httpClient.request(this.apiName, request, this.requestPolicy);
+	}
+
 	hasType(type: MediaType): boolean {
 		// if (
 		// 	this.types.contains(type) &&
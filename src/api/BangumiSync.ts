@@ -0,0 +1,221 @@
+import type { TFile } from 'obsidian';
+import { Notice } from 'obsidian';
+import type MediaDbPlugin from '../main';
+import { MediaDbProgressModal } from '../modals/MediaDbProgressModal';
+import type { MediaTypeModel } from '../models/MediaTypeModel';
+import type { BangumiCollectionState } from '../utils/BangumiCollection';
+import { fromBangumiRating, isSameBangumiCollectionState, mergeBangumiCollectionState, toBangumiRating } from '../utils/BangumiCollection';
+import { MediaType } from '../utils/MediaType';
+import { readPersonalData } from '../utils/PersonalData';
+import { BangumiAPI } from './apis/BangumiAPI';
+
+/**
+ * The progress units that match the progress of a Bangumi collection, pages of books are not synced.
+ */
+const SYNCED_PROGRESS_UNITS: string[] = ['episode', 'chapter'];
+
+/**
+ * The media types Bangumi stores the progress of as read chapters instead of watched episodes.
+ */
+const CHAPTER_PROGRESS_TYPES: string[] = [MediaType.Book, MediaType.ComicManga];
+
+/**
+ * Syncs the personal status, rating, tags and progress of notes from the BangumiAPI with the collection of the user on Bangumi.
+ * The state of every entry after its last sync is stored in a file in the plugin folder, so that changes on both sides can be merged.
+ */
+export class BangumiSync {
+	plugin: MediaDbPlugin;
+	syncedStates: Record<string, BangumiCollectionState>;
+
+	constructor(plugin: MediaDbPlugin) {
+		this.plugin = plugin;
+		this.syncedStates = {};
+	}
+
+	get filePath(): string {
+		return `${this.plugin.manifest.dir}/bangumi-sync.json`;
+	}
+
+	async load(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+
+		try {
+			if (await adapter.exists(this.filePath)) {
+				this.syncedStates = JSON.parse(await adapter.read(this.filePath)) as Record<string, BangumiCollectionState>;
+			}
+		} catch (e) {
+			console.warn('MDB | failed to load the Bangumi sync state, the next sync will treat all differences as conflicts', e);
+			this.syncedStates = {};
+		}
+	}
+
+	async save(): Promise<void> {
+		await this.plugin.app.vault.adapter.write(this.filePath, JSON.stringify(this.syncedStates));
+	}
+
+	getApi(): BangumiAPI {
+		const api = this.plugin.apiManager.getApiByName('BangumiAPI');
+		if (!(api instanceof BangumiAPI)) {
+			throw new Error('MDB | BangumiAPI is not registered');
+		}
+		return api;
+	}
+
+	/**
+	 * Returns the id of the Bangumi subject of a note, or undefined if the note is not from the BangumiAPI.
+	 *
+	 * @param file
+	 */
+	getSubjectId(file: TFile): string | undefined {
+		const mediaTypeModelObj = this.plugin.getMediaTypeModelObjFromFile(file);
+		return mediaTypeModelObj?.dataSource === 'BangumiAPI' ? String(mediaTypeModelObj.id) : undefined;
+	}
+
+	/**
+	 * Reads the state of a note, the rating is converted to the 1 to 10 rating of Bangumi.
+	 *
+	 * @param file
+	 * @param model
+	 */
+	readNoteState(file: TFile, model: MediaTypeModel): BangumiCollectionState {
+		const metadata = this.plugin.modelPropertyMapper.convertObjectBack(this.plugin.getMetadataFromFileCache(file));
+		const personalData = readPersonalData(metadata);
+
+		return {
+			status: personalData.personalStatus,
+			rating: toBangumiRating(personalData.personalRating, this.plugin.settings.personalRatingScale),
+			tags: personalData.personalTags,
+			progress: SYNCED_PROGRESS_UNITS.includes(model.getProgressUnit()) && model.progress ? model.progress : undefined,
+		};
+	}
+
+	/**
+	 * Writes a state to a note, the rating is converted from the 1 to 10 rating of Bangumi to the rating scale from the settings.
+	 *
+	 * @param file
+	 * @param model
+	 * @param state
+	 */
+	async writeNoteState(file: TFile, model: MediaTypeModel, state: BangumiCollectionState): Promise<void> {
+		const update: Record<string, unknown> = {
+			personalStatus: state.status,
+			personalRating: fromBangumiRating(state.rating, this.plugin.settings.personalRatingScale),
+			personalTags: state.tags,
+		};
+
+		if (SYNCED_PROGRESS_UNITS.includes(model.getProgressUnit()) && state.progress && state.progress !== model.progress) {
+			model.setProgress(state.progress, this.plugin.dateFormatter.getPreview());
+			Object.assign(update, model.getProgressData());
+		}
+
+		await this.plugin.updateUserProperties(file, model.type, update);
+	}
+
+	/**
+	 * Merges the state of a note with its Bangumi collection entry and writes the result to both sides.
+	 *
+	 * @param file
+	 */
+	async pushNote(file: TFile): Promise<void> {
+		const id = this.getSubjectId(file);
+		const model = this.plugin.getMediaTypeModelFromFile(file);
+		if (!id || !model) {
+			throw new Error('MDB | note is not an entry from the BangumiAPI');
+		}
+
+		const api = this.getApi();
+		const noteState = this.readNoteState(file, model);
+		const collectionState = await api.getCollection(id);
+		// a subject that is not collected yet is added with the state of the note
+		const bangumiState = collectionState ?? { tags: [] };
+		const mergedState = collectionState
+			? mergeBangumiCollectionState(this.syncedStates[id], noteState, collectionState, this.plugin.settings.bangumiSyncConflictPolicy)
+			: noteState;
+
+		if (!isSameBangumiCollectionState(mergedState, bangumiState)) {
+			await api.updateCollection(id, mergedState, CHAPTER_PROGRESS_TYPES.includes(model.type));
+		}
+		if (!isSameBangumiCollectionState(mergedState, noteState)) {
+			await this.writeNoteState(file, model, mergedState);
+		}
+
+		this.syncedStates[id] = mergedState;
+		await this.save();
+	}
+
+	/**
+	 * Imports the entire collection of the user. Entries that already have a note are merged with the note, for all others a new note is created.
+	 * Bangumi is not updated, so values of notes that win a conflict are only pushed by {@link pushNote}.
+	 */
+	async pullCollection(): Promise<void> {
+		const api = this.getApi();
+		const erroredFiles: { filePath: string; error: string }[] = [];
+
+		const collections = await api.getCollections();
+		if (collections.length === 0) {
+			new Notice('MDB | the Bangumi collection is empty');
+			return;
+		}
+
+		const notes = new Map<string, TFile>();
+		for (const entry of this.plugin.vaultIndex.getEntries()) {
+			if (entry.dataSource === 'BangumiAPI') {
+				notes.set(entry.id, entry.file);
+			}
+		}
+
+		const progressModal = new MediaDbProgressModal(this.plugin.app, 'Importing the Bangumi collection', collections.length);
+		progressModal.open();
+
+		let created = 0;
+		for (const [i, collection] of collections.entries()) {
+			if (progressModal.canceled) {
+				erroredFiles.push({ filePath: collection.title, error: 'user canceled' });
+				continue;
+			}
+
+			progressModal.setProgress(i, collection.title);
+
+			const file = notes.get(collection.id);
+			try {
+				if (file) {
+					const model = this.plugin.getMediaTypeModelFromFile(file);
+					if (!model) {
+						throw new Error('MDB | note has no known media type');
+					}
+
+					const noteState = this.readNoteState(file, model);
+					const mergedState = mergeBangumiCollectionState(this.syncedStates[collection.id], noteState, collection.state, this.plugin.settings.bangumiSyncConflictPolicy);
+					if (!isSameBangumiCollectionState(mergedState, noteState)) {
+						await this.writeNoteState(file, model, mergedState);
+					}
+				} else {
+					const model = await this.plugin.apiManager.queryDetailedInfoById(collection.id, api.apiName);
+					if (!model) {
+						throw new Error(`MDB | no result for id ${collection.id} from ${api.apiName}`);
+					}
+
+					const newFile = await this.plugin.writeMediaDbNoteFromModel(model, { attachTemplate: true, openNote: false });
+					await this.writeNoteState(newFile, model, collection.state);
+					created++;
+				}
+
+				// Bangumi is left as it is, so the next sync has to compare against its state
+				this.syncedStates[collection.id] = collection.state;
+			} catch (e) {
+				console.warn(e);
+				erroredFiles.push({ filePath: file?.path ?? collection.title, error: `${e}` });
+			}
+		}
+
+		progressModal.setProgress(collections.length, 'done');
+		progressModal.finish();
+		await this.save();
+
+		new Notice(`MDB | imported ${collections.length - erroredFiles.length} of ${collections.length} Bangumi entries, ${created} new notes`);
+
+		if (erroredFiles.length > 0) {
+			await this.plugin.createErroredFilesReport(erroredFiles, 'Bangumi import');
+		}
+	}
+}
@@ -0,0 +1,209 @@
+import { requestUrl } from 'obsidian';
+
+/**
+ * A request made through the {@link HttpClient}.
+ */
+export interface HttpRequest {
+	url: string;
+	method?: string;
+	headers?: Record<string, string>;
+	body?: string;
+	contentType?: string;
+}
+
+/**
+ * The response to a {@link HttpRequest}.
+ * `json` is only parsed when accessed, so it is safe to read `text` for non JSON responses.
+ */
+export interface HttpResponse {
+	status: number;
+	headers: Record<string, string>;
+	text: string;
+	// the same type as the `json` of Obsidian's `RequestUrlResponse`, the APIs that were written for `requestUrl` read it without types
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	json: any;
+}
+
+/**
+ * The function that actually sends a request. It must not throw on non 2xx status codes.
+ */
+export type HttpRequestFunction = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * How requests to a single API are made.
+ * - minRequestInterval: the minimum time between two requests to the API in milliseconds
+ * - maxRetries: how often a request is retried after a 202, 429 or 5xx response
+ * - retryDelay: the delay before the first retry in milliseconds, doubled on every further retry
+ * - maxRetryDelay: the longest delay before a retry in milliseconds, also when the API asks for a longer one with `Retry-After`
+ * - timeout: the time in milliseconds after which a request is aborted
+ */
+export interface HttpRequestPolicy {
+	minRequestInterval: number;
+	maxRetries: number;
+	retryDelay: number;
+	maxRetryDelay: number;
+	timeout: number;
+}
+
+export const DEFAULT_HTTP_REQUEST_POLICY: HttpRequestPolicy = {
+	minRequestInterval: 0,
+	maxRetries: 3,
+	retryDelay: 1000,
+	maxRetryDelay: 60000,
+	timeout: 15000,
+};
+
+/**
+ * Thrown when an API responds with a status code that is not a success, after all retries are used up.
+ */
+export class HttpError extends Error {
+	apiName: string;
+	status: number;
+
+	constructor(apiName: string, status: number) {
+		super(HttpError.getMessage(apiName, status));
+		this.name = 'HttpError';
+		this.apiName = apiName;
+		this.status = status;
+	}
+
+	private static getMessage(apiName: string, status: number): string {
+		if (status === 401) {
+			return `MDB | Authentication for ${apiName} failed. Check the API key.`;
+		}
+		if (status === 429) {
+			return `MDB | Too many requests for ${apiName}, you've exceeded your API quota.`;
+		}
+		return `MDB | Received status code ${status} from ${apiName}.`;
+	}
+}
+
+/**
+ * Thrown when an API does not respond within the timeout of its {@link HttpRequestPolicy}.
+ */
+export class HttpTimeoutError extends Error {
+	apiName: string;
+	timeout: number;
+
+	constructor(apiName: string, timeout: number) {
+		super(`MDB | Request to ${apiName} timed out after ${timeout / 1000} seconds.`);
+		this.name = 'HttpTimeoutError';
+		this.apiName = apiName;
+		this.timeout = timeout;
+	}
+}
+
+export async function obsidianRequest(request: HttpRequest): Promise<HttpResponse> {
+	return await requestUrl({
+		url: request.url,
+		method: request.method,
+		headers: request.headers,
+		body: request.body,
+		contentType: request.contentType,
+		throw: false,
+	});
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends the requests of all APIs.
+ * Requests are rate limited per host, so APIs that share a backend (e.g. the two Jikan APIs) also share their rate limit.
+ * Requests are retried with exponential backoff while the API is busy and time out after the timeout of the API's policy.
+ * The function that sends the requests can be swapped out, e.g. for a local fake in tests.
+ */
+export class HttpClient {
+	requestFunction: HttpRequestFunction;
+	nextRequestTimes: Map<string, number>;
+
+	constructor(requestFunction: HttpRequestFunction = obsidianRequest) {
+		this.requestFunction = requestFunction;
+		this.nextRequestTimes = new Map<string, number>();
+	}
+
+	/**
+	 * Sends a request to an API and returns the response.
+	 * Throws a {@link HttpError} if the API does not respond with a success status code and a {@link HttpTimeoutError} if it does not respond in time.
+	 *
+	 * @param apiName the name of the API, used in error messages
+	 * @param request
+	 * @param policy overrides for the {@link DEFAULT_HTTP_REQUEST_POLICY}
+	 */
+	async request(apiName: string, request: HttpRequest, policy: Partial<HttpRequestPolicy> = {}): Promise<HttpResponse> {
+		const fullPolicy: HttpRequestPolicy = Object.assign({}, DEFAULT_HTTP_REQUEST_POLICY, policy);
+
+		for (let attempt = 0; ; attempt++) {
+			await this.waitForRateLimit(this.getRateLimitKey(apiName, request), fullPolicy.minRequestInterval);
+
+			const response = await this.requestWithTimeout(apiName, request, fullPolicy.timeout);
+
+			if (response.status >= 200 && response.status < 300 && response.status !== 202) {
+				return response;
+			}
+
+			if (!this.shouldRetry(response.status) || attempt >= fullPolicy.maxRetries) {
+				throw new HttpError(apiName, response.status);
+			}
+
+			const delay = Math.min(this.getRetryDelay(response, fullPolicy.retryDelay * 2 ** attempt), fullPolicy.maxRetryDelay);
+			console.debug(`MDB | received status code ${response.status} from ${apiName}, retrying in ${delay} ms`);
+			await sleep(delay);
+		}
+	}
+
+	private shouldRetry(status: number): boolean {
+		return status === 202 || status === 429 || status >= 500;
+	}
+
+	/**
+	 * Uses the `Retry-After` header if the API sends one.
+	 */
+	private getRetryDelay(response: HttpResponse, backoffDelay: number): number {
+		const retryAfterHeader = Object.entries(response.headers ?? {}).find(([key]) => key.toLowerCase() === 'retry-after')?.[1];
+		const retryAfter = Number(retryAfterHeader);
+		if (retryAfterHeader && !Number.isNaN(retryAfter)) {
+			return retryAfter * 1000;
+		}
+		return backoffDelay;
+	}
+
+	private getRateLimitKey(apiName: string, request: HttpRequest): string {
+		try {
+			return new URL(request.url).host;
+		} catch {
+			return apiName;
+		}
+	}
+
+	/**
+	 * Reserves the next free request slot and waits until it is reached.
+	 */
+	private async waitForRateLimit(key: string, minRequestInterval: number): Promise<void> {
+		if (minRequestInterval <= 0) {
+			return;
+		}
+
+		const now = Date.now();
+		const requestTime = Math.max(now, this.nextRequestTimes.get(key) ?? 0);
+		this.nextRequestTimes.set(key, requestTime + minRequestInterval);
+
+		if (requestTime > now) {
+			await sleep(requestTime - now);
+		}
+	}
+
+	private async requestWithTimeout(apiName: string, request: HttpRequest, timeout: number): Promise<HttpResponse> {
+		let timeoutId: ReturnType<typeof setTimeout> | undefined;
+		const timeoutPromise = new Promise<never>((_, reject) => {
+			timeoutId = setTimeout(() => reject(new HttpTimeoutError(apiName, timeout)), timeout);
+		});
+
+		try {
+			return await Promise.race([this.requestFunction(request), timeoutPromise]);
+		} finally {
+			clearTimeout(timeoutId);
+		}
+	}
+}
@@ -0,0 +1,143 @@
+import type { TFile } from 'obsidian';
+import type MediaDbPlugin from '../main';
+import type { MediaTypeModel } from '../models/MediaTypeModel';
+import type { MediaType } from '../utils/MediaType';
+import type { VaultIndexEntry } from '../utils/VaultIndex';
+import type { APIQueryOptions } from './APIManager';
+import type { APIModel } from './APIModel';
+
+/**
+ * Options for searches through the {@link PublicAPI}.
+ * - apis: the names of the APIs to search, all APIs that support one of the types by default
+ * - types: the media types to search for, all types by default
+ */
+export interface PublicAPISearchOptions extends APIQueryOptions {
+	apis?: string[];
+	types?: string[];
+}
+
+/**
+ * Options for notes created through the {@link PublicAPI}.
+ * - folder: the path of the folder to create the note in, the folder of the media type from the settings by default
+ * - attachTemplate: whether to add the template of the media type (DEFAULT: true)
+ * - openNote: whether to open the note after creating it (DEFAULT: false)
+ */
+export interface PublicAPICreateNoteOptions {
+	folder?: string;
+	attachTemplate?: boolean;
+	openNote?: boolean;
+}
+
+/**
+ * The API other plugins and scripts can use to drive the plugin without opening any modals.
+ * It is available as `app.plugins.getPlugin('obsidian-media-db-plugin').api`.
+ */
+export class PublicAPI {
+	private plugin: MediaDbPlugin;
+
+	constructor(plugin: MediaDbPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * The registered APIs.
+	 */
+	getApis(): APIModel[] {
+		return [...this.plugin.apiManager.apis];
+	}
+
+	/**
+	 * The registered media types, including the custom media types from the settings.
+	 */
+	getMediaTypes(): string[] {
+		return this.plugin.mediaTypeManager.getMediaTypeDefinitions().map(x => x.type);
+	}
+
+	/**
+	 * Searches the APIs like the search modal does. The results only contain the basic info, use {@link getDetails} to load all the data of a result.
+	 *
+	 * @param query
+	 * @param options
+	 */
+	async search(query: string, options: PublicAPISearchOptions = {}): Promise<MediaTypeModel[]> {
+		const types = options.types;
+		let apis = options.apis ?? this.plugin.apiManager.apis.map(x => x.apiName);
+		if (types) {
+			apis = apis.filter(x => this.plugin.apiManager.getApiByName(x)?.hasTypeOverlap(types as MediaType[]));
+		}
+
+		const results = await this.plugin.apiManager.query(query, apis, { bypassCache: options.bypassCache });
+		return types ? results.filter(x => types.includes(x.type)) : results;
+	}
+
+	/**
+	 * Loads an entry from an API by its id.
+	 *
+	 * @param id
+	 * @param apiName the name of the API, e.g. `OMDbAPI`
+	 * @param options
+	 */
+	async getById(id: string, apiName: string, options: APIQueryOptions = {}): Promise<MediaTypeModel | undefined> {
+		return await this.plugin.apiManager.queryDetailedInfoById(id, apiName, options);
+	}
+
+	/**
+	 * Finds the API and the id of an entry from the url of its page, e.g. `https://www.imdb.com/title/tt0133093/`. Use {@link getById} to load the entry.
+	 *
+	 * @param url
+	 */
+	getIdFromUrl(url: string): { apiName: string; id: string } | undefined {
+		return this.plugin.apiManager.getIdFromUrl(url);
+	}
+
+	/**
+	 * Loads all the data of a search result.
+	 *
+	 * @param model
+	 * @param options
+	 */
+	async getDetails(model: MediaTypeModel, options: APIQueryOptions = {}): Promise<MediaTypeModel | undefined> {
+		return await this.plugin.apiManager.queryDetailedInfo(model, options);
+	}
+
+	/**
+	 * Creates a note from an entry, the same way the create commands do. Unlike the commands, this does not check whether the vault already has a note for the entry, use {@link getNote} for that.
+	 *
+	 * @param model
+	 * @param options
+	 * @returns the created note
+	 */
+	async createNote(model: MediaTypeModel, options: PublicAPICreateNoteOptions = {}): Promise<TFile> {
+		const folder = options.folder ? await this.plugin.getOrCreateFolder(options.folder) : undefined;
+
+		return await this.plugin.writeMediaDbNoteFromModel(model, { attachTemplate: options.attachTemplate ?? true, openNote: options.openNote ?? false, folder });
+	}
+
+	/**
+	 * Updates the metadata of a note in place by querying its API again, using the merge policies from the settings.
+	 *
+	 * @param file
+	 */
+	async updateNote(file: TFile): Promise<void> {
+		await this.plugin.updateNoteMetadata(file);
+	}
+
+	/**
+	 * Finds the note of an entry of an API.
+	 *
+	 * @param dataSource the name of the API, e.g. `OMDbAPI`
+	 * @param id the id of the entry in the API
+	 */
+	getNote(dataSource: string, id: string): TFile | undefined {
+		return this.plugin.vaultIndex.getById(dataSource, id)?.file;
+	}
+
+	/**
+	 * All Media DB notes in the vault, optionally only those of one media type.
+	 *
+	 * @param type
+	 */
+	getNotes(type?: string): VaultIndexEntry[] {
+		return type ? this.plugin.vaultIndex.getByType(type) : this.plugin.vaultIndex.getEntries();
+	}
+}
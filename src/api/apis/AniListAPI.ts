@@ -0,0 +1,340 @@
+import type MediaDbPlugin from '../../main';
+import { ComicMangaModel } from '../../models/ComicMangaModel';
+import type { MediaTypeModel } from '../../models/MediaTypeModel';
+import { MovieModel } from '../../models/MovieModel';
+import { SeriesModel } from '../../models/SeriesModel';
+import { MediaType } from '../../utils/MediaType';
+import { APIModel } from '../APIModel';
+
+const MEDIA_FIELDS = `
+	id
+	type
+	format
+	status
+	siteUrl
+	isAdult
+	countryOfOrigin
+	title { romaji english native }
+	startDate { year month day }
+	seasonYear
+	coverImage { extraLarge large }
+`;
+
+const DETAILED_MEDIA_FIELDS = `
+	${MEDIA_FIELDS}
+	description(asHtml: false)
+	endDate { year month day }
+	episodes
+	duration
+	chapters
+	volumes
+	genres
+	averageScore
+	bannerImage
+	studios(isMain: true) { nodes { name } }
+	staff(perPage: 25) { edges { role node { name { full } } } }
+	relations { edges { relationType node { id title { romaji english } } } }
+	externalLinks { site type }
+`;
+
+interface AniListDate {
+	year: number | null;
+	month: number | null;
+	day: number | null;
+}
+
+interface AniListTitle {
+	romaji: string;
+	english: string | null;
+	native?: string | null;
+}
+
+/**
+ * A media with the fields of {@link MEDIA_FIELDS}, the fields of {@link DETAILED_MEDIA_FIELDS} are only set when requested.
+ */
+interface AniListMedia {
+	id: number;
+	type: string;
+	format: string;
+	status: string;
+	siteUrl: string;
+	isAdult: boolean;
+	countryOfOrigin?: string;
+	title: AniListTitle;
+	startDate?: AniListDate;
+	seasonYear?: number | null;
+	coverImage?: { extraLarge?: string | null; large?: string | null };
+
+	description?: string | null;
+	endDate?: AniListDate;
+	episodes?: number | null;
+	duration?: number | null;
+	chapters?: number | null;
+	volumes?: number | null;
+	genres?: string[];
+	averageScore?: number | null;
+	bannerImage?: string | null;
+	studios?: { nodes?: { name: string }[] };
+	staff?: { edges?: { role: string | null; node: { name: { full: string } } }[] };
+	relations?: { edges?: { relationType: string; node: { id: number; title: AniListTitle } }[] };
+	externalLinks?: { site: string; type: string }[];
+}
+
+export class AniListAPI extends APIModel {
+	plugin: MediaDbPlugin;
+	typeMappings: Map<string, string>;
+	statusMappings: Map<string, string>;
+	apiDateFormat: string = 'YYYY-M-D';
+
+	constructor(plugin: MediaDbPlugin) {
+		super();
+
+		this.plugin = plugin;
+		this.apiName = 'AniListAPI';
+		this.apiDescription = 'A free API for Anime and Manga.';
+		this.apiUrl = 'https://graphql.anilist.co';
+		this.types = [MediaType.Movie, MediaType.Series, MediaType.ComicManga];
+		this.urlPatterns = [/anilist\.co\/(?:anime|manga)\/(\d+)/];
+		this.cacheKeySettings = ['sfwFilter'];
+		// AniList allows 90 requests per minute
+		this.requestPolicy = { minRequestInterval: 700 };
+		this.typeMappings = new Map<string, string>();
+		this.typeMappings.set('TV', 'series');
+		this.typeMappings.set('TV_SHORT', 'series');
+		this.typeMappings.set('ONA', 'ova');
+		this.typeMappings.set('OVA', 'ova');
+		this.typeMappings.set('MOVIE', 'movie');
+		this.typeMappings.set('SPECIAL', 'special');
+		this.typeMappings.set('MUSIC', 'special');
+		this.typeMappings.set('MANGA', 'manga');
+		this.typeMappings.set('ONE_SHOT', 'oneshot');
+		this.typeMappings.set('NOVEL', 'light-novel');
+		this.statusMappings = new Map<string, string>();
+		this.statusMappings.set('FINISHED', 'Finished');
+		this.statusMappings.set('RELEASING', 'Releasing');
+		this.statusMappings.set('NOT_YET_RELEASED', 'Not yet released');
+		this.statusMappings.set('CANCELLED', 'Cancelled');
+		this.statusMappings.set('HIATUS', 'On Hiatus');
+	}
+
+	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
+		console.log(`MDB | api "${this.apiName}" queried by Title`);
+
+		const query = `
+			query ($search: String) {
+				Page(perPage: 20) {
+					media(search: $search${this.plugin.settings.sfwFilter ? ', isAdult: false' : ''}) {
+						${MEDIA_FIELDS}
+					}
+				}
+			}
+		`;
+		const data = await this.queryGraphQL<{ Page: { media: AniListMedia[] } }>(query, { search: title });
+
+		const ret: MediaTypeModel[] = [];
+
+		for (const result of data.Page.media) {
+			const model = this.createModel(result);
+			if (model) {
+				ret.push(model);
+			}
+		}
+
+		return ret;
+	}
+
+	async getById(id: string): Promise<MediaTypeModel> {
+		console.log(`MDB | api "${this.apiName}" queried by ID`);
+
+		const query = `
+			query ($id: Int) {
+				Media(id: $id) {
+					${DETAILED_MEDIA_FIELDS}
+				}
+			}
+		`;
+		const data = await this.queryGraphQL<{ Media: AniListMedia }>(query, { id: Number(id) });
+
+		const model = this.createModel(data.Media);
+		if (!model) {
+			throw new Error(`MDB | Unknown media type for id ${id}`);
+		}
+
+		return model;
+	}
+
+	/**
+	 * Sends a GraphQL query to AniList and returns its data. AniList can report errors with a success status code, so those are checked as well.
+	 *
+	 * @param query
+	 * @param variables
+	 */
+	private async queryGraphQL<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+		const fetchData = await this.request({
+			url: this.apiUrl,
+			method: 'POST',
+			contentType: 'application/json',
+			headers: { Accept: 'application/json' },
+			body: JSON.stringify({ query: query, variables: variables }),
+		});
+
+		const data = fetchData.json as { data: T; errors?: { message: string }[] };
+		// console.debug(data);
+
+		if (data.errors && data.errors.length > 0) {
+			throw Error(`MDB | Received error from ${this.apiName}: ${data.errors.map(x => x.message).join(', ')}`);
+		}
+
+		return data.data;
+	}
+
+	/**
+	 * Creates the model for an AniList media, or returns `undefined` if the format of the media is not supported.
+	 * Search results don't contain the detailed fields, so those fall back to their defaults.
+	 *
+	 * @param result
+	 */
+	private createModel(result: AniListMedia): MediaTypeModel | undefined {
+		const type = this.typeMappings.get(result.format);
+		if (type === undefined) {
+			return undefined;
+		}
+
+		const shared = {
+			subType: type,
+			title: result.title.romaji,
+			englishTitle: result.title.english ?? result.title.romaji,
+			alternateTitles: this.getAlternateTitles(result),
+			year: (result.seasonYear ?? result.startDate?.year)?.toString() ?? '',
+			dataSource: this.apiName,
+			url: result.siteUrl,
+			id: result.id.toString(),
+
+			plot: this.cleanDescription(result.description),
+			genres: result.genres ?? [],
+			onlineRating: result.averageScore ? result.averageScore / 10 : 0,
+			image: result.coverImage?.extraLarge ?? result.coverImage?.large ?? '',
+			prequels: this.getRelations(result, 'PREQUEL'),
+			sequels: this.getRelations(result, 'SEQUEL'),
+
+			released: result.status !== 'NOT_YET_RELEASED',
+		};
+
+		if (result.type === 'MANGA') {
+			return new ComicMangaModel({
+				...shared,
+				subType: this.getMangaSubType(type, result.countryOfOrigin),
+				authors: this.getStaff(result, role => role.startsWith('Story') || role.startsWith('Art') || role.startsWith('Original')),
+				chapters: result.chapters ?? 0,
+				volumes: result.volumes ?? 0,
+
+				status: this.statusMappings.get(result.status) ?? 'unknown',
+				publishedFrom: this.formatDate(result.startDate),
+				publishedTo: this.formatDate(result.endDate),
+
+				userData: {
+					read: false,
+					lastRead: '',
+					personalRating: 0,
+				},
+			});
+		}
+
+		if (type === 'movie' || type === 'special') {
+			return new MovieModel({
+				...shared,
+				director: this.getStaff(result, role => role === 'Director'),
+				writer: this.getStaff(result, role => role.startsWith('Original Creator') || role.startsWith('Script') || role.startsWith('Screenplay')),
+				studio: result.studios?.nodes?.map(x => x.name) ?? [],
+				duration: result.duration ? `${result.duration} min` : 'unknown',
+				backdrop: result.bannerImage ?? '',
+
+				streamingServices: this.getStreamingServices(result),
+				premiere: this.formatDate(result.startDate),
+
+				userData: {
+					watched: false,
+					lastWatched: '',
+					personalRating: 0,
+				},
+			});
+		}
+
+		return new SeriesModel({
+			...shared,
+			writer: this.getStaff(result, role => role.startsWith('Original Creator') || role.startsWith('Series Composition')),
+			studio: result.studios?.nodes?.map(x => x.name) ?? [],
+			episodes: result.episodes ?? 0,
+			duration: result.duration ? `${result.duration} min per ep` : 'unknown',
+			backdrop: result.bannerImage ?? '',
+
+			streamingServices: this.getStreamingServices(result),
+			airing: result.status === 'RELEASING',
+			airedFrom: this.formatDate(result.startDate),
+			airedTo: this.formatDate(result.endDate),
+
+			userData: {
+				watched: false,
+				lastWatched: '',
+				personalRating: 0,
+			},
+		});
+	}
+
+	/**
+	 * AniList does not have separate formats for manhwa and manhua, so they are told apart by their country of origin.
+	 */
+	private getMangaSubType(type: string, countryOfOrigin: string | undefined): string {
+		if (type !== 'manga') {
+			return type;
+		}
+		if (countryOfOrigin === 'KR') {
+			return 'manhwa';
+		}
+		if (countryOfOrigin === 'CN' || countryOfOrigin === 'TW') {
+			return 'manhua';
+		}
+		return type;
+	}
+
+	private getAlternateTitles(result: AniListMedia): string[] {
+		const titles = [result.title.romaji, result.title.english, result.title.native];
+		return [...new Set(titles.filter((x): x is string => !!x))];
+	}
+
+	/**
+	 * AniList descriptions can contain HTML line breaks and formatting, even when requested as plain text.
+	 */
+	private cleanDescription(description: string | null | undefined): string {
+		if (!description) {
+			return '';
+		}
+		return description
+			.replace(/<br\s*\/?>/g, '')
+			.replace(/<[^>]*>/g, '')
+			.trim();
+	}
+
+	private getStaff(result: AniListMedia, filter: (role: string) => boolean): string[] {
+		const names = result.staff?.edges?.filter(x => filter(x.role ?? '')).map(x => x.node.name.full) ?? [];
+		return [...new Set(names)];
+	}
+
+	private getRelations(result: AniListMedia, relationType: string): string[] {
+		return result.relations?.edges?.filter(x => x.relationType === relationType).map(x => x.node.title.english ?? x.node.title.romaji) ?? [];
+	}
+
+	private getStreamingServices(result: AniListMedia): string[] {
+		return result.externalLinks?.filter(x => x.type === 'STREAMING').map(x => x.site) ?? [];
+	}
+
+	private formatDate(date: AniListDate | null | undefined): string {
+		if (!date?.year) {
+			return 'unknown';
+		}
+		if (!date.month || !date.day) {
+			return date.year.toString();
+		}
+		return this.plugin.dateFormatter.format(`${date.year}-${date.month}-${date.day}`, this.apiDateFormat) ?? 'unknown';
+	}
+}
@@ -1,4 +1,3 @@
-import { requestUrl, Notice, Platform } from 'obsidian';
 import type MediaDbPlugin from '../../main';
 import { GameModel } from '../../models/GameModel';
 import type { MediaTypeModel } from '../../models/MediaTypeModel';
@@ -8,8 +7,50 @@ import { MusicReleaseModel } from '../../models/MusicReleaseModel';
 import { BoardGameModel } from '../../models/BoardGameModel';
 import { BookModel } from '../../models/BookModel';
 import { ComicMangaModel } from '../../models/ComicMangaModel';
+import type { BangumiCollectionState } from '../../utils/BangumiCollection';
+import { BANGUMI_COLLECTION_STATUSES, getBangumiCollectionType } from '../../utils/BangumiCollection';
 import { MediaType } from '../../utils/MediaType';
+import type { Episode } from '../APIModel';
 import { APIModel } from '../APIModel';
+import { HttpError } from '../HttpClient';
+
+/**
+ * An entry of the collection of the user, see {@link BangumiAPI.getCollections}.
+ */
+export interface BangumiCollectionEntry {
+	id: string;
+	title: string;
+	state: BangumiCollectionState;
+}
+
+/**
+ * A page of a paginated list of the v0 API.
+ */
+interface BangumiPage<T> {
+	data?: T[];
+	total?: number;
+}
+
+interface BangumiEpisode {
+	id: number;
+	ep: number;
+	sort: number;
+	name: string;
+	name_cn: string;
+	airdate: string;
+}
+
+/**
+ * A collection entry of the user, the subject is only included when listing the collection.
+ */
+interface BangumiCollectionItem {
+	subject_id: number;
+	type: number;
+	rate: number;
+	tags?: string[];
+	ep_status: number;
+	subject?: { name: string; name_cn: string };
+}
 
 export class BangumiAPI extends APIModel {
 	plugin: MediaDbPlugin;
@@ -22,60 +63,53 @@ export class BangumiAPI extends APIModel {
 		this.apiName = 'BangumiAPI';
 		this.apiDescription = 'A free API for Anime, Manga, Games, Music, and Real from Bangumi.';
 		
-		// 默认API URL
+		// the default proxy, a custom proxy from the settings is used instead if set, see getApiUrl
 		this.apiUrl = 'https://bangumi.mynanase.workers.dev/';
 		
-		// 只有当settings已加载时才尝试读取代理URL
-		if (this.plugin.settings) {
-			// 使用自定义代理URL（如果已设置）
-			if (this.plugin.settings.bangumiProxyUrl && this.plugin.settings.bangumiProxyUrl.trim() !== '') {
-				// 确保URL以斜杠结尾
-				let proxyUrl = this.plugin.settings.bangumiProxyUrl.trim();
-				if (!proxyUrl.endsWith('/')) {
-					proxyUrl += '/';
-				}
-				this.apiUrl = proxyUrl;
-				console.log(`MDB | BangumiAPI | Using custom proxy URL: ${this.apiUrl}`);
-			}
-		} else {
-			console.log('MDB | BangumiAPI | Settings not loaded yet, using default API URL');
-		}
-		
 		this.types = [MediaType.Movie, MediaType.Series, MediaType.ComicManga, MediaType.Game, MediaType.BoardGame, MediaType.MusicRelease, MediaType.Book];
+		this.urlPatterns = [/(?:bgm\.tv|bangumi\.tv|chii\.in)\/subject\/(\d+)/];
+		this.cacheKeySettings = ['bangumiAccessToken'];
+	}
+
+	/**
+	 * Returns the custom proxy URL from the settings, or the default proxy if none is set.
+	 * The settings are read on every request, as they are not loaded yet when the APIs are created.
+	 */
+	private getApiUrl(): string {
+		const proxyUrl = this.plugin.settings?.bangumiProxyUrl?.trim();
+		if (!proxyUrl) {
+			return this.apiUrl;
+		}
+		return proxyUrl.endsWith('/') ? proxyUrl : `${proxyUrl}/`;
 	}
 
 	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
 		console.log(`MDB | api "${this.apiName}" queried by Title`);
 
 		try {
-			// Use Obsidian's requestUrl instead of the library to avoid CORS and header issues
 			const encodedTitle = encodeURIComponent(title);
 			
-			const searchUrl = `${this.apiUrl}search/subject/${encodedTitle}?responseGroup=large`; // Reverted based on working curl example
+			const searchUrl = `${this.getApiUrl()}search/subject/${encodedTitle}?responseGroup=large`; // Reverted based on working curl example
 			
 			console.log(`MDB | BangumiAPI | Searching with URL: ${searchUrl}`);
 			
-			const searchResponse = await requestUrl({
-				url: searchUrl,
-				method: 'GET',
-				headers: { // Add headers object
-					'accept': 'application/json',
-					'User-Agent': 'mynanase/obsidian-media-db-plugin (https://github.com/Mynanase/obsidian-media-db-plugin)',
+			let searchResponse;
+			try {
+				searchResponse = await this.request({
+					url: searchUrl,
+					method: 'GET',
+					headers: { // Add headers object
+						'accept': 'application/json',
+						'User-Agent': 'mynanase/obsidian-media-db-plugin (https://github.com/Mynanase/obsidian-media-db-plugin)',
+					}
+				});
+			} catch (e) {
+				// Handle 404 specifically as "not found"
+				if (e instanceof HttpError && e.status === 404) {
+					console.log(`MDB | BangumiAPI | Search for "${title}" returned 404 (Not Found). Returning empty results.`);
+					return [];
 				}
-			});
-			
-			// Handle 404 specifically as "not found"
-			if (searchResponse.status === 404) {
-				console.log(`MDB | BangumiAPI | Search for "${title}" returned 404 (Not Found). Returning empty results.`);
-				return [];
-			}
-
-			if (searchResponse.status !== 200) {
-				// Log other non-200 statuses as warnings/errors
-				console.warn(`MDB | BangumiAPI | Search request failed with status ${searchResponse.status}. URL: ${searchUrl}`);
-				// Throw an error or return empty array based on how strict you want to be
-				// For now, returning empty to prevent breaking the flow, but logging a warning.
-				return []; 
+				throw e;
 			}
 			
 			const data = searchResponse.json;
@@ -203,9 +237,9 @@ export class BangumiAPI extends APIModel {
 			// 1. Fetch user collection data (if token and user ID are available)
 			if (accessToken && userId) {
 				try {
-					const userCollectionUrl = `${this.apiUrl}v0/users/${userId}/collections/${id}`;
+					const userCollectionUrl = `${this.getApiUrl()}v0/users/${userId}/collections/${id}`;
 					console.log(`MDB | BangumiAPI | Fetching user collection data: ${userCollectionUrl}`);
-					const userCollectionResponse = await requestUrl({
+					const userCollectionResponse = await this.request({
 						url: userCollectionUrl,
 						method: 'GET',
 						headers: {
@@ -215,14 +249,9 @@ export class BangumiAPI extends APIModel {
 						},
 					});
 
-					if (userCollectionResponse.status === 200) {
-						userData = userCollectionResponse.json;
-						fetchedFromCollection = true;
-						console.log(`MDB | BangumiAPI | Successfully fetched user data for ${id}`);
-					} else {
-						console.warn(`MDB | BangumiAPI | Failed to fetch user collection data for ${id}. Status: ${userCollectionResponse.status}. Proceeding with public data.`);
-						// Don't throw error here, just log and continue to public endpoint
-					}
+					userData = userCollectionResponse.json;
+					fetchedFromCollection = true;
+					console.log(`MDB | BangumiAPI | Successfully fetched user data for ${id}`);
 				} catch (userError) {
 					console.warn(`MDB | BangumiAPI | Error fetching user collection data for ${id}:`, userError);
 					// Proceed to public endpoint even if user collection fails
@@ -232,9 +261,9 @@ export class BangumiAPI extends APIModel {
 			}
 
 			// 2. Fetch public subject data (always required)
-			const subjectUrl = `${this.apiUrl}v0/subjects/${id}`;
+			const subjectUrl = `${this.getApiUrl()}v0/subjects/${id}`;
 			console.log(`MDB | BangumiAPI | Fetching public subject data: ${subjectUrl}`);
-			const subjectResponse = await requestUrl({
+			const subjectResponse = await this.request({
 				url: subjectUrl,
 				method: 'GET',
 				headers: { // Explicitly define headers WITHOUT Authorization
@@ -243,9 +272,6 @@ export class BangumiAPI extends APIModel {
 				},
 			});
 
-			if (subjectResponse.status !== 200) {
-				throw new Error(`MDB | BangumiAPI | Failed to fetch subject details for ${id}. Status: ${subjectResponse.status}`);
-			}
 			subjectData = subjectResponse.json;
 
 			// Check if subjectData is valid
@@ -539,4 +565,191 @@ export class BangumiAPI extends APIModel {
 
 		return values;
 	}
+
+	/**
+	 * Fetches the main episodes of a subject (type 0, without specials, OPs and EDs).
+	 * Bangumi has no seasons, every season is its own subject.
+	 */
+	async getEpisodes(id: string): Promise<Episode[]> {
+		console.log(`MDB | api "${this.apiName}" queried for episodes`);
+
+		const episodes = await this.fetchEpisodes(id);
+
+		return episodes.map(episode => ({
+			season: 1,
+			// 'ep' is the number within the subject, 'sort' continues the numbering of previous seasons
+			episode: episode.ep > 0 ? episode.ep : episode.sort,
+			title: this.getName(episode),
+			airDate: this.plugin.dateFormatter.format(episode.airdate, this.apiDateFormat) ?? 'unknown',
+		}));
+	}
+
+	private async fetchEpisodes(id: string): Promise<BangumiEpisode[]> {
+		const ret: BangumiEpisode[] = [];
+		const limit = 100;
+
+		for (let offset = 0; ; offset += limit) {
+			const episodesUrl = `${this.getApiUrl()}v0/episodes?subject_id=${encodeURIComponent(id)}&type=0&limit=${limit}&offset=${offset}`;
+			const episodesResponse = await this.request({
+				url: episodesUrl,
+				method: 'GET',
+				headers: {
+					'accept': 'application/json',
+					'User-Agent': 'mynanase/obsidian-media-db-plugin (https://github.com/Mynanase/obsidian-media-db-plugin)', // Consistent User-Agent
+				},
+			});
+
+			const data = episodesResponse.json as BangumiPage<BangumiEpisode> | undefined;
+			const episodes = data?.data ?? [];
+			ret.push(...episodes);
+
+			if (episodes.length < limit || offset + limit >= (data?.total ?? 0)) {
+				break;
+			}
+		}
+
+		return ret;
+	}
+
+	/**
+	 * Returns the Chinese name if there is one, Bangumi sends an empty string for missing names.
+	 */
+	private getName(item: { name: string; name_cn: string }): string {
+		return item.name_cn !== '' ? item.name_cn : item.name;
+	}
+
+	private getCollectionHeaders(): Record<string, string> {
+		const accessToken = this.plugin.settings?.bangumiAccessToken;
+		if (!accessToken) {
+			throw new Error('MDB | BangumiAPI | an access token is required to sync collections, set it in the settings');
+		}
+
+		return {
+			'Authorization': `Bearer ${accessToken}`,
+			'accept': 'application/json',
+			'User-Agent': 'mynanase/obsidian-media-db-plugin (https://github.com/Mynanase/obsidian-media-db-plugin)', // Consistent User-Agent
+		};
+	}
+
+	private getCollectionUserId(): string {
+		const userId = this.plugin.settings?.bangumiUserId;
+		if (!userId) {
+			throw new Error('MDB | BangumiAPI | a user ID is required to sync collections, set it in the settings');
+		}
+		return userId;
+	}
+
+	private toCollectionState(item: BangumiCollectionItem): BangumiCollectionState {
+		return {
+			status: BANGUMI_COLLECTION_STATUSES[item.type],
+			rating: item.rate > 0 ? item.rate : undefined,
+			tags: Array.isArray(item.tags) ? item.tags : [],
+			progress: item.ep_status > 0 ? item.ep_status : undefined,
+		};
+	}
+
+	/**
+	 * Fetches the collection entry of the user for a subject.
+	 *
+	 * @param id the id of the subject
+	 * @returns the state of the collection entry, or undefined if the user has not collected the subject
+	 */
+	async getCollection(id: string): Promise<BangumiCollectionState | undefined> {
+		console.log(`MDB | api "${this.apiName}" queried for the collection of ${id}`);
+
+		try {
+			const collectionResponse = await this.request({
+				url: `${this.getApiUrl()}v0/users/${encodeURIComponent(this.getCollectionUserId())}/collections/${encodeURIComponent(id)}`,
+				method: 'GET',
+				headers: this.getCollectionHeaders(),
+			});
+			return this.toCollectionState(collectionResponse.json as BangumiCollectionItem);
+		} catch (e) {
+			if (e instanceof HttpError && e.status === 404) {
+				return undefined;
+			}
+			throw e;
+		}
+	}
+
+	/**
+	 * Fetches the entire collection of the user.
+	 */
+	async getCollections(): Promise<BangumiCollectionEntry[]> {
+		console.log(`MDB | api "${this.apiName}" queried for the user collection`);
+
+		const ret: BangumiCollectionEntry[] = [];
+		const limit = 50;
+
+		for (let offset = 0; ; offset += limit) {
+			const collectionsResponse = await this.request({
+				url: `${this.getApiUrl()}v0/users/${encodeURIComponent(this.getCollectionUserId())}/collections?limit=${limit}&offset=${offset}`,
+				method: 'GET',
+				headers: this.getCollectionHeaders(),
+			});
+
+			const data = collectionsResponse.json as BangumiPage<BangumiCollectionItem> | undefined;
+			const items = data?.data ?? [];
+			for (const item of items) {
+				ret.push({ id: String(item.subject_id), title: item.subject ? this.getName(item.subject) : String(item.subject_id), state: this.toCollectionState(item) });
+			}
+
+			if (items.length < limit || offset + limit >= (data?.total ?? 0)) {
+				break;
+			}
+		}
+
+		return ret;
+	}
+
+	/**
+	 * Creates or updates the collection entry of the user for a subject.
+	 * The progress of books is stored as read chapters, for all other subjects the first episodes up to the progress are marked as watched.
+	 *
+	 * @param id the id of the subject
+	 * @param state
+	 * @param isBook whether the subject is a book
+	 */
+	async updateCollection(id: string, state: BangumiCollectionState, isBook: boolean): Promise<void> {
+		console.log(`MDB | api "${this.apiName}" updating the collection of ${id}`);
+
+		const body: Record<string, unknown> = {
+			rate: Math.max(0, Math.min(10, Math.round(state.rating ?? 0))),
+			tags: state.tags,
+		};
+		const type = getBangumiCollectionType(state.status);
+		if (type !== undefined) {
+			body.type = type;
+		}
+		if (isBook && state.progress !== undefined) {
+			body.ep_status = state.progress;
+		}
+
+		await this.request({
+			url: `${this.getApiUrl()}v0/users/-/collections/${encodeURIComponent(id)}`,
+			method: 'POST',
+			contentType: 'application/json',
+			headers: this.getCollectionHeaders(),
+			body: JSON.stringify(body),
+		});
+
+		if (isBook || !state.progress) {
+			return;
+		}
+
+		const episodes = await this.fetchEpisodes(id);
+		const watchedEpisodeIds = episodes.slice(0, state.progress).map(episode => episode.id);
+		if (watchedEpisodeIds.length === 0) {
+			return;
+		}
+
+		await this.request({
+			url: `${this.getApiUrl()}v0/users/-/collections/${encodeURIComponent(id)}/episodes`,
+			method: 'PATCH',
+			contentType: 'application/json',
+			headers: this.getCollectionHeaders(),
+			// type 2 marks the episodes as watched
+			body: JSON.stringify({ episode_id: watchedEpisodeIds, type: 2 }),
+		});
+	}
 }
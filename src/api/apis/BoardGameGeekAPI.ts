@@ -1,4 +1,3 @@
-import { requestUrl } from 'obsidian';
 import { BoardGameModel } from 'src/models/BoardGameModel';
 import type MediaDbPlugin from '../../main';
 import type { MediaTypeModel } from '../../models/MediaTypeModel';
@@ -16,19 +15,16 @@ export class BoardGameGeekAPI extends APIModel {
 		this.apiDescription = 'A free API for BoardGameGeek things.';
 		this.apiUrl = 'https://api.geekdo.com/xmlapi';
 		this.types = [MediaType.BoardGame];
+		this.urlPatterns = [/boardgamegeek\.com\/(?:boardgame|boardgameexpansion)\/(\d+)/];
+		// BGG responds with 202 while it prepares the requested data, so we retry more patiently
+		this.requestPolicy = { maxRetries: 5, retryDelay: 2000 };
 	}
 
 	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
 		console.log(`MDB | api "${this.apiName}" queried by Title`);
 
 		const searchUrl = `${this.apiUrl}/search?search=${encodeURIComponent(title)}`;
-		const fetchData = await requestUrl({
-			url: searchUrl,
-		});
-
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
+		const fetchData = await this.request({ url: searchUrl });
 
 		const data = fetchData.text;
 		const response = new window.DOMParser().parseFromString(data, 'text/xml');
@@ -60,13 +56,7 @@ export class BoardGameGeekAPI extends APIModel {
 		console.log(`MDB | api "${this.apiName}" queried by ID`);
 
 		const searchUrl = `${this.apiUrl}/boardgame/${encodeURIComponent(id)}?stats=1`;
-		const fetchData = await requestUrl({
-			url: searchUrl,
-		});
-
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
+		const fetchData = await this.request({ url: searchUrl });
 
 		const data = fetchData.text;
 		const response = new window.DOMParser().parseFromString(data, 'text/xml');
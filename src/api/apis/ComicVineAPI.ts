@@ -1,4 +1,3 @@
-import { requestUrl } from 'obsidian';
 import { ComicMangaModel } from 'src/models/ComicMangaModel';
 import type MediaDbPlugin from '../../main';
 import type { MediaTypeModel } from '../../models/MediaTypeModel';
@@ -16,21 +15,19 @@ export class ComicVineAPI extends APIModel {
 		this.apiDescription = 'A free API for comic books.';
 		this.apiUrl = 'https://comicvine.gamespot.com/api';
 		this.types = [MediaType.ComicManga];
+		this.urlPatterns = [/comicvine\.gamespot\.com\/[^/]+\/(4050-\d+)/];
+		this.cacheKeySettings = ['ComicVineKey'];
+		// Comic Vine blocks clients that send too many requests per second
+		this.requestPolicy = { minRequestInterval: 1000 };
 	}
 
 	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
 		console.log(`MDB | api "${this.apiName}" queried by Title`);
 
 		const searchUrl = `${this.apiUrl}/search/?api_key=${this.plugin.settings.ComicVineKey}&format=json&resources=volume&query=${encodeURIComponent(title)}`;
-		const fetchData = await requestUrl({
-			url: searchUrl,
-		});
+		const fetchData = await this.request({ url: searchUrl });
 		// console.debug(fetchData);
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json;
+		const data = fetchData.json;
 		// console.debug(data);
 		const ret: MediaTypeModel[] = [];
 		for (const result of data.results) {
@@ -53,17 +50,11 @@ export class ComicVineAPI extends APIModel {
 		console.log(`MDB | api "${this.apiName}" queried by ID`);
 
 		const searchUrl = `${this.apiUrl}/volume/${encodeURIComponent(id)}/?api_key=${this.plugin.settings.ComicVineKey}&format=json`;
-		const fetchData = await requestUrl({
-			url: searchUrl,
-		});
+		const fetchData = await this.request({ url: searchUrl });
 
 		console.debug(fetchData);
 
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json;
+		const data = fetchData.json;
 		// console.debug(data);
 		const result = data.results;
 
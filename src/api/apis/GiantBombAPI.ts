@@ -1,4 +1,3 @@
-import { requestUrl } from 'obsidian';
 import type MediaDbPlugin from '../../main';
 import { GameModel } from '../../models/GameModel';
 import type { MediaTypeModel } from '../../models/MediaTypeModel';
@@ -17,6 +16,10 @@ export class GiantBombAPI extends APIModel {
 		this.apiDescription = 'A free API for games.';
 		this.apiUrl = 'https://www.giantbomb.com/api';
 		this.types = [MediaType.Game];
+		this.urlPatterns = [/giantbomb\.com\/[^/]+\/(3030-\d+)/];
+		this.cacheKeySettings = ['GiantBombKey'];
+		// Giant Bomb blocks clients that send too many requests per second
+		this.requestPolicy = { minRequestInterval: 1000 };
 	}
 	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
 		console.log(`MDB | api "${this.apiName}" queried by Title`);
@@ -26,23 +29,11 @@ export class GiantBombAPI extends APIModel {
 		}
 
 		const searchUrl = `${this.apiUrl}/games?api_key=${this.plugin.settings.GiantBombKey}&filter=name:${encodeURIComponent(title)}&format=json`;
-		const fetchData = await requestUrl({
-			url: searchUrl,
-		});
+		const fetchData = await this.request({ url: searchUrl });
 
 		// console.debug(fetchData);
 
-		if (fetchData.status === 401) {
-			throw Error(`MDB | Authentication for ${this.apiName} failed. Check the API key.`);
-		}
-		if (fetchData.status === 429) {
-			throw Error(`MDB | Too many requests for ${this.apiName}, you've exceeded your API quota.`);
-		}
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json;
+		const data = fetchData.json;
 		// console.debug(data);
 		const ret: MediaTypeModel[] = [];
 		for (const result of data.results) {
@@ -69,16 +60,10 @@ export class GiantBombAPI extends APIModel {
 		}
 
 		const searchUrl = `${this.apiUrl}/game/${encodeURIComponent(id)}/?api_key=${this.plugin.settings.GiantBombKey}&format=json`;
-		const fetchData = await requestUrl({
-			url: searchUrl,
-		});
+		const fetchData = await this.request({ url: searchUrl });
 		console.debug(fetchData);
 
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json;
+		const data = fetchData.json;
 		// console.debug(data);
 		const result = data.results;
 
@@ -0,0 +1,174 @@
+import type MediaDbPlugin from '../../main';
+import { BookModel } from '../../models/BookModel';
+import type { MediaTypeModel } from '../../models/MediaTypeModel';
+import { isValidISBN, looksLikeISBN, normalizeISBN } from '../../utils/ISBN';
+import { MediaType } from '../../utils/MediaType';
+import { APIModel } from '../APIModel';
+
+interface GoogleBooksVolumeInfo {
+	title?: string;
+	authors?: string[];
+	publishedDate?: string;
+	publisher?: string;
+	description?: string;
+	industryIdentifiers?: { type: string; identifier: string }[];
+	pageCount?: number;
+	averageRating?: number;
+	categories?: string[];
+	language?: string;
+	imageLinks?: { thumbnail?: string; smallThumbnail?: string };
+	canonicalVolumeLink?: string;
+	infoLink?: string;
+}
+
+interface GoogleBooksVolume {
+	id: string;
+	volumeInfo?: GoogleBooksVolumeInfo;
+}
+
+export class GoogleBooksAPI extends APIModel {
+	plugin: MediaDbPlugin;
+
+	constructor(plugin: MediaDbPlugin) {
+		super();
+
+		this.plugin = plugin;
+		this.apiName = 'GoogleBooksAPI';
+		this.apiDescription = 'A free API for books. Also finds books by their ISBN.';
+		this.apiUrl = 'https://www.googleapis.com/books/v1';
+		this.types = [MediaType.Book];
+		this.urlPatterns = [/books\.google\.[a-z.]+\/books\?(?:.*&)?id=([\w-]+)/, /google\.[a-z.]+\/books\/edition\/[^/]+\/([\w-]+)/];
+		this.cacheKeySettings = ['GoogleBooksKey'];
+	}
+
+	/**
+	 * Searches by ISBN instead, if the title is a valid ISBN.
+	 *
+	 * @param title
+	 */
+	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
+		console.log(`MDB | api "${this.apiName}" queried by Title`);
+
+		const query = looksLikeISBN(title) && isValidISBN(title) ? `isbn:${normalizeISBN(title)}` : `intitle:${title}`;
+		const data = await this.searchVolumes(query);
+
+		const ret: MediaTypeModel[] = [];
+
+		for (const result of data.items ?? []) {
+			const volumeInfo = result.volumeInfo ?? {};
+			ret.push(
+				new BookModel({
+					title: volumeInfo.title,
+					englishTitle: volumeInfo.title,
+					year: this.getYear(volumeInfo.publishedDate),
+					dataSource: this.apiName,
+					id: result.id,
+					author: volumeInfo.authors?.join(', ') ?? 'unknown',
+					image: this.getImageUrl(volumeInfo),
+				}),
+			);
+		}
+
+		return ret;
+	}
+
+	/**
+	 * Accepts a Google Books volume ID or an ISBN-10 or ISBN-13.
+	 *
+	 * @param id
+	 */
+	async getById(id: string): Promise<MediaTypeModel> {
+		console.log(`MDB | api "${this.apiName}" queried by ID`);
+
+		const volumeId = looksLikeISBN(id) ? await this.findByISBN(id) : id;
+
+		const searchUrl = `${this.apiUrl}/volumes/${encodeURIComponent(volumeId)}${this.getKeyParameter('?')}`;
+		const fetchData = await this.request({ url: searchUrl });
+
+		const result = fetchData.json as GoogleBooksVolume;
+		// console.debug(result);
+		const volumeInfo = result.volumeInfo ?? {};
+		const identifiers = volumeInfo.industryIdentifiers ?? [];
+
+		return new BookModel({
+			title: volumeInfo.title,
+			englishTitle: volumeInfo.title,
+			year: this.getYear(volumeInfo.publishedDate),
+			dataSource: this.apiName,
+			url: volumeInfo.canonicalVolumeLink ?? volumeInfo.infoLink ?? '',
+			id: result.id,
+			isbn: identifiers.find(x => x.type === 'ISBN_10')?.identifier ?? 'unknown',
+			isbn13: identifiers.find(x => x.type === 'ISBN_13')?.identifier ?? 'unknown',
+
+			author: volumeInfo.authors?.join(', ') ?? 'unknown',
+			plot: this.cleanDescription(volumeInfo.description),
+			pages: volumeInfo.pageCount ?? 0,
+			onlineRating: volumeInfo.averageRating ?? 0,
+			image: this.getImageUrl(volumeInfo),
+			publisher: volumeInfo.publisher ?? 'unknown',
+			language: volumeInfo.language ?? 'unknown',
+			categories: volumeInfo.categories ?? [],
+
+			released: true,
+
+			userData: {
+				read: false,
+				lastRead: '',
+				personalRating: 0,
+			},
+		});
+	}
+
+	/**
+	 * Returns the ID of the volume with the given ISBN.
+	 *
+	 * @param isbn
+	 */
+	private async findByISBN(isbn: string): Promise<string> {
+		if (!isValidISBN(isbn)) {
+			throw Error(`MDB | ${isbn} is not a valid ISBN, the check digit does not match.`);
+		}
+
+		const data = await this.searchVolumes(`isbn:${normalizeISBN(isbn)}`);
+		if (!data.items?.[0]) {
+			throw Error(`MDB | ${this.apiName} has no book with the ISBN ${isbn}.`);
+		}
+
+		return data.items[0].id;
+	}
+
+	private async searchVolumes(query: string): Promise<{ items?: GoogleBooksVolume[] }> {
+		const searchUrl = `${this.apiUrl}/volumes?q=${encodeURIComponent(query)}&maxResults=20&printType=books${this.getKeyParameter('&')}`;
+		const fetchData = await this.request({ url: searchUrl });
+		return fetchData.json as { items?: GoogleBooksVolume[] };
+	}
+
+	/**
+	 * The API key is optional for Google Books, without one the requests share a smaller quota.
+	 */
+	private getKeyParameter(separator: string): string {
+		return this.plugin.settings.GoogleBooksKey ? `${separator}key=${this.plugin.settings.GoogleBooksKey}` : '';
+	}
+
+	private getYear(publishedDate: string | undefined): string {
+		return publishedDate ? publishedDate.substring(0, 4) : '';
+	}
+
+	private getImageUrl(volumeInfo: GoogleBooksVolumeInfo): string {
+		const url = volumeInfo.imageLinks?.thumbnail ?? volumeInfo.imageLinks?.smallThumbnail ?? '';
+		return url.replace(/^http:/, 'https:');
+	}
+
+	/**
+	 * Descriptions of volumes can contain HTML formatting.
+	 */
+	private cleanDescription(description: string | undefined): string {
+		if (!description) {
+			return 'unknown';
+		}
+		return description
+			.replace(/<br\s*\/?>/g, '\n')
+			.replace(/<[^>]*>/g, '')
+			.trim();
+	}
+}
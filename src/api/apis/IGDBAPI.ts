@@ -0,0 +1,273 @@
+import type MediaDbPlugin from '../../main';
+import { GameModel } from '../../models/GameModel';
+import type { MediaTypeModel } from '../../models/MediaTypeModel';
+import { MediaType } from '../../utils/MediaType';
+import { APIModel } from '../APIModel';
+import { HttpError } from '../HttpClient';
+
+interface IGDBNamed {
+	name: string;
+}
+
+/**
+ * A game with the requested fields, fields that were not requested or that the game has no value for are missing.
+ */
+interface IGDBGame {
+	id: number;
+	name: string;
+	url?: string;
+	summary?: string;
+	first_release_date?: number;
+	total_rating?: number;
+	genres?: IGDBNamed[];
+	platforms?: IGDBNamed[];
+	involved_companies?: { developer: boolean; publisher: boolean; company: IGDBNamed }[];
+	release_dates?: { date?: number; platform?: IGDBNamed }[];
+	franchise?: IGDBNamed;
+	franchises?: IGDBNamed[];
+	cover?: { image_id: string };
+	websites?: { url: string; category: number }[];
+}
+
+interface TwitchToken {
+	access_token: string;
+	expires_in: number;
+}
+
+export class IGDBAPI extends APIModel {
+	plugin: MediaDbPlugin;
+	tokenUrl: string = 'https://id.twitch.tv/oauth2/token';
+	imageUrl: string = 'https://images.igdb.com/igdb/image/upload';
+
+	accessToken: string | undefined;
+	/**
+	 * When the access token expires, in milliseconds since the epoch.
+	 */
+	accessTokenExpiry: number;
+	/**
+	 * The client ID the access token was issued for, so a new token is requested when the client ID in the settings changes.
+	 */
+	accessTokenClientId: string | undefined;
+
+	constructor(plugin: MediaDbPlugin) {
+		super();
+
+		this.plugin = plugin;
+		this.apiName = 'IGDBAPI';
+		this.apiDescription = 'A free API for games on all platforms.';
+		this.apiUrl = 'https://api.igdb.com/v4';
+		this.types = [MediaType.Game];
+		this.cacheKeySettings = ['IGDBClientId', 'IGDBClientSecret'];
+		// IGDB allows 4 requests per second
+		this.requestPolicy = { minRequestInterval: 250 };
+
+		this.accessToken = undefined;
+		this.accessTokenExpiry = 0;
+		this.accessTokenClientId = undefined;
+	}
+
+	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
+		console.log(`MDB | api "${this.apiName}" queried by Title`);
+
+		const data = await this.queryIGDB<IGDBGame>(
+			'games',
+			`search "${title.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"; fields name,first_release_date,cover.image_id; limit 20;`,
+		);
+
+		const ret: MediaTypeModel[] = [];
+
+		for (const result of data) {
+			ret.push(
+				new GameModel({
+					type: MediaType.Game,
+					title: result.name,
+					englishTitle: result.name,
+					year: this.getYear(result.first_release_date),
+					dataSource: this.apiName,
+					id: result.id.toString(),
+					image: this.getImageUrl(result.cover?.image_id),
+				}),
+			);
+		}
+
+		return ret;
+	}
+
+	async getById(id: string): Promise<MediaTypeModel> {
+		console.log(`MDB | api "${this.apiName}" queried by ID`);
+
+		if (!/^\d+$/.test(id)) {
+			throw Error(`MDB | ${id} is not a valid ID for ${this.apiName}.`);
+		}
+
+		const fields = [
+			'name',
+			'url',
+			'summary',
+			'first_release_date',
+			'total_rating',
+			'genres.name',
+			'platforms.name',
+			'involved_companies.developer',
+			'involved_companies.publisher',
+			'involved_companies.company.name',
+			'release_dates.date',
+			'release_dates.platform.name',
+			'franchise.name',
+			'franchises.name',
+			'cover.image_id',
+			'websites.url',
+			'websites.category',
+		];
+		const data = await this.queryIGDB<IGDBGame>('games', `fields ${fields.join(',')}; where id = ${id};`);
+
+		const result = data[0];
+		if (!result) {
+			throw Error(`MDB | ${this.apiName} has no game with the ID ${id}.`);
+		}
+		// console.debug(result);
+
+		const companies = result.involved_companies ?? [];
+
+		return new GameModel({
+			type: MediaType.Game,
+			title: result.name,
+			englishTitle: result.name,
+			year: this.getYear(result.first_release_date),
+			dataSource: this.apiName,
+			url: result.url,
+			id: result.id.toString(),
+
+			developers: companies.filter(x => x.developer).map(x => x.company.name),
+			publishers: companies.filter(x => x.publisher).map(x => x.company.name),
+			genres: result.genres?.map(x => x.name) ?? [],
+			platforms: result.platforms?.map(x => x.name) ?? [],
+			franchises: this.getFranchises(result),
+			onlineRating: result.total_rating ? Math.round(result.total_rating) / 10 : 0,
+			image: this.getImageUrl(result.cover?.image_id),
+			// the category 1 is the official website of the game
+			website: result.websites?.find(x => x.category === 1)?.url ?? '',
+			description: result.summary ?? '',
+
+			released: result.first_release_date ? result.first_release_date * 1000 <= Date.now() : false,
+			releaseDate: this.formatDate(result.first_release_date),
+			platformReleaseDates: this.getPlatformReleaseDates(result),
+
+			userData: {
+				played: false,
+				personalRating: 0,
+			},
+		});
+	}
+
+	/**
+	 * Sends an Apicalypse query to an IGDB endpoint.
+	 * If IGDB rejects the access token, e.g. because it was revoked, a new token is requested and the query is sent once more.
+	 *
+	 * @param endpoint
+	 * @param body
+	 */
+	private async queryIGDB<T>(endpoint: string, body: string): Promise<T[]> {
+		const { IGDBClientId, IGDBClientSecret } = this.plugin.settings;
+		if (!IGDBClientId || !IGDBClientSecret) {
+			throw Error(`MDB | Client ID and secret for ${this.apiName} missing.`);
+		}
+
+		for (let attempt = 0; ; attempt++) {
+			const accessToken = await this.getAccessToken();
+
+			try {
+				const fetchData = await this.request({
+					url: `${this.apiUrl}/${endpoint}`,
+					method: 'POST',
+					contentType: 'text/plain',
+					headers: {
+						Accept: 'application/json',
+						'Client-ID': IGDBClientId,
+						Authorization: `Bearer ${accessToken}`,
+					},
+					body: body,
+				});
+				return fetchData.json as T[];
+			} catch (e) {
+				if (e instanceof HttpError && e.status === 401 && attempt === 0) {
+					console.debug(`MDB | ${this.apiName} rejected the access token, requesting a new one`);
+					this.accessToken = undefined;
+					continue;
+				}
+				throw e;
+			}
+		}
+	}
+
+	/**
+	 * Returns the current access token, or requests a new one from Twitch using the client credentials if it is missing or about to expire.
+	 */
+	private async getAccessToken(): Promise<string> {
+		const { IGDBClientId, IGDBClientSecret } = this.plugin.settings;
+
+		// renew the token a minute before it expires, so it does not expire during a request
+		if (this.accessToken && this.accessTokenClientId === IGDBClientId && this.accessTokenExpiry - 60 * 1000 > Date.now()) {
+			return this.accessToken;
+		}
+
+		const tokenUrl = `${this.tokenUrl}?client_id=${encodeURIComponent(IGDBClientId)}&client_secret=${encodeURIComponent(IGDBClientSecret)}&grant_type=client_credentials`;
+		let data: TwitchToken;
+		try {
+			const fetchData = await this.request({ url: tokenUrl, method: 'POST' });
+			data = fetchData.json as TwitchToken;
+		} catch (e) {
+			if (e instanceof HttpError && e.status >= 400 && e.status < 500) {
+				throw Error(`MDB | Twitch did not accept the client ID and secret for ${this.apiName}.`);
+			}
+			throw e;
+		}
+
+		this.accessToken = data.access_token;
+		this.accessTokenExpiry = Date.now() + data.expires_in * 1000;
+		this.accessTokenClientId = IGDBClientId;
+
+		return this.accessToken;
+	}
+
+	private getYear(timestamp: number | undefined): string {
+		return timestamp ? new Date(timestamp * 1000).getUTCFullYear().toString() : '';
+	}
+
+	private formatDate(timestamp: number | undefined): string {
+		if (!timestamp) {
+			return 'unknown';
+		}
+		return this.plugin.dateFormatter.format(new Date(timestamp * 1000).toISOString()) ?? 'unknown';
+	}
+
+	private getImageUrl(imageId: string | undefined): string {
+		return imageId ? `${this.imageUrl}/t_cover_big/${imageId}.jpg` : '';
+	}
+
+	private getFranchises(result: IGDBGame): string[] {
+		const franchises = result.franchises?.map(x => x.name) ?? [];
+		if (result.franchise?.name) {
+			franchises.unshift(result.franchise.name);
+		}
+		return [...new Set(franchises)];
+	}
+
+	/**
+	 * Lists the first release date on every platform, in the form `Platform: date`.
+	 */
+	private getPlatformReleaseDates(result: IGDBGame): string[] {
+		const releaseDates = new Map<string, number>();
+		for (const releaseDate of result.release_dates ?? []) {
+			const platform = releaseDate.platform?.name;
+			if (!platform || !releaseDate.date) {
+				continue;
+			}
+			const current = releaseDates.get(platform);
+			if (current === undefined || releaseDate.date < current) {
+				releaseDates.set(platform, releaseDate.date);
+			}
+		}
+		return [...releaseDates.entries()].map(([platform, date]) => `${platform}: ${this.formatDate(date)}`);
+	}
+}
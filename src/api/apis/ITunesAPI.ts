@@ -0,0 +1,223 @@
+import type MediaDbPlugin from '../../main';
+import { AudiobookModel } from '../../models/AudiobookModel';
+import type { MediaTypeModel } from '../../models/MediaTypeModel';
+import { PodcastModel } from '../../models/PodcastModel';
+import { MediaType } from '../../utils/MediaType';
+import { APIModel } from '../APIModel';
+
+/**
+ * A result of the iTunes search or lookup API. Podcasts and audiobooks share most fields, the remaining ones are only set for one of them.
+ */
+interface ITunesResult {
+	wrapperType: string;
+	kind?: string;
+	collectionId: number;
+	collectionName: string;
+	collectionViewUrl?: string;
+	artistName?: string;
+	artworkUrl100?: string;
+	artworkUrl600?: string;
+	releaseDate?: string;
+	primaryGenreName?: string;
+	genres?: string[];
+	feedUrl?: string;
+	trackCount?: number;
+	description?: string;
+	copyright?: string;
+}
+
+export class ITunesAPI extends APIModel {
+	plugin: MediaDbPlugin;
+	defaultApiUrl: string = 'https://itunes.apple.com';
+	apiDateFormat: string = 'YYYY-MM-DDTHH:mm:ssZ'; // ISO
+
+	constructor(plugin: MediaDbPlugin) {
+		super();
+
+		this.plugin = plugin;
+		this.apiName = 'iTunesAPI';
+		this.apiDescription = 'A free API for Podcasts and Audiobooks.';
+		this.apiUrl = this.defaultApiUrl;
+		this.types = [MediaType.Podcast, MediaType.Audiobook];
+		this.urlPatterns = [/(?:podcasts|books)\.apple\.com\/.*\/id(\d+)/];
+		this.cacheKeySettings = ['iTunesApiUrl', 'sfwFilter'];
+		// the iTunes search API allows around 20 requests per minute
+		this.requestPolicy = { minRequestInterval: 3000 };
+	}
+
+	/**
+	 * The base URL can be changed in the settings, e.g. to use a mirror or a local server that serves the same API.
+	 * It is read on every request, so changes to the setting apply without a restart.
+	 */
+	getApiUrl(): string {
+		return (this.plugin.settings.iTunesApiUrl || this.defaultApiUrl).replace(/\/+$/, '');
+	}
+
+	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
+		console.log(`MDB | api "${this.apiName}" queried by Title`);
+
+		const ret: MediaTypeModel[] = [];
+
+		for (const media of ['podcast', 'audiobook']) {
+			const searchUrl = `${this.getApiUrl()}/search?term=${encodeURIComponent(title)}&media=${media}&limit=20${this.plugin.settings.sfwFilter ? '&explicit=No' : ''}`;
+			const fetchData = await this.request({ url: searchUrl });
+
+			const data = fetchData.json as { results?: ITunesResult[] };
+			// console.debug(data);
+
+			for (const result of data.results ?? []) {
+				const model = this.createModel(result, true);
+				if (model) {
+					ret.push(model);
+				}
+			}
+		}
+
+		return ret;
+	}
+
+	async getById(id: string): Promise<MediaTypeModel> {
+		console.log(`MDB | api "${this.apiName}" queried by ID`);
+
+		const searchUrl = `${this.getApiUrl()}/lookup?id=${encodeURIComponent(id)}`;
+		const fetchData = await this.request({ url: searchUrl });
+
+		const data = fetchData.json as { results?: ITunesResult[] };
+		// console.debug(data);
+
+		const result = data.results?.[0];
+		if (!result) {
+			throw Error(`MDB | ${this.apiName} has no podcast or audiobook with the ID ${id}.`);
+		}
+
+		const model = this.createModel(result, false);
+		if (!model) {
+			throw new Error(`MDB | Unknown media type for id ${id}`);
+		}
+
+		return model;
+	}
+
+	/**
+	 * Podcasts are returned as tracks of the kind `podcast`, audiobooks have their own wrapper type.
+	 *
+	 * @param result
+	 * @param isSearchResult search results only get the fields needed to pick the right result
+	 */
+	private createModel(result: ITunesResult, isSearchResult: boolean): MediaTypeModel | undefined {
+		if (result.kind === 'podcast') {
+			const shared = {
+				title: result.collectionName,
+				englishTitle: result.collectionName,
+				year: this.getYear(result.releaseDate),
+				dataSource: this.apiName,
+				id: result.collectionId.toString(),
+				hosts: result.artistName ? [result.artistName] : [],
+				image: result.artworkUrl600 ?? result.artworkUrl100 ?? '',
+			};
+
+			if (isSearchResult) {
+				return new PodcastModel(shared);
+			}
+
+			return new PodcastModel({
+				...shared,
+				url: result.collectionViewUrl ?? '',
+
+				genres: (result.genres ?? []).filter(x => x !== 'Podcasts'),
+				feedUrl: result.feedUrl ?? '',
+				episodes: result.trackCount ?? 0,
+
+				released: true,
+				latestEpisode: this.plugin.dateFormatter.format(result.releaseDate ?? '', this.apiDateFormat) ?? 'unknown',
+
+				userData: {
+					listened: false,
+					lastListened: '',
+					personalRating: 0,
+				},
+			});
+		}
+
+		if (result.wrapperType === 'audiobook') {
+			const shared = {
+				title: result.collectionName,
+				englishTitle: result.collectionName,
+				year: this.getYear(result.releaseDate),
+				dataSource: this.apiName,
+				id: result.collectionId.toString(),
+				author: result.artistName ?? 'unknown',
+				image: result.artworkUrl100?.replace('100x100', '600x600') ?? '',
+			};
+
+			if (isSearchResult) {
+				return new AudiobookModel(shared);
+			}
+
+			const description = this.cleanDescription(result.description);
+
+			return new AudiobookModel({
+				...shared,
+				url: result.collectionViewUrl ?? '',
+
+				plot: description,
+				genres: result.primaryGenreName ? [result.primaryGenreName] : [],
+				narrator: this.getNarrators(description),
+				publisher: this.getPublisher(result.copyright),
+
+				released: true,
+				releaseDate: this.plugin.dateFormatter.format(result.releaseDate ?? '', this.apiDateFormat) ?? 'unknown',
+
+				userData: {
+					listened: false,
+					lastListened: '',
+					personalRating: 0,
+				},
+			});
+		}
+
+		return undefined;
+	}
+
+	private getYear(date: string | undefined): string {
+		return date ? date.substring(0, 4) : '';
+	}
+
+	/**
+	 * iTunes has no field for the narrator, but most descriptions name them, e.g. "Narrated by Stephen Fry".
+	 *
+	 * @param description
+	 */
+	private getNarrators(description: string): string[] {
+		const match = /narrated by:? ([^.\n]+)/i.exec(description);
+		if (!match) {
+			return [];
+		}
+		return match[1]
+			.split(/,| and | & /)
+			.map(x => x.trim())
+			.filter(x => x !== '');
+	}
+
+	/**
+	 * Extracts the publisher from the copyright notice, e.g. "℗ 2015 Pottermore Publishing".
+	 *
+	 * @param copyright
+	 */
+	private getPublisher(copyright: string | undefined): string {
+		if (!copyright) {
+			return 'unknown';
+		}
+		return copyright.replace(/^[©℗\s\d,]+/, '').trim() || 'unknown';
+	}
+
+	private cleanDescription(description: string | undefined): string {
+		if (!description) {
+			return '';
+		}
+		return description
+			.replace(/<br\s*\/?>/g, '\n')
+			.replace(/<[^>]*>/g, '')
+			.trim();
+	}
+}
@@ -2,9 +2,21 @@ import type MediaDbPlugin from '../../main';
 import type { MediaTypeModel } from '../../models/MediaTypeModel';
 import { MovieModel } from '../../models/MovieModel';
 import { SeriesModel } from '../../models/SeriesModel';
+import type { ListImportEntry } from '../../utils/ListImport';
+import type { MALAnimeListItem } from '../../utils/MALImport';
+import { getMALListUrl, MAL_LIST_PAGE_SIZE, parseMALAnimeList } from '../../utils/MALImport';
 import { MediaType } from '../../utils/MediaType';
+import type { Episode } from '../APIModel';
 import { APIModel } from '../APIModel';
 
+/**
+ * A page of the episodes of an anime from Jikan.
+ */
+interface JikanEpisodePage {
+	data?: { mal_id: number; title?: string | null; title_romanji?: string | null; aired?: string | null }[];
+	pagination?: { has_next_page: boolean };
+}
+
 export class MALAPI extends APIModel {
 	plugin: MediaDbPlugin;
 	typeMappings: Map<string, string>;
@@ -18,6 +30,10 @@ export class MALAPI extends APIModel {
 		this.apiDescription = 'A free API for Anime. Some results may take a long time to load.';
 		this.apiUrl = 'https://jikan.moe/';
 		this.types = [MediaType.Movie, MediaType.Series];
+		this.urlPatterns = [/myanimelist\.net\/anime\/(\d+)/];
+		this.cacheKeySettings = ['sfwFilter'];
+		// Jikan allows 60 requests per minute and is often slow to respond
+		this.requestPolicy = { minRequestInterval: 1000, timeout: 30000 };
 		this.typeMappings = new Map<string, string>();
 		this.typeMappings.set('movie', 'movie');
 		this.typeMappings.set('special', 'special');
@@ -30,12 +46,9 @@ export class MALAPI extends APIModel {
 
 		const searchUrl = `https://api.jikan.moe/v4/anime?q=${encodeURIComponent(title)}&limit=20${this.plugin.settings.sfwFilter ? '&sfw' : ''}`;
 
-		const fetchData = await fetch(searchUrl);
+		const fetchData = await this.request({ url: searchUrl });
 		// console.debug(fetchData);
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-		const data = await fetchData.json();
+		const data = fetchData.json;
 
 		// console.debug(data);
 
@@ -87,13 +100,9 @@ export class MALAPI extends APIModel {
 		console.log(`MDB | api "${this.apiName}" queried by ID`);
 
 		const searchUrl = `https://api.jikan.moe/v4/anime/${encodeURIComponent(id)}/full`;
-		const fetchData = await fetch(searchUrl);
+		const fetchData = await this.request({ url: searchUrl });
 
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json();
+		const data = fetchData.json;
 		// console.debug(data);
 		const result = data.data;
 
@@ -195,4 +204,62 @@ export class MALAPI extends APIModel {
 
 		throw new Error(`MDB | Unknown media type for id ${id}`);
 	}
+
+	/**
+	 * Jikan returns the episodes in pages of 100, so all pages are requested one after another.
+	 *
+	 * @param id
+	 */
+	async getEpisodes(id: string): Promise<Episode[]> {
+		console.log(`MDB | api "${this.apiName}" queried for episodes`);
+
+		const ret: Episode[] = [];
+
+		for (let page = 1; ; page++) {
+			const searchUrl = `https://api.jikan.moe/v4/anime/${encodeURIComponent(id)}/episodes?page=${page}`;
+			const fetchData = await this.request({ url: searchUrl });
+
+			const data = fetchData.json as JikanEpisodePage;
+			// console.debug(data);
+
+			for (const result of data.data ?? []) {
+				ret.push({
+					season: 1,
+					episode: result.mal_id,
+					title: result.title ?? result.title_romanji ?? '',
+					airDate: this.plugin.dateFormatter.format(result.aired ?? '', this.apiDateFormat) ?? 'unknown',
+				});
+			}
+
+			if (!data.pagination?.has_next_page) {
+				break;
+			}
+		}
+
+		return ret;
+	}
+
+	/**
+	 * Fetches the anime list of a MyAnimeList user from the list endpoint, which can be changed to a proxy in the settings.
+	 *
+	 * @param username
+	 * @param ratingScale the rating scale from the settings, the scores are converted to it
+	 */
+	async getUserList(username: string, ratingScale: number): Promise<ListImportEntry[]> {
+		console.log(`MDB | api "${this.apiName}" queried for the list of ${username}`);
+
+		const ret: ListImportEntry[] = [];
+
+		for (let offset = 0; ; offset += MAL_LIST_PAGE_SIZE) {
+			const fetchData = await this.request({ url: getMALListUrl(this.plugin.settings.malListBaseUrl, 'animelist', username, offset) });
+			const items = Array.isArray(fetchData.json) ? (fetchData.json as MALAnimeListItem[]) : [];
+			ret.push(...parseMALAnimeList(items, ratingScale));
+
+			if (items.length < MAL_LIST_PAGE_SIZE) {
+				break;
+			}
+		}
+
+		return ret;
+	}
 }
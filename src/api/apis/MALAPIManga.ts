@@ -1,6 +1,9 @@
 import type MediaDbPlugin from '../../main';
 import { ComicMangaModel } from '../../models/ComicMangaModel';
 import type { MediaTypeModel } from '../../models/MediaTypeModel';
+import type { ListImportEntry } from '../../utils/ListImport';
+import type { MALMangaListItem } from '../../utils/MALImport';
+import { getMALListUrl, MAL_LIST_PAGE_SIZE, parseMALMangaList } from '../../utils/MALImport';
 import { MediaType } from '../../utils/MediaType';
 import { APIModel } from '../APIModel';
 
@@ -16,6 +19,10 @@ export class MALAPIManga extends APIModel {
 		this.apiDescription = 'A free API for Manga. Some results may take a long time to load.';
 		this.apiUrl = 'https://jikan.moe/';
 		this.types = [MediaType.ComicManga];
+		this.urlPatterns = [/myanimelist\.net\/manga\/(\d+)/];
+		this.cacheKeySettings = ['sfwFilter'];
+		// Jikan allows 60 requests per minute and is often slow to respond
+		this.requestPolicy = { minRequestInterval: 1000, timeout: 30000 };
 		this.typeMappings = new Map<string, string>();
 		this.typeMappings.set('manga', 'manga');
 		this.typeMappings.set('manhwa', 'manhwa');
@@ -31,12 +38,9 @@ export class MALAPIManga extends APIModel {
 
 		const searchUrl = `https://api.jikan.moe/v4/manga?q=${encodeURIComponent(title)}&limit=20${this.plugin.settings.sfwFilter ? '&sfw' : ''}`;
 
-		const fetchData = await fetch(searchUrl);
+		const fetchData = await this.request({ url: searchUrl });
 		// console.debug(fetchData);
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-		const data = await fetchData.json();
+		const data = fetchData.json;
 
 		// console.debug(data);
 
@@ -84,13 +88,9 @@ export class MALAPIManga extends APIModel {
 		console.log(`MDB | api "${this.apiName}" queried by ID`);
 
 		const searchUrl = `https://api.jikan.moe/v4/manga/${encodeURIComponent(id)}/full`;
-		const fetchData = await fetch(searchUrl);
-
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
+		const fetchData = await this.request({ url: searchUrl });
 
-		const data = await fetchData.json();
+		const data = fetchData.json;
 		// console.debug(data);
 		const result = data.data;
 
@@ -126,4 +126,28 @@ export class MALAPIManga extends APIModel {
 			},
 		});
 	}
+
+	/**
+	 * Fetches the manga list of a MyAnimeList user from the list endpoint, which can be changed to a proxy in the settings.
+	 *
+	 * @param username
+	 * @param ratingScale the rating scale from the settings, the scores are converted to it
+	 */
+	async getUserList(username: string, ratingScale: number): Promise<ListImportEntry[]> {
+		console.log(`MDB | api "${this.apiName}" queried for the list of ${username}`);
+
+		const ret: ListImportEntry[] = [];
+
+		for (let offset = 0; ; offset += MAL_LIST_PAGE_SIZE) {
+			const fetchData = await this.request({ url: getMALListUrl(this.plugin.settings.malListBaseUrl, 'mangalist', username, offset) });
+			const items = Array.isArray(fetchData.json) ? (fetchData.json as MALMangaListItem[]) : [];
+			ret.push(...parseMALMangaList(items, ratingScale));
+
+			if (items.length < MAL_LIST_PAGE_SIZE) {
+				break;
+			}
+		}
+
+		return ret;
+	}
 }
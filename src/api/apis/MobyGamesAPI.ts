@@ -1,5 +1,4 @@
 import { Notice } from 'obsidian';
-import { requestUrl } from 'obsidian';
 import type MediaDbPlugin from '../../main';
 import { GameModel } from '../../models/GameModel';
 import type { MediaTypeModel } from '../../models/MediaTypeModel';
@@ -18,6 +17,10 @@ export class MobyGamesAPI extends APIModel {
 		this.apiDescription = 'A free API for games.';
 		this.apiUrl = 'https://api.mobygames.com/v1';
 		this.types = [MediaType.Game];
+		this.urlPatterns = [/mobygames\.com\/game\/(\d+)/];
+		this.cacheKeySettings = ['MobyGamesKey'];
+		// MobyGames allows one request per second
+		this.requestPolicy = { minRequestInterval: 1000 };
 	}
 	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
 		console.log(`MDB | api "${this.apiName}" queried by Title`);
@@ -27,23 +30,11 @@ export class MobyGamesAPI extends APIModel {
 		}
 
 		const searchUrl = `${this.apiUrl}/games?title=${encodeURIComponent(title)}&api_key=${this.plugin.settings.MobyGamesKey}`;
-		const fetchData = await requestUrl({
-			url: searchUrl,
-		});
+		const fetchData = await this.request({ url: searchUrl });
 
 		// console.debug(fetchData);
 
-		if (fetchData.status === 401) {
-			throw Error(`MDB | Authentication for ${this.apiName} failed. Check the API key.`);
-		}
-		if (fetchData.status === 429) {
-			throw Error(`MDB | Too many requests for ${this.apiName}, you've exceeded your API quota.`);
-		}
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json;
+		const data = fetchData.json;
 		// console.debug(data);
 		const ret: MediaTypeModel[] = [];
 		for (const result of data.games) {
@@ -70,16 +61,10 @@ export class MobyGamesAPI extends APIModel {
 		}
 
 		const searchUrl = `${this.apiUrl}/games?id=${encodeURIComponent(id)}&api_key=${this.plugin.settings.MobyGamesKey}`;
-		const fetchData = await requestUrl({
-			url: searchUrl,
-		});
+		const fetchData = await this.request({ url: searchUrl });
 		console.debug(fetchData);
 
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json;
+		const data = fetchData.json;
 		// console.debug(data);
 		const result = data.games[0];
 
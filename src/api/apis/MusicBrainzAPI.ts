@@ -1,4 +1,3 @@
-import { requestUrl } from 'obsidian';
 import type MediaDbPlugin from '../../main';
 import type { MediaTypeModel } from '../../models/MediaTypeModel';
 import { MusicReleaseModel } from '../../models/MusicReleaseModel';
@@ -17,6 +16,9 @@ export class MusicBrainzAPI extends APIModel {
 		this.apiDescription = 'Free API for music albums.';
 		this.apiUrl = 'https://musicbrainz.org/';
 		this.types = [MediaType.MusicRelease];
+		this.urlPatterns = [/musicbrainz\.org\/release-group\/([0-9a-f-]{36})/];
+		// MusicBrainz allows one request per second
+		this.requestPolicy = { minRequestInterval: 1000 };
 	}
 
 	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
@@ -24,7 +26,7 @@ export class MusicBrainzAPI extends APIModel {
 
 		const searchUrl = `https://musicbrainz.org/ws/2/release-group?query=${encodeURIComponent(title)}&limit=20&fmt=json`;
 
-		const fetchData = await requestUrl({
+		const fetchData = await this.request({
 			url: searchUrl,
 			headers: {
 				'User-Agent': `${pluginName}/${mediaDbVersion} (${contactEmail})`,
@@ -33,11 +35,7 @@ export class MusicBrainzAPI extends APIModel {
 
 		// console.debug(fetchData);
 
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json;
+		const data = fetchData.json;
 		// console.debug(data);
 		const ret: MediaTypeModel[] = [];
 
@@ -66,18 +64,14 @@ export class MusicBrainzAPI extends APIModel {
 		console.log(`MDB | api "${this.apiName}" queried by ID`);
 
 		const searchUrl = `https://musicbrainz.org/ws/2/release-group/${encodeURIComponent(id)}?inc=releases+artists+tags+ratings+genres&fmt=json`;
-		const fetchData = await requestUrl({
+		const fetchData = await this.request({
 			url: searchUrl,
 			headers: {
 				'User-Agent': `${pluginName}/${mediaDbVersion} (${contactEmail})`,
 			},
 		});
 
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const result = await fetchData.json;
+		const result = fetchData.json;
 
 		return new MusicReleaseModel({
 			type: 'musicRelease',
@@ -5,8 +5,19 @@ import type { MediaTypeModel } from '../../models/MediaTypeModel';
 import { MovieModel } from '../../models/MovieModel';
 import { SeriesModel } from '../../models/SeriesModel';
 import { MediaType } from '../../utils/MediaType';
+import type { Episode } from '../APIModel';
 import { APIModel } from '../APIModel';
 
+/**
+ * A season of a series with its episodes, OMDb sends `Response: 'False'` and an error instead if the request failed.
+ */
+interface OMDbSeason {
+	Response: string;
+	Error?: string;
+	totalSeasons?: string;
+	Episodes?: { Title?: string; Released?: string; Episode: string }[];
+}
+
 export class OMDbAPI extends APIModel {
 	plugin: MediaDbPlugin;
 	typeMappings: Map<string, string>;
@@ -20,6 +31,8 @@ export class OMDbAPI extends APIModel {
 		this.apiDescription = 'A free API for Movies, Series and Games.';
 		this.apiUrl = 'https://www.omdbapi.com/';
 		this.types = [MediaType.Movie, MediaType.Series, MediaType.Game];
+		this.urlPatterns = [/imdb\.com\/(?:[a-z]{2}\/)?title\/(tt\d+)/];
+		this.cacheKeySettings = ['OMDbKey'];
 		this.typeMappings = new Map<string, string>();
 		this.typeMappings.set('movie', 'movie');
 		this.typeMappings.set('series', 'series');
@@ -29,21 +42,24 @@ export class OMDbAPI extends APIModel {
 	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
 		console.log(`MDB | api "${this.apiName}" queried by Title`);
 
+		return await this.search(`s=${encodeURIComponent(title)}`);
+	}
+
+	async searchByTitleAndYear(title: string, year: string): Promise<MediaTypeModel[]> {
+		console.log(`MDB | api "${this.apiName}" queried by Title and Year`);
+
+		return await this.search(`s=${encodeURIComponent(title)}&y=${encodeURIComponent(year)}`);
+	}
+
+	private async search(query: string): Promise<MediaTypeModel[]> {
 		if (!this.plugin.settings.OMDbKey) {
 			throw new Error(`MDB | API key for ${this.apiName} missing.`);
 		}
 
-		const searchUrl = `https://www.omdbapi.com/?s=${encodeURIComponent(title)}&apikey=${this.plugin.settings.OMDbKey}`;
-		const fetchData = await fetch(searchUrl);
+		const searchUrl = `https://www.omdbapi.com/?${query}&apikey=${this.plugin.settings.OMDbKey}`;
+		const fetchData = await this.request({ url: searchUrl });
 
-		if (fetchData.status === 401) {
-			throw Error(`MDB | Authentication for ${this.apiName} failed. Check the API key.`);
-		}
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json();
+		const data = fetchData.json;
 
 		if (data.Response === 'False') {
 			if (data.Error === 'Movie not found!') {
@@ -112,16 +128,9 @@ export class OMDbAPI extends APIModel {
 		}
 
 		const searchUrl = `https://www.omdbapi.com/?i=${encodeURIComponent(id)}&apikey=${this.plugin.settings.OMDbKey}`;
-		const fetchData = await fetch(searchUrl);
+		const fetchData = await this.request({ url: searchUrl });
 
-		if (fetchData.status === 401) {
-			throw Error(`MDB | Authentication for ${this.apiName} failed. Check the API key.`);
-		}
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const result = await fetchData.json();
+		const result = fetchData.json;
 		// console.debug(result);
 
 		if (result.Response === 'False') {
@@ -223,4 +232,46 @@ export class OMDbAPI extends APIModel {
 
 		throw new Error(`MDB | Unknown media type for id ${id}`);
 	}
+
+	/**
+	 * OMDb returns the episodes one season at a time, the first season also tells how many seasons there are.
+	 *
+	 * @param id
+	 */
+	async getEpisodes(id: string): Promise<Episode[]> {
+		console.log(`MDB | api "${this.apiName}" queried for episodes`);
+
+		if (!this.plugin.settings.OMDbKey) {
+			throw Error(`MDB | API key for ${this.apiName} missing.`);
+		}
+
+		const ret: Episode[] = [];
+		let totalSeasons = 1;
+
+		for (let season = 1; season <= totalSeasons; season++) {
+			const searchUrl = `https://www.omdbapi.com/?i=${encodeURIComponent(id)}&Season=${season}&apikey=${this.plugin.settings.OMDbKey}`;
+			const fetchData = await this.request({ url: searchUrl });
+
+			const result = fetchData.json as OMDbSeason;
+			// console.debug(result);
+
+			if (result.Response === 'False') {
+				throw Error(`MDB | Received error from ${this.apiName}: ${result.Error}`);
+			}
+
+			totalSeasons = Number.parseInt(result.totalSeasons ?? '') || totalSeasons;
+
+			for (const episode of result.Episodes ?? []) {
+				ret.push({
+					season: season,
+					episode: Number.parseInt(episode.Episode),
+					title: episode.Title ?? '',
+					// the episode list uses a different date format than the details of a title
+					airDate: episode.Released && episode.Released !== 'N/A' ? (this.plugin.dateFormatter.format(episode.Released, 'YYYY-MM-DD') ?? 'unknown') : 'unknown',
+				});
+			}
+		}
+
+		return ret;
+	}
 }
@@ -15,23 +15,37 @@ export class OpenLibraryAPI extends APIModel {
 		this.apiDescription = 'A free API for books';
 		this.apiUrl = 'https://openlibrary.org/';
 		this.types = [MediaType.Book];
+		this.urlPatterns = [/openlibrary\.org(\/works\/OL\d+W)/];
 	}
 
 	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
 		console.log(`MDB | api "${this.apiName}" queried by Title`);
 
-		const searchUrl = `https://openlibrary.org/search.json?title=${encodeURIComponent(title)}`;
+		return await this.search(`title=${encodeURIComponent(title)}`);
+	}
+
+	async searchByISBN(isbn: string): Promise<BookModel[]> {
+		console.log(`MDB | api "${this.apiName}" queried by ISBN`);
+
+		return await this.search(`isbn=${encodeURIComponent(isbn)}`);
+	}
+
+	async searchByTitleAndAuthor(title: string, author: string): Promise<BookModel[]> {
+		console.log(`MDB | api "${this.apiName}" queried by Title and Author`);
 
-		const fetchData = await fetch(searchUrl);
+		return await this.search(`title=${encodeURIComponent(title)}&author=${encodeURIComponent(author)}`);
+	}
+
+	private async search(query: string): Promise<BookModel[]> {
+		const searchUrl = `https://openlibrary.org/search.json?${query}`;
+
+		const fetchData = await this.request({ url: searchUrl });
 		// console.debug(fetchData);
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-		const data = await fetchData.json();
+		const data = fetchData.json;
 
 		// console.debug(data);
 
-		const ret: MediaTypeModel[] = [];
+		const ret: BookModel[] = [];
 
 		for (const result of data.docs) {
 			ret.push(
@@ -53,14 +67,10 @@ export class OpenLibraryAPI extends APIModel {
 		console.log(`MDB | api "${this.apiName}" queried by ID`);
 
 		const searchUrl = `https://openlibrary.org/search.json?q=key:${encodeURIComponent(id)}`;
-		const fetchData = await fetch(searchUrl);
+		const fetchData = await this.request({ url: searchUrl });
 		// console.debug(fetchData);
 
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json();
+		const data = fetchData.json;
 		// console.debug(data);
 		const result = data.docs[0];
 
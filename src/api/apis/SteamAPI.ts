@@ -1,8 +1,10 @@
-import { requestUrl } from 'obsidian';
 import type MediaDbPlugin from '../../main';
 import { GameModel } from '../../models/GameModel';
 import type { MediaTypeModel } from '../../models/MediaTypeModel';
+import type { ListImportEntry } from '../../utils/ListImport';
 import { MediaType } from '../../utils/MediaType';
+import type { SteamOwnedGamesResponse } from '../../utils/SteamImport';
+import { getSteamOwnedGamesUrl, parseSteamOwnedGames } from '../../utils/SteamImport';
 import { APIModel } from '../APIModel';
 
 export class SteamAPI extends APIModel {
@@ -18,6 +20,8 @@ export class SteamAPI extends APIModel {
 		this.apiDescription = 'A free API for all Steam games.';
 		this.apiUrl = 'https://www.steampowered.com/';
 		this.types = [MediaType.Game];
+		this.urlPatterns = [/store\.steampowered\.com\/app\/(\d+)/];
+		this.cacheKeySettings = ['SteamKey'];
 		this.typeMappings = new Map<string, string>();
 		this.typeMappings.set('game', 'game');
 	}
@@ -26,15 +30,9 @@ export class SteamAPI extends APIModel {
 		console.log(`MDB | api "${this.apiName}" queried by Title`);
 
 		const searchUrl = `https://steamcommunity.com/actions/SearchApps/${encodeURIComponent(title)}`;
-		const fetchData = await requestUrl({
-			url: searchUrl,
-		});
-
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
+		const fetchData = await this.request({ url: searchUrl });
 
-		const data = await fetchData.json;
+		const data = fetchData.json;
 
 		// console.debug(data);
 
@@ -60,18 +58,12 @@ export class SteamAPI extends APIModel {
 		console.log(`MDB | api "${this.apiName}" queried by ID`);
 
 		const searchUrl = `https://store.steampowered.com/api/appdetails?appids=${encodeURIComponent(id)}&l=en`;
-		const fetchData = await requestUrl({
-			url: searchUrl,
-		});
+		const fetchData = await this.request({ url: searchUrl });
 
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		// console.debug(await fetchData.json);
+		// console.debug(fetchData.json);
 
 		let result: any;
-		for (const [key, value] of Object.entries(await fetchData.json)) {
+		for (const [key, value] of Object.entries(fetchData.json)) {
 			// console.log(typeof key, key)
 			// console.log(typeof id, id)
 			// after some testing I found out that id is somehow a number despite that it's defined as string...
@@ -109,4 +101,26 @@ export class SteamAPI extends APIModel {
 			},
 		});
 	}
+
+	/**
+	 * Loads the games a Steam account owns. The games of the account have to be public.
+	 *
+	 * @param steamId the 64-bit Steam ID of the account
+	 */
+	async getOwnedGames(steamId: string): Promise<ListImportEntry[]> {
+		console.log(`MDB | api "${this.apiName}" queried for the games of ${steamId}`);
+
+		if (!this.plugin.settings.SteamKey) {
+			throw new Error(`MDB | API key for ${this.apiName} missing.`);
+		}
+
+		const fetchData = await this.request({ url: getSteamOwnedGamesUrl(this.plugin.settings.SteamKey, steamId) });
+
+		const data = fetchData.json as SteamOwnedGamesResponse | undefined;
+		if (!data?.response?.games) {
+			throw new Error(`MDB | no games found for ${steamId}, the game details of the account might be private`);
+		}
+
+		return parseSteamOwnedGames(data, date => this.plugin.dateFormatter.format(date, 'YYYY-MM-DD') ?? undefined);
+	}
 }
@@ -0,0 +1,325 @@
+import type MediaDbPlugin from '../../main';
+import type { MediaTypeModel } from '../../models/MediaTypeModel';
+import { MovieModel } from '../../models/MovieModel';
+import { SeriesModel } from '../../models/SeriesModel';
+import { MediaType } from '../../utils/MediaType';
+import type { Episode } from '../APIModel';
+import { APIModel } from '../APIModel';
+
+interface TMDBNamed {
+	name: string;
+}
+
+interface TMDBSearchResult {
+	media_type: string;
+	id: number;
+	title?: string;
+	name?: string;
+	release_date?: string;
+	first_air_date?: string;
+	poster_path?: string | null;
+}
+
+interface TMDBCrewMember extends TMDBNamed {
+	job?: string;
+	department?: string;
+}
+
+/**
+ * The details of a movie or series, with the credits and the watch providers appended.
+ */
+interface TMDBDetails {
+	id: number;
+	title?: string;
+	name?: string;
+	release_date?: string;
+	first_air_date?: string;
+	last_air_date?: string;
+	overview?: string;
+	status?: string;
+	in_production?: boolean;
+	genres?: TMDBNamed[];
+	production_companies?: TMDBNamed[];
+	created_by?: TMDBNamed[];
+	networks?: TMDBNamed[];
+	runtime?: number;
+	episode_run_time?: number[];
+	number_of_episodes?: number;
+	vote_average?: number;
+	poster_path?: string | null;
+	backdrop_path?: string | null;
+	seasons?: { season_number: number }[];
+	credits?: {
+		cast?: TMDBNamed[];
+		crew?: TMDBCrewMember[];
+	};
+	'watch/providers'?: {
+		results?: Record<string, { flatrate?: { provider_name: string }[] } | undefined>;
+	};
+}
+
+interface TMDBSeason {
+	episodes?: { episode_number: number; name?: string; air_date?: string }[];
+}
+
+interface TMDBFindResult {
+	movie_results?: { id: number }[];
+	tv_results?: { id: number }[];
+}
+
+export class TMDBAPI extends APIModel {
+	plugin: MediaDbPlugin;
+	typeMappings: Map<string, string>;
+	apiDateFormat: string = 'YYYY-MM-DD';
+	imageUrl: string = 'https://image.tmdb.org/t/p/original';
+
+	constructor(plugin: MediaDbPlugin) {
+		super();
+
+		this.plugin = plugin;
+		this.apiName = 'TMDBAPI';
+		this.apiDescription = 'A free API for Movies and Series.';
+		this.apiUrl = 'https://api.themoviedb.org/3';
+		this.types = [MediaType.Movie, MediaType.Series];
+		this.urlPatterns = [/themoviedb\.org\/((?:movie|tv)\/\d+)/];
+		this.cacheKeySettings = ['TMDBKey', 'TMDBWatchRegion', 'sfwFilter'];
+		this.typeMappings = new Map<string, string>();
+		this.typeMappings.set('movie', 'movie');
+		this.typeMappings.set('tv', 'series');
+	}
+
+	async searchByTitle(title: string): Promise<MediaTypeModel[]> {
+		console.log(`MDB | api "${this.apiName}" queried by Title`);
+
+		if (!this.plugin.settings.TMDBKey) {
+			throw Error(`MDB | API key for ${this.apiName} missing.`);
+		}
+
+		const searchUrl = `${this.apiUrl}/search/multi?query=${encodeURIComponent(title)}&include_adult=${!this.plugin.settings.sfwFilter}&api_key=${this.plugin.settings.TMDBKey}`;
+		const fetchData = await this.request({ url: searchUrl });
+
+		const data = fetchData.json as { results?: TMDBSearchResult[] };
+		// console.debug(data);
+
+		const ret: MediaTypeModel[] = [];
+
+		for (const result of data.results ?? []) {
+			const type = this.typeMappings.get(result.media_type);
+			if (type === 'movie') {
+				ret.push(
+					new MovieModel({
+						type: type,
+						title: result.title,
+						englishTitle: result.title,
+						year: this.getYear(result.release_date),
+						dataSource: this.apiName,
+						id: `movie/${result.id}`,
+						image: this.getImageUrl(result.poster_path),
+					}),
+				);
+			} else if (type === 'series') {
+				ret.push(
+					new SeriesModel({
+						type: type,
+						title: result.name,
+						englishTitle: result.name,
+						year: this.getYear(result.first_air_date),
+						dataSource: this.apiName,
+						id: `tv/${result.id}`,
+						image: this.getImageUrl(result.poster_path),
+					}),
+				);
+			}
+		}
+
+		return ret;
+	}
+
+	/**
+	 * Accepts the TMDB path of a movie or series (e.g. `movie/603` or `tv/1399`) or an IMDb ID (e.g. `tt0133093`).
+	 *
+	 * @param id
+	 */
+	async getById(id: string): Promise<MediaTypeModel> {
+		console.log(`MDB | api "${this.apiName}" queried by ID`);
+
+		if (!this.plugin.settings.TMDBKey) {
+			throw Error(`MDB | API key for ${this.apiName} missing.`);
+		}
+
+		const tmdbId = id.startsWith('tt') ? await this.findByImdbId(id) : id;
+		const [mediaType, numericId] = tmdbId.split('/');
+		const type = this.typeMappings.get(mediaType);
+		if (type === undefined || !numericId) {
+			throw Error(`MDB | ${id} is not a valid ID for ${this.apiName}, expected e.g. "movie/603", "tv/1399" or an IMDb ID.`);
+		}
+
+		const searchUrl = `${this.apiUrl}/${mediaType}/${encodeURIComponent(numericId)}?append_to_response=credits,watch/providers&api_key=${this.plugin.settings.TMDBKey}`;
+		const fetchData = await this.request({ url: searchUrl });
+
+		const result = fetchData.json as TMDBDetails;
+		// console.debug(result);
+
+		if (type === 'movie') {
+			return new MovieModel({
+				type: type,
+				title: result.title,
+				englishTitle: result.title,
+				year: this.getYear(result.release_date),
+				dataSource: this.apiName,
+				url: `https://www.themoviedb.org/movie/${result.id}`,
+				id: `movie/${result.id}`,
+
+				plot: result.overview ?? '',
+				genres: result.genres?.map(x => x.name) ?? [],
+				director: this.getCrew(result, x => x.job === 'Director'),
+				writer: this.getCrew(result, x => x.department === 'Writing'),
+				studio: result.production_companies?.map(x => x.name) ?? [],
+				duration: result.runtime ? `${result.runtime} min` : 'unknown',
+				onlineRating: result.vote_average ?? 0,
+				actors: this.getActors(result),
+				image: this.getImageUrl(result.poster_path),
+				backdrop: this.getImageUrl(result.backdrop_path),
+
+				released: result.status === 'Released',
+				streamingServices: this.getStreamingServices(result),
+				premiere: this.plugin.dateFormatter.format(result.release_date ?? '', this.apiDateFormat) ?? 'unknown',
+
+				userData: {
+					watched: false,
+					lastWatched: '',
+					personalRating: 0,
+				},
+			});
+		}
+
+		const airing = result.in_production ?? false;
+
+		return new SeriesModel({
+			type: type,
+			title: result.name,
+			englishTitle: result.name,
+			year: this.getYear(result.first_air_date),
+			dataSource: this.apiName,
+			url: `https://www.themoviedb.org/tv/${result.id}`,
+			id: `tv/${result.id}`,
+
+			plot: result.overview ?? '',
+			genres: result.genres?.map(x => x.name) ?? [],
+			writer: result.created_by?.map(x => x.name) ?? [],
+			studio: result.production_companies?.map(x => x.name) ?? [],
+			networks: result.networks?.map(x => x.name) ?? [],
+			episodes: result.number_of_episodes ?? 0,
+			duration: result.episode_run_time?.[0] ? `${result.episode_run_time[0]} min` : 'unknown',
+			onlineRating: result.vote_average ?? 0,
+			actors: this.getActors(result),
+			image: this.getImageUrl(result.poster_path),
+			backdrop: this.getImageUrl(result.backdrop_path),
+
+			released: result.status !== 'Planned' && result.status !== 'In Production',
+			streamingServices: this.getStreamingServices(result),
+			airing: airing,
+			airedFrom: this.plugin.dateFormatter.format(result.first_air_date ?? '', this.apiDateFormat) ?? 'unknown',
+			airedTo: airing ? 'unknown' : (this.plugin.dateFormatter.format(result.last_air_date ?? '', this.apiDateFormat) ?? 'unknown'),
+
+			userData: {
+				watched: false,
+				lastWatched: '',
+				personalRating: 0,
+			},
+		});
+	}
+
+	/**
+	 * Requests every season of a series except the specials, which TMDB lists as season 0.
+	 *
+	 * @param id
+	 */
+	async getEpisodes(id: string): Promise<Episode[]> {
+		console.log(`MDB | api "${this.apiName}" queried for episodes`);
+
+		if (!this.plugin.settings.TMDBKey) {
+			throw Error(`MDB | API key for ${this.apiName} missing.`);
+		}
+
+		const tmdbId = id.startsWith('tt') ? await this.findByImdbId(id) : id;
+		const [mediaType, numericId] = tmdbId.split('/');
+		if (mediaType !== 'tv' || !numericId) {
+			throw Error(`MDB | ${id} is not a series on ${this.apiName}, expected e.g. "tv/1399".`);
+		}
+
+		const seriesUrl = `${this.apiUrl}/tv/${encodeURIComponent(numericId)}?api_key=${this.plugin.settings.TMDBKey}`;
+		const seriesData = (await this.request({ url: seriesUrl })).json as TMDBDetails;
+
+		const ret: Episode[] = [];
+
+		for (const season of seriesData.seasons ?? []) {
+			if (!season.season_number) {
+				continue;
+			}
+
+			const seasonUrl = `${this.apiUrl}/tv/${encodeURIComponent(numericId)}/season/${season.season_number}?api_key=${this.plugin.settings.TMDBKey}`;
+			const seasonData = (await this.request({ url: seasonUrl })).json as TMDBSeason;
+			// console.debug(seasonData);
+
+			for (const episode of seasonData.episodes ?? []) {
+				ret.push({
+					season: season.season_number,
+					episode: episode.episode_number,
+					title: episode.name ?? '',
+					airDate: this.plugin.dateFormatter.format(episode.air_date ?? '', this.apiDateFormat) ?? 'unknown',
+				});
+			}
+		}
+
+		return ret;
+	}
+
+	/**
+	 * Looks up the TMDB path of the movie or series with the given IMDb ID.
+	 *
+	 * @param imdbId
+	 */
+	private async findByImdbId(imdbId: string): Promise<string> {
+		const findUrl = `${this.apiUrl}/find/${encodeURIComponent(imdbId)}?external_source=imdb_id&api_key=${this.plugin.settings.TMDBKey}`;
+		const fetchData = await this.request({ url: findUrl });
+
+		const data = fetchData.json as TMDBFindResult;
+
+		if (data.movie_results?.[0]) {
+			return `movie/${data.movie_results[0].id}`;
+		}
+		if (data.tv_results?.[0]) {
+			return `tv/${data.tv_results[0].id}`;
+		}
+
+		throw Error(`MDB | ${this.apiName} has no movie or series with the IMDb ID ${imdbId}.`);
+	}
+
+	private getYear(date: string | undefined): string {
+		return date ? date.substring(0, 4) : '';
+	}
+
+	private getImageUrl(path: string | null | undefined): string {
+		return path ? `${this.imageUrl}${path}` : '';
+	}
+
+	private getCrew(result: TMDBDetails, filter: (member: TMDBCrewMember) => boolean): string[] {
+		const names = result.credits?.crew?.filter(filter).map(x => x.name) ?? [];
+		return [...new Set(names)];
+	}
+
+	private getActors(result: TMDBDetails): string[] {
+		return result.credits?.cast?.slice(0, 10).map(x => x.name) ?? [];
+	}
+
+	/**
+	 * Returns the flat rate streaming providers in the watch region set in the settings.
+	 *
+	 * @param result
+	 */
+	private getStreamingServices(result: TMDBDetails): string[] {
+		const region = this.plugin.settings.TMDBWatchRegion.toUpperCase();
+		return result['watch/providers']?.results?.[region]?.flatrate?.map(x => x.provider_name) ?? [];
+	}
+}
@@ -22,14 +22,10 @@ export class WikipediaAPI extends APIModel {
 		console.log(`MDB | api "${this.apiName}" queried by Title`);
 
 		const searchUrl = `https://en.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(title)}&srlimit=20&utf8=&format=json&origin=*`;
-		const fetchData = await fetch(searchUrl);
+		const fetchData = await this.request({ url: searchUrl });
 		// console.debug(fetchData);
 
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
-
-		const data = await fetchData.json();
+		const data = fetchData.json;
 		console.debug(data);
 		const ret: MediaTypeModel[] = [];
 
@@ -53,13 +49,9 @@ export class WikipediaAPI extends APIModel {
 		console.log(`MDB | api "${this.apiName}" queried by ID`);
 
 		const searchUrl = `https://en.wikipedia.org/w/api.php?action=query&prop=info&pageids=${encodeURIComponent(id)}&inprop=url&format=json&origin=*`;
-		const fetchData = await fetch(searchUrl);
-
-		if (fetchData.status !== 200) {
-			throw Error(`MDB | Received status code ${fetchData.status} from ${this.apiName}.`);
-		}
+		const fetchData = await this.request({ url: searchUrl });
 
-		const data = await fetchData.json();
+		const data = fetchData.json;
 		// console.debug(data);
 		const result: any = Object.entries(data?.query?.pages)[0][1];
 
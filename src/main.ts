@@ -1,8 +1,18 @@
-import { MarkdownView, Notice, parseYaml, Plugin, stringifyYaml, TFile, TFolder } from 'obsidian';
-import type { MediaType } from 'src/utils/MediaType';
+import type { ObsidianProtocolData } from 'obsidian';
+import { MarkdownView, Notice, parseYaml, Plugin, stringifyYaml, TFile, TFolder, Vault } from 'obsidian';
+import { MediaType } from 'src/utils/MediaType';
+import { APICache } from './api/APICache';
+import type { APIQueryOptions } from './api/APIManager';
 import { APIManager } from './api/APIManager';
+import type { APIModel } from './api/APIModel';
+import { AniListAPI } from './api/apis/AniListAPI';
+import { BangumiAPI } from './api/apis/BangumiAPI';
 import { BoardGameGeekAPI } from './api/apis/BoardGameGeekAPI';
+import { ComicVineAPI } from './api/apis/ComicVineAPI';
 import { GiantBombAPI } from './api/apis/GiantBombAPI';
+import { GoogleBooksAPI } from './api/apis/GoogleBooksAPI';
+import { IGDBAPI } from './api/apis/IGDBAPI';
+import { ITunesAPI } from './api/apis/ITunesAPI';
 import { MALAPI } from './api/apis/MALAPI';
 import { MALAPIManga } from './api/apis/MALAPIManga';
 import { MobyGamesAPI } from './api/apis/MobyGamesAPI';
@@ -10,34 +20,59 @@ import { MusicBrainzAPI } from './api/apis/MusicBrainzAPI';
 import { OMDbAPI } from './api/apis/OMDbAPI';
 import { OpenLibraryAPI } from './api/apis/OpenLibraryAPI';
 import { SteamAPI } from './api/apis/SteamAPI';
+import { TMDBAPI } from './api/apis/TMDBAPI';
 import { WikipediaAPI } from './api/apis/WikipediaAPI';
-import { ComicVineAPI } from './api/apis/ComicVineAPI';
-import { BangumiAPI } from './api/apis/BangumiAPI';
-import { MediaDbFolderImportModal } from './modals/MediaDbFolderImportModal';
+import { BangumiSync } from './api/BangumiSync';
+import { HttpClient } from './api/HttpClient';
+import { PublicAPI } from './api/PublicAPI';
 import { ConfirmOverwriteModal } from './modals/ConfirmOverwriteModal';
+import { DuplicateAction, MediaDbDuplicateModal } from './modals/MediaDbDuplicateModal';
+import { MediaDbFolderImportModal } from './modals/MediaDbFolderImportModal';
+import { MediaDbLogProgressModal } from './modals/MediaDbLogProgressModal';
+import { MediaDbPersonalDataModal } from './modals/MediaDbPersonalDataModal';
+import { MediaDbProgressModal } from './modals/MediaDbProgressModal';
 import type { MediaTypeModel } from './models/MediaTypeModel';
+import { PROGRESS_PROPERTIES } from './models/MediaTypeModel';
 import { PropertyMapper } from './settings/PropertyMapper';
 import { PropertyMapping, PropertyMappingModel } from './settings/PropertyMapping';
 import type { MediaDbPluginSettings } from './settings/Settings';
-import { getDefaultSettings, MediaDbSettingTab } from './settings/Settings';
+import { getDefaultPropertyMappingModels, getDefaultSettings, MediaDbSettingTab } from './settings/Settings';
+import { matchBookRow, parseBookExport } from './utils/BookImport';
 import { DateFormatter } from './utils/DateFormatter';
+import type { EpisodeNote } from './utils/EpisodeNotes';
+import { getEpisodeNotes, getSeasonNotes } from './utils/EpisodeNotes';
+import { ListImporter } from './utils/ListImporter';
+import { parseMALExport } from './utils/MALImport';
+import type { MediaTypeSettings } from './utils/MediaTypeDefinition';
 import { MEDIA_TYPES, MediaTypeManager } from './utils/MediaTypeManager';
-import type { SearchModalOptions } from './utils/ModalHelper';
+import { mergeMetadata, parseMetadataMergeRules } from './utils/MetadataMerge';
+import type { IdSearchModalOptions, SearchModalOptions } from './utils/ModalHelper';
 import { ModalHelper, ModalResultCode } from './utils/ModalHelper';
+import { matchMovieRow, parseMovieExport } from './utils/MovieImport';
+import { PERSONAL_DATA_PROPERTIES, readPersonalData } from './utils/PersonalData';
+import { appendProgressLogEntry, formatProgressLogEntry } from './utils/ProgressLog';
+import { parseSteamOwnedGames } from './utils/SteamImport';
 import type { CreateNoteOptions } from './utils/Utils';
 import { dateTimeToString, markdownTable, replaceIllegalFileNameCharactersInString, unCamelCase, hasTemplaterPlugin, useTemplaterPluginInFile } from './utils/Utils';
+import { VaultIndex } from './utils/VaultIndex';
 
 export type Metadata = Record<string, unknown>;
 
 export interface MediaTypeModelObj {
 	id: string;
-	type: MediaType;
+	type: string;
 	dataSource: string;
 }
 
 export default class MediaDbPlugin extends Plugin {
 	settings!: MediaDbPluginSettings;
 	apiManager!: APIManager;
+	apiCache!: APICache;
+	bangumiSync!: BangumiSync;
+	vaultIndex!: VaultIndex;
+	listImporter!: ListImporter;
+	api!: PublicAPI;
+	httpClient!: HttpClient;
 	mediaTypeManager!: MediaTypeManager;
 	modelPropertyMapper!: PropertyMapper;
 	modalHelper!: ModalHelper;
@@ -46,19 +81,30 @@ export default class MediaDbPlugin extends Plugin {
 	frontMatterRexExpPattern: string = '^(---)\\n[\\s\\S]*?\\n---';
 
 	async onload(): Promise<void> {
-		this.apiManager = new APIManager();
+		this.httpClient = new HttpClient();
+		this.apiCache = new APICache(this);
+		this.bangumiSync = new BangumiSync(this);
+		this.vaultIndex = new VaultIndex(this);
+		this.listImporter = new ListImporter(this);
+		this.api = new PublicAPI(this);
+		this.apiManager = new APIManager(this.apiCache);
 		// register APIs
 		this.apiManager.registerAPI(new OMDbAPI(this));
+		this.apiManager.registerAPI(new TMDBAPI(this));
 		this.apiManager.registerAPI(new MALAPI(this));
 		this.apiManager.registerAPI(new MALAPIManga(this));
+		this.apiManager.registerAPI(new AniListAPI(this));
 		this.apiManager.registerAPI(new WikipediaAPI(this));
 		this.apiManager.registerAPI(new MusicBrainzAPI(this));
 		this.apiManager.registerAPI(new SteamAPI(this));
 		this.apiManager.registerAPI(new BoardGameGeekAPI(this));
 		this.apiManager.registerAPI(new OpenLibraryAPI(this));
+		this.apiManager.registerAPI(new GoogleBooksAPI(this));
+		this.apiManager.registerAPI(new ITunesAPI(this));
 		this.apiManager.registerAPI(new ComicVineAPI(this));
 		this.apiManager.registerAPI(new MobyGamesAPI(this));
 		this.apiManager.registerAPI(new GiantBombAPI(this));
+		this.apiManager.registerAPI(new IGDBAPI(this));
 		this.apiManager.registerAPI(new BangumiAPI(this));
 		// this.apiManager.registerAPI(new LocGovAPI(this)); // TODO: parse data
 
@@ -68,6 +114,8 @@ export default class MediaDbPlugin extends Plugin {
 		this.dateFormatter = new DateFormatter();
 
 		await this.loadSettings();
+		await this.apiCache.load();
+		await this.bangumiSync.load();
 		// register the settings tab
 		this.addSettingTab(new MediaDbSettingTab(this.app, this));
 
@@ -87,10 +135,29 @@ export default class MediaDbPlugin extends Plugin {
 							.setIcon('database')
 							.onClick(() => this.createEntriesFromFolder(file));
 					});
+					menu.addItem(item => {
+						item.setTitle('Update metadata of Media DB entries in folder')
+							.setIcon('database')
+							.onClick(() => this.updateEntriesInFolder(file));
+					});
+				}
+			}),
+		);
+
+		// keep the index of existing notes up to date, new notes are added once their metadata is cached
+		this.registerEvent(this.app.metadataCache.on('resolved', () => this.vaultIndex.onResolved()));
+		this.registerEvent(this.app.metadataCache.on('changed', file => this.vaultIndex.updateFile(file)));
+		this.registerEvent(this.app.metadataCache.on('deleted', file => this.vaultIndex.removeFile(file.path)));
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (file instanceof TFile) {
+					this.vaultIndex.renameFile(file, oldPath);
 				}
 			}),
 		);
 
+		this.registerObsidianProtocolHandler('media-db', params => this.createEntryFromUri(params));
+
 		// register command to open search modal
 		this.addCommand({
 			id: 'open-media-db-search-modal',
@@ -115,6 +182,11 @@ export default class MediaDbPlugin extends Plugin {
 			name: 'Create Media DB entry by id',
 			callback: () => this.createEntryWithIdSearchModal(),
 		});
+		this.addCommand({
+			id: 'create-media-db-entry-from-url',
+			name: 'Create Media DB entry from url',
+			callback: () => this.createEntryFromClipboardUrl(),
+		});
 		// register command to update the open note
 		this.addCommand({
 			id: 'update-media-db-note',
@@ -142,6 +214,135 @@ export default class MediaDbPlugin extends Plugin {
 				return true;
 			},
 		});
+		this.addCommand({
+			id: 'update-all-media-db-notes-metadata',
+			name: 'Update metadata of all entries',
+			callback: () => this.updateEntriesInFolder(this.app.vault.getRoot()),
+		});
+		this.addCommand({
+			id: 'clear-media-db-api-cache',
+			name: 'Clear API cache',
+			callback: async () => {
+				await this.apiCache.clear();
+				new Notice('MDB | API cache cleared');
+			},
+		});
+		this.addCommand({
+			id: 'create-media-db-episode-notes',
+			name: 'Create episode notes for series',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || !this.getEpisodesApiForFile(activeFile)) {
+					return false;
+				}
+				if (!checking) {
+					void this.createEpisodeNotes(activeFile, false);
+				}
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'create-media-db-season-notes',
+			name: 'Create season notes for series',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || !this.getEpisodesApiForFile(activeFile)) {
+					return false;
+				}
+				if (!checking) {
+					void this.createEpisodeNotes(activeFile, true);
+				}
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'log-media-db-progress',
+			name: 'Log progress',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || !this.getMediaTypeModelFromFile(activeFile)) {
+					return false;
+				}
+				if (!checking) {
+					this.logProgress(activeFile);
+				}
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'mark-media-db-finished',
+			name: 'Mark finished',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || !this.getMediaTypeModelFromFile(activeFile)) {
+					return false;
+				}
+				if (!checking) {
+					this.markFinished(activeFile).catch(e => console.warn(e));
+				}
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'edit-media-db-personal-data',
+			name: 'Edit rating, status and tags',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || !this.getMediaTypeModelFromFile(activeFile)) {
+					return false;
+				}
+				if (!checking) {
+					this.editPersonalData(activeFile);
+				}
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'push-media-db-bangumi-collection',
+			name: 'Sync note with Bangumi collection',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || !this.bangumiSync.getSubjectId(activeFile)) {
+					return false;
+				}
+				if (!checking) {
+					this.syncNoteWithBangumi(activeFile).catch(e => console.warn(e));
+				}
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'pull-media-db-bangumi-collection',
+			name: 'Import Bangumi collection',
+			callback: async () => {
+				try {
+					await this.bangumiSync.pullCollection();
+				} catch (e) {
+					console.warn(e);
+					new Notice(`${e}`);
+				}
+			},
+		});
+		this.addCommand({
+			id: 'import-media-db-mal-list',
+			name: 'Import MyAnimeList list',
+			callback: () => this.importMALList(),
+		});
+		this.addCommand({
+			id: 'import-media-db-book-list',
+			name: 'Import Goodreads or StoryGraph library',
+			callback: () => this.importBookList(),
+		});
+		this.addCommand({
+			id: 'import-media-db-movie-list',
+			name: 'Import Letterboxd or IMDb ratings',
+			callback: () => this.importMovieList(),
+		});
+		this.addCommand({
+			id: 'import-media-db-steam-library',
+			name: 'Import Steam library',
+			callback: () => this.importSteamLibrary(),
+		});
 		// register link insert command
 		this.addCommand({
 			id: 'add-media-db-link',
@@ -165,8 +366,10 @@ export default class MediaDbPlugin extends Plugin {
 	 *  - maybe custom link syntax
 	 */
 	async createLinkWithSearchModal(): Promise<void> {
+		let queryOptions: APIQueryOptions = {};
 		const apiSearchResults = await this.modalHelper.openAdvancedSearchModal({}, async advancedSearchModalData => {
-			return await this.apiManager.query(advancedSearchModalData.query, advancedSearchModalData.apis);
+			queryOptions = { bypassCache: advancedSearchModalData.bypassCache };
+			return await this.apiManager.query(advancedSearchModalData.query, advancedSearchModalData.apis, queryOptions);
 		});
 
 		if (!apiSearchResults) {
@@ -174,7 +377,7 @@ export default class MediaDbPlugin extends Plugin {
 		}
 
 		const selectResults = await this.modalHelper.openSelectModal({ elements: apiSearchResults, multiSelect: false }, async selectModalData => {
-			return await this.queryDetails(selectModalData.selected);
+			return await this.queryDetails(selectModalData.selected, queryOptions);
 		});
 
 		if (!selectResults || selectResults.length < 1) {
@@ -191,14 +394,16 @@ export default class MediaDbPlugin extends Plugin {
 		}
 	}
 
-	async createEntryWithSearchModal(searchModalOptions?: SearchModalOptions): Promise<void> {
+	async createEntryWithSearchModal(searchModalOptions?: SearchModalOptions, folder?: TFolder): Promise<void> {
 		let types: string[] = [];
+		let queryOptions: APIQueryOptions = {};
 		let apiSearchResults = await this.modalHelper.openSearchModal(searchModalOptions ?? {}, async searchModalData => {
 			types = searchModalData.types;
+			queryOptions = { bypassCache: searchModalData.bypassCache };
 			const apis = this.apiManager.apis.filter(x => x.hasTypeOverlap(searchModalData.types)).map(x => x.apiName);
 			try {
 				console.log(apis);
-				return await this.apiManager.query(searchModalData.query, apis);
+				return await this.apiManager.query(searchModalData.query, apis, queryOptions);
 			} catch (e) {
 				console.warn(e);
 				return [];
@@ -219,7 +424,7 @@ export default class MediaDbPlugin extends Plugin {
 		while (!proceed) {
 			selectResults =
 				(await this.modalHelper.openSelectModal({ elements: apiSearchResults }, async selectModalData => {
-					return await this.queryDetails(selectModalData.selected);
+					return await this.queryDetails(selectModalData.selected, queryOptions);
 				})) ?? [];
 			if (!selectResults) {
 				return;
@@ -230,12 +435,14 @@ export default class MediaDbPlugin extends Plugin {
 			});
 		}
 
-		await this.createMediaDbNotes(selectResults!);
+		await this.createMediaDbNotes(selectResults!, undefined, folder);
 	}
 
 	async createEntryWithAdvancedSearchModal(): Promise<void> {
+		let queryOptions: APIQueryOptions = {};
 		const apiSearchResults = await this.modalHelper.openAdvancedSearchModal({}, async advancedSearchModalData => {
-			return await this.apiManager.query(advancedSearchModalData.query, advancedSearchModalData.apis);
+			queryOptions = { bypassCache: advancedSearchModalData.bypassCache };
+			return await this.apiManager.query(advancedSearchModalData.query, advancedSearchModalData.apis, queryOptions);
 		});
 
 		if (!apiSearchResults) {
@@ -249,7 +456,7 @@ export default class MediaDbPlugin extends Plugin {
 		while (!proceed) {
 			selectResults =
 				(await this.modalHelper.openSelectModal({ elements: apiSearchResults }, async selectModalData => {
-					return await this.queryDetails(selectModalData.selected);
+					return await this.queryDetails(selectModalData.selected, queryOptions);
 				})) ?? [];
 			if (!selectResults) {
 				return;
@@ -263,13 +470,13 @@ export default class MediaDbPlugin extends Plugin {
 		await this.createMediaDbNotes(selectResults!);
 	}
 
-	async createEntryWithIdSearchModal(): Promise<void> {
+	async createEntryWithIdSearchModal(idSearchModalOptions?: IdSearchModalOptions, folder?: TFolder): Promise<void> {
 		let idSearchResult: MediaTypeModel | undefined = undefined;
 		let proceed: boolean = false;
 
 		while (!proceed) {
-			idSearchResult = await this.modalHelper.openIdSearchModal({}, async idSearchModalData => {
-				return await this.apiManager.queryDetailedInfoById(idSearchModalData.query, idSearchModalData.api);
+			idSearchResult = await this.modalHelper.openIdSearchModal(idSearchModalOptions ?? {}, async idSearchModalData => {
+				return await this.apiManager.queryDetailedInfoById(idSearchModalData.query, idSearchModalData.api, { bypassCache: idSearchModalData.bypassCache });
 			});
 			if (!idSearchResult) {
 				return;
@@ -283,19 +490,118 @@ export default class MediaDbPlugin extends Plugin {
 		if (!idSearchResult) {
 			return;
 		}
-		await this.createMediaDbNoteFromModel(idSearchResult, { attachTemplate: true, openNote: true });
+		await this.createMediaDbNoteFromModel(idSearchResult, { attachTemplate: true, openNote: true, folder: folder });
+	}
+
+	/**
+	 * Handles `obsidian://media-db` links, e.g. from a bookmarklet.
+	 * With an `api` and an `id` or a `url` of a supported site the entry is loaded right away and shown in the preview, with only an `id` the id search modal is opened
+	 * and otherwise the search modal is opened with the `query` and the media types from `type`, separated by commas, filled in.
+	 * The note is created in the `folder` if one is set.
+	 *
+	 * @param params
+	 */
+	async createEntryFromUri(params: ObsidianProtocolData): Promise<void> {
+		try {
+			const folder = params.folder ? await this.getOrCreateFolder(params.folder) : undefined;
+			const types = (params.type ?? '')
+				.split(',')
+				.map(x => x.trim())
+				.filter(x => this.mediaTypeManager.hasMediaType(x)) as MediaType[];
+
+			const urlMatch = params.url ? this.apiManager.getIdFromUrl(params.url) : undefined;
+
+			if (params.id && params.api) {
+				await this.createEntryById(params.id, params.api, folder);
+			} else if (urlMatch) {
+				await this.createEntryById(urlMatch.id, urlMatch.apiName, folder);
+			} else if (params.url) {
+				await this.createEntryWithIdSearchModal({ prefilledSearchString: params.url, urlMode: true }, folder);
+			} else if (params.id) {
+				await this.createEntryWithIdSearchModal({ prefilledSearchString: params.id }, folder);
+			} else {
+				await this.createEntryWithSearchModal({ prefilledSearchString: params.query, preselectedTypes: types }, folder);
+			}
+		} catch (e) {
+			console.warn(e);
+			new Notice(`${e}`);
+		}
 	}
 
-	async createMediaDbNotes(models: MediaTypeModel[], attachFile?: TFile): Promise<void> {
+	/**
+	 * Creates an entry from the url in the clipboard. Urls of supported sites are loaded right away and shown in the preview,
+	 * otherwise the id search modal is opened in url mode.
+	 */
+	async createEntryFromClipboardUrl(): Promise<void> {
+		let url = '';
+		try {
+			url = (await navigator.clipboard.readText()).trim();
+		} catch (e) {
+			console.warn(e);
+		}
+
+		const urlMatch = this.apiManager.getIdFromUrl(url);
+		if (!urlMatch) {
+			await this.createEntryWithIdSearchModal({ modalTitle: 'Media DB Url Search', prefilledSearchString: url, urlMode: true });
+			return;
+		}
+
+		try {
+			await this.createEntryById(urlMatch.id, urlMatch.apiName);
+		} catch (e) {
+			console.warn(e);
+			new Notice(`${e}`);
+		}
+	}
+
+	/**
+	 * Loads an entry from an API, shows it in the preview and creates its note once confirmed.
+	 *
+	 * @param id
+	 * @param apiName
+	 * @param folder the folder to create the note in, the folder of the media type from the settings by default
+	 */
+	async createEntryById(id: string, apiName: string, folder?: TFolder): Promise<void> {
+		const model = await this.apiManager.queryDetailedInfoById(id, apiName);
+		if (!model) {
+			throw new Error(`MDB | no result for id ${id} from ${apiName}`);
+		}
+
+		const confirmed = await this.modalHelper.openPreviewModal({ elements: [model] }, async previewModalData => {
+			return previewModalData.confirmed;
+		});
+		if (confirmed) {
+			await this.createMediaDbNoteFromModel(model, { attachTemplate: true, openNote: true, folder: folder });
+		}
+	}
+
+	async createMediaDbNotes(models: MediaTypeModel[], attachFile?: TFile, folder?: TFolder): Promise<void> {
 		for (const model of models) {
-			await this.createMediaDbNoteFromModel(model, { attachTemplate: true, attachFile: attachFile });
+			await this.createMediaDbNoteFromModel(model, { attachTemplate: true, attachFile: attachFile, folder: folder });
 		}
 	}
 
-	async queryDetails(models: MediaTypeModel[]): Promise<MediaTypeModel[]> {
+	/**
+	 * Returns the folder at a path, creating it if it does not exist yet.
+	 *
+	 * @param path
+	 */
+	async getOrCreateFolder(path: string): Promise<TFolder> {
+		if (!(await this.app.vault.adapter.exists(path))) {
+			await this.app.vault.createFolder(path);
+		}
+
+		const folder = this.app.vault.getAbstractFileByPath(path);
+		if (!(folder instanceof TFolder)) {
+			throw new Error(`MDB | "${path}" is not a folder`);
+		}
+		return folder;
+	}
+
+	async queryDetails(models: MediaTypeModel[], options: APIQueryOptions = {}): Promise<MediaTypeModel[]> {
 		const detailModels: MediaTypeModel[] = [];
 		for (const model of models) {
-			const res = await this.apiManager.queryDetailedInfo(model);
+			const res = await this.apiManager.queryDetailedInfo(model, options);
 			if (res) {
 				detailModels.push(res);
 			}
@@ -305,25 +611,65 @@ export default class MediaDbPlugin extends Plugin {
 
 	async createMediaDbNoteFromModel(mediaTypeModel: MediaTypeModel, options: CreateNoteOptions): Promise<void> {
 		try {
-			console.debug('MDB | creating new note');
+			if (!(await this.confirmNoDuplicates(mediaTypeModel))) {
+				return;
+			}
+			await this.writeMediaDbNoteFromModel(mediaTypeModel, options);
+		} catch (e) {
+			console.warn(e);
+			new Notice(`${e}`);
+		}
+	}
 
-			options.openNote = this.settings.openNoteInNewTab;
+	/**
+	 * Checks whether the vault already has a note for an entry, either from the same entry or with a similar title and year.
+	 * If it has, the user can open or update the existing note instead of creating a new one.
+	 *
+	 * @param mediaTypeModel
+	 * @returns whether a new note should be created
+	 */
+	async confirmNoDuplicates(mediaTypeModel: MediaTypeModel): Promise<boolean> {
+		const matches = this.vaultIndex.findDuplicates(mediaTypeModel);
+		if (matches.length === 0) {
+			return true;
+		}
 
-			const fileContent = await this.generateMediaDbNoteContents(mediaTypeModel, options);
+		const { action, file } = await new Promise<{ action: DuplicateAction; file?: TFile }>(resolve => {
+			new MediaDbDuplicateModal(this.app, mediaTypeModel.englishTitle || mediaTypeModel.title, matches, (action, file) => resolve({ action, file })).open();
+		});
 
-			if (!options.folder) {
-				options.folder = await this.mediaTypeManager.getFolder(mediaTypeModel, this.app);
-			}
+		if (action === DuplicateAction.Open && file) {
+			await this.app.workspace.getUnpinnedLeaf().openFile(file, { state: { mode: 'source' } });
+		} else if (action === DuplicateAction.Update && file) {
+			await this.updateNoteMetadata(file);
+			new Notice(`MDB | updated "${file.basename}"`);
+		}
 
-			const targetFile = await this.createNote(this.mediaTypeManager.getFileName(mediaTypeModel), fileContent, options);
+		return action === DuplicateAction.Create;
+	}
 
-			if (this.settings.enableTemplaterIntegration) {
-				await useTemplaterPluginInFile(this.app, targetFile);
-			}
-		} catch (e) {
-			console.warn(e);
-			new Notice(`${e}`);
+	/**
+	 * Same as {@link createMediaDbNoteFromModel}, but errors are thrown instead of being shown as a notice.
+	 *
+	 * @param mediaTypeModel
+	 * @param options
+	 */
+	async writeMediaDbNoteFromModel(mediaTypeModel: MediaTypeModel, options: CreateNoteOptions): Promise<TFile> {
+		console.debug('MDB | creating new note');
+
+		options.openNote = (options.openNote ?? true) && this.settings.openNoteInNewTab;
+
+		const fileContent = await this.generateMediaDbNoteContents(mediaTypeModel, options);
+
+		options.folder ??= await this.mediaTypeManager.getFolder(mediaTypeModel, this.app);
+
+		const targetFile = await this.createNote(this.mediaTypeManager.getFileName(mediaTypeModel), fileContent, options);
+
+		if (this.settings.enableTemplaterIntegration) {
+			await useTemplaterPluginInFile(this.app, targetFile);
 		}
+
+		return targetFile;
 	}
 
 	generateMediaDbNoteFrontmatterPreview(mediaTypeModel: MediaTypeModel): string {
@@ -544,41 +890,192 @@ export default class MediaDbPlugin extends Plugin {
 
 	/**
 	 * Update the active note by querying the API again.
-	 * Tries to read the type, id and dataSource of the active note. If successful it will query the api, delete the old note and create a new one.
+	 * Tries to read the type, id and dataSource of the active note. If successful it will query the api and either update the metadata of the note in place
+	 * or delete the old note and create a new one.
 	 */
 	async updateActiveNote(onlyMetadata: boolean = false): Promise<void> {
-		const activeFile = this.app.workspace.getActiveFile() ?? undefined;
-		if (!activeFile) {
-			throw new Error('MDB | there is no active note');
+		try {
+			const activeFile = this.app.workspace.getActiveFile() ?? undefined;
+			if (!activeFile) {
+				throw new Error('MDB | there is no active note');
+			}
+
+			if (onlyMetadata) {
+				await this.updateNoteMetadataWithDiffModal(activeFile);
+			} else {
+				await this.recreateNote(activeFile);
+			}
+		} catch (e) {
+			console.warn(e);
+			new Notice(`${e}`);
 		}
+	}
 
-		let metadata = this.getMetadataFromFileCache(activeFile);
+	/**
+	 * Reads the type, id and dataSource of a note. Returns undefined if the note is not a Media DB entry.
+	 *
+	 * @param file
+	 */
+	getMediaTypeModelObjFromFile(file: TFile): MediaTypeModelObj | undefined {
+		let metadata = this.getMetadataFromFileCache(file);
 		metadata = this.modelPropertyMapper.convertObjectBack(metadata);
 
-		console.debug(`MDB | read metadata`, metadata);
-
 		if (!metadata?.type || !metadata?.dataSource || !metadata?.id) {
-			throw new Error('MDB | active note is not a Media DB entry or is missing metadata');
+			return undefined;
+		}
+
+		return metadata as unknown as MediaTypeModelObj;
+	}
+
+	/**
+	 * Queries the API again for a Media DB entry.
+	 * The returned model contains the data from the API combined with the user data from the note.
+	 *
+	 * @param file
+	 * @returns the metadata of the note with the original property names and the updated model
+	 */
+	async queryUpdatedModel(file: TFile): Promise<{ noteMetadata: Metadata; model: MediaTypeModel }> {
+		let noteMetadata = this.getMetadataFromFileCache(file);
+		noteMetadata = this.modelPropertyMapper.convertObjectBack(noteMetadata);
+
+		console.debug(`MDB | read metadata`, noteMetadata);
+
+		if (!noteMetadata?.type || !noteMetadata?.dataSource || !noteMetadata?.id) {
+			throw new Error('MDB | note is not a Media DB entry or is missing metadata');
 		}
 
-		const validOldMetadata: MediaTypeModelObj = metadata as unknown as MediaTypeModelObj;
+		const validOldMetadata: MediaTypeModelObj = noteMetadata as unknown as MediaTypeModelObj;
 		console.debug(`MDB | validOldMetadata`, validOldMetadata);
 
 		const oldMediaTypeModel = this.mediaTypeManager.createMediaTypeModelFromMediaType(validOldMetadata, validOldMetadata.type);
 		console.debug(`MDB | oldMediaTypeModel created`, oldMediaTypeModel);
 
-		let newMediaTypeModel = await this.apiManager.queryDetailedInfoById(validOldMetadata.id, validOldMetadata.dataSource);
+		const newMediaTypeModel = await this.apiManager.queryDetailedInfoById(validOldMetadata.id, validOldMetadata.dataSource, { bypassCache: true });
 		if (!newMediaTypeModel) {
+			throw new Error(`MDB | no result for id ${validOldMetadata.id} from ${validOldMetadata.dataSource}`);
+		}
+
+		const model = Object.assign(oldMediaTypeModel, newMediaTypeModel.getWithOutUserData());
+		console.debug(`MDB | newMediaTypeModel after merge`, model);
+
+		return { noteMetadata, model };
+	}
+
+	/**
+	 * Queries the API again, then deletes the note and creates a new one with the template attached.
+	 *
+	 * @param file
+	 */
+	async recreateNote(file: TFile): Promise<void> {
+		const { model } = await this.queryUpdatedModel(file);
+
+		await this.writeMediaDbNoteFromModel(model, { attachTemplate: true, folder: file.parent ?? undefined, openNote: true });
+	}
+
+	/**
+	 * Queries the API again and merges the result with the metadata of the note using the configured merge policies.
+	 *
+	 * @param file
+	 * @returns the new values for the front matter, using the remapped property names
+	 */
+	async getMetadataUpdate(file: TFile): Promise<Metadata> {
+		const { noteMetadata, model } = await this.queryUpdatedModel(file);
+
+		const rules = parseMetadataMergeRules(this.settings.metadataMergeRules);
+		const mergedMetadata = mergeMetadata(noteMetadata, model.toMetaDataObject(), this.settings.metadataMergePolicy, rules);
+
+		return this.modelPropertyMapper.convertObject(mergedMetadata);
+	}
+
+	/**
+	 * Writes new values into the front matter of a note.
+	 * The body of the note, the file itself and all properties not contained in the update are left untouched.
+	 *
+	 * @param file
+	 * @param metadataUpdate
+	 */
+	async applyMetadataUpdate(file: TFile, metadataUpdate: Metadata): Promise<void> {
+		await this.app.fileManager.processFrontMatter(file, (frontMatter: Metadata) => {
+			Object.assign(frontMatter, metadataUpdate);
+		});
+		console.debug(`MDB | updated metadata of ${file.path}`);
+	}
+
+	/**
+	 * Updates the metadata of a note in place by querying the API again.
+	 *
+	 * @param file
+	 */
+	async updateNoteMetadata(file: TFile): Promise<void> {
+		const metadataUpdate = await this.getMetadataUpdate(file);
+		await this.applyMetadataUpdate(file, metadataUpdate);
+	}
+
+	/**
+	 * Queries the API again and lets the user pick which of the changed properties should be written to the note.
+	 *
+	 * @param file
+	 */
+	async updateNoteMetadataWithDiffModal(file: TFile): Promise<void> {
+		const oldMetadata = this.getMetadataFromFileCache(file);
+		const newMetadata = await this.getMetadataUpdate(file);
+
+		await this.modalHelper.openDiffModal({ modalTitle: `Update metadata of "${file.basename}"`, oldMetadata, newMetadata }, async diffModalData => {
+			const acceptedMetadata: Metadata = {};
+			for (const key of diffModalData.acceptedKeys) {
+				acceptedMetadata[key] = newMetadata[key];
+			}
+			await this.applyMetadataUpdate(file, acceptedMetadata);
+		});
+	}
+
+	/**
+	 * Updates the metadata of all Media DB entries in a folder and its sub folders.
+	 * Files that could not be updated are listed in an error report.
+	 *
+	 * @param folder
+	 */
+	async updateEntriesInFolder(folder: TFolder): Promise<void> {
+		const erroredFiles: { filePath: string; error: string }[] = [];
+
+		const files: TFile[] = [];
+		Vault.recurseChildren(folder, child => {
+			if (child instanceof TFile && child.extension === 'md' && this.getMediaTypeModelObjFromFile(child)) {
+				files.push(child);
+			}
+		});
+
+		if (files.length === 0) {
+			new Notice(`MDB | no Media DB entries found in "${folder.path}"`);
 			return;
 		}
 
-		newMediaTypeModel = Object.assign(oldMediaTypeModel, newMediaTypeModel.getWithOutUserData());
-		console.debug(`MDB | newMediaTypeModel after merge`, newMediaTypeModel);
+		const progressModal = new MediaDbProgressModal(this.app, 'Updating Media DB entries', files.length);
+		progressModal.open();
 
-		if (onlyMetadata) {
-			await this.createMediaDbNoteFromModel(newMediaTypeModel, { attachFile: activeFile, folder: activeFile.parent ?? undefined, openNote: true });
-		} else {
-			await this.createMediaDbNoteFromModel(newMediaTypeModel, { attachTemplate: true, folder: activeFile.parent ?? undefined, openNote: true });
+		for (const [i, file] of files.entries()) {
+			if (progressModal.canceled) {
+				erroredFiles.push({ filePath: file.path, error: 'user canceled' });
+				continue;
+			}
+
+			progressModal.setProgress(i, file.path);
+
+			try {
+				await this.updateNoteMetadata(file);
+			} catch (e) {
+				console.warn(e);
+				erroredFiles.push({ filePath: file.path, error: `${e}` });
+			}
+		}
+
+		progressModal.setProgress(files.length, 'done');
+		progressModal.finish();
+
+		new Notice(`MDB | updated ${files.length - erroredFiles.length} of ${files.length} entries`);
+
+		if (erroredFiles.length > 0) {
+			await this.createErroredFilesReport(erroredFiles, 'bulk update');
 		}
 	}
 
@@ -658,8 +1155,359 @@ export default class MediaDbPlugin extends Plugin {
 		}
 	}
 
-	async createErroredFilesReport(erroredFiles: { filePath: string; error: string }[]): Promise<void> {
-		const title = `MDB - bulk import error report ${dateTimeToString(new Date())}`;
+	/**
+	 * Returns the API of a series note, if that API can list the episodes of a series.
+	 *
+	 * @param file
+	 */
+	getEpisodesApiForFile(file: TFile): APIModel | undefined {
+		const mediaTypeModelObj = this.getMediaTypeModelObjFromFile(file);
+		if (mediaTypeModelObj?.type !== MediaType.Series) {
+			return undefined;
+		}
+
+		const api = this.apiManager.getApiByName(mediaTypeModelObj.dataSource);
+		return api?.getEpisodes ? api : undefined;
+	}
+
+	/**
+	 * Creates a note for every episode or season of a series in a sub folder next to the series note.
+	 * Notes that already exist are skipped, so the command can be run again when new episodes are released without losing what was checked as watched.
+	 *
+	 * @param file the series note
+	 * @param perSeason whether to create one note per season instead of one per episode
+	 */
+	async createEpisodeNotes(file: TFile, perSeason: boolean): Promise<void> {
+		const mediaTypeModelObj = this.getMediaTypeModelObjFromFile(file);
+		const api = this.getEpisodesApiForFile(file);
+		if (!mediaTypeModelObj || !api?.getEpisodes) {
+			new Notice('MDB | note is not a series from an API that lists episodes');
+			return;
+		}
+
+		let notes: EpisodeNote[];
+		try {
+			const episodes = await api.getEpisodes(mediaTypeModelObj.id);
+			notes = perSeason ? getSeasonNotes(episodes, file.basename) : getEpisodeNotes(episodes, file.basename);
+		} catch (e) {
+			console.warn(e);
+			new Notice(`${e}`);
+			return;
+		}
+
+		if (notes.length === 0) {
+			new Notice(`MDB | ${api.apiName} has no episodes for "${file.basename}"`);
+			return;
+		}
+
+		const folderPath = file.parent && !file.parent.isRoot() ? `${file.parent.path}/${file.basename}` : file.basename;
+		let created = 0;
+		try {
+			if (!(await this.app.vault.adapter.exists(folderPath))) {
+				await this.app.vault.createFolder(folderPath);
+			}
+
+			for (const note of notes) {
+				const filePath = `${folderPath}/${replaceIllegalFileNameCharactersInString(note.fileName)}.md`;
+				if (this.app.vault.getAbstractFileByPath(filePath)) {
+					continue;
+				}
+
+				await this.app.vault.create(filePath, `---\n${stringifyYaml(note.metadata)}---\n${note.body}`);
+				created++;
+			}
+		} catch (e) {
+			console.warn(e);
+			new Notice(`${e}`);
+			return;
+		}
+
+		new Notice(
+			`MDB | created ${created} ${perSeason ? 'season' : 'episode'} notes for "${file.basename}"${created < notes.length ? `, skipped ${notes.length - created} existing notes` : ''}`,
+		);
+	}
+
+	/**
+	 * Creates the model of a note from its front matter. Unlike {@link getMediaTypeModelObjFromFile} this works for notes without an id or data source as well.
+	 * Returns undefined if the note has no known media type.
+	 *
+	 * @param file
+	 */
+	getMediaTypeModelFromFile(file: TFile): MediaTypeModel | undefined {
+		const metadata = this.modelPropertyMapper.convertObjectBack(this.getMetadataFromFileCache(file));
+		if (typeof metadata?.type !== 'string' || !this.mediaTypeManager.hasMediaType(metadata.type)) {
+			return undefined;
+		}
+
+		return this.mediaTypeManager.createMediaTypeModelFromMediaType(metadata, metadata.type);
+	}
+
+	/**
+	 * Asks the user how far they got with a Media DB entry and updates the progress of the note.
+	 *
+	 * @param file
+	 */
+	logProgress(file: TFile): void {
+		const model = this.getMediaTypeModelFromFile(file);
+		if (!model) {
+			new Notice('MDB | note is not a Media DB entry');
+			return;
+		}
+
+		new MediaDbLogProgressModal(this.app, model, async (progress, comment) => {
+			const date = this.dateFormatter.getPreview();
+			model.setProgress(progress, date);
+			await this.writeProgress(file, model, formatProgressLogEntry(model, date, comment));
+		}).open();
+	}
+
+	/**
+	 * Marks a Media DB entry as finished.
+	 *
+	 * @param file
+	 */
+	async markFinished(file: TFile): Promise<void> {
+		const model = this.getMediaTypeModelFromFile(file);
+		if (!model) {
+			new Notice('MDB | note is not a Media DB entry');
+			return;
+		}
+
+		const date = this.dateFormatter.getPreview();
+		model.markFinished(date);
+		await this.writeProgress(file, model, formatProgressLogEntry(model, date));
+	}
+
+	/**
+	 * Writes the progress and user data of a model into the front matter of its note and appends an entry to the progress log in the body.
+	 *
+	 * @param file
+	 * @param model
+	 * @param logEntry
+	 */
+	async writeProgress(file: TFile, model: MediaTypeModel, logEntry: string): Promise<void> {
+		const metadata = model.toMetaDataObject();
+		const progressUpdate: Metadata = { type: model.type };
+		for (const key of [...PROGRESS_PROPERTIES, ...Object.keys(model.userData)]) {
+			if (metadata[key] !== undefined) {
+				progressUpdate[key] = metadata[key];
+			}
+		}
+		const metadataUpdate = this.modelPropertyMapper.convertObject(progressUpdate);
+
+		try {
+			await this.applyMetadataUpdate(file, metadataUpdate);
+			await this.app.vault.process(file, content => appendProgressLogEntry(content, logEntry));
+		} catch (e) {
+			console.warn(e);
+			new Notice(`${e}`);
+			return;
+		}
+
+		new Notice(`MDB | ${logEntry}`);
+	}
+
+	/**
+	 * Lets the user edit the rating, status and tags of a Media DB entry.
+	 * The properties are read and written with the names set in the property mappings.
+	 *
+	 * @param file
+	 */
+	editPersonalData(file: TFile): void {
+		const metadata = this.modelPropertyMapper.convertObjectBack(this.getMetadataFromFileCache(file));
+		const model = this.getMediaTypeModelFromFile(file);
+		if (!model) {
+			new Notice('MDB | note is not a Media DB entry');
+			return;
+		}
+
+		const personalData = readPersonalData(metadata);
+		new MediaDbPersonalDataModal(
+			this.app,
+			model.title || file.basename,
+			personalData,
+			this.settings.personalStatuses,
+			this.settings.personalRatingScale,
+			async newPersonalData => {
+				const update: Metadata = {};
+				for (const property of PERSONAL_DATA_PROPERTIES) {
+					update[property] = newPersonalData[property];
+				}
+
+				try {
+					await this.updateUserProperties(file, model.type, update);
+				} catch (e) {
+					console.warn(e);
+					new Notice(`${e}`);
+				}
+			},
+		).open();
+	}
+
+	/**
+	 * Writes properties the user can change, like the rating or progress, into the front matter of a note.
+	 * The update uses the original property names and is written with the names set in the property mappings.
+	 * Properties that are set to undefined or an empty list are removed instead of being written as empty properties.
+	 *
+	 * @param file
+	 * @param type the media type of the note, used to look up the property mappings
+	 * @param update
+	 */
+	async updateUserProperties(file: TFile, type: string, update: Metadata): Promise<void> {
+		const metadataUpdate = this.modelPropertyMapper.convertObject({ type, ...update });
+
+		await this.app.fileManager.processFrontMatter(file, (frontMatter: Metadata) => {
+			for (const [key, value] of Object.entries(metadataUpdate)) {
+				if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+					delete frontMatter[key];
+				} else {
+					frontMatter[key] = value;
+				}
+			}
+		});
+		console.debug(`MDB | updated user properties of ${file.path}`);
+	}
+
+	/**
+	 * Syncs the personal data and progress of a note from the BangumiAPI with the collection of the user on Bangumi.
+	 *
+	 * @param file
+	 */
+	async syncNoteWithBangumi(file: TFile): Promise<void> {
+		try {
+			await this.bangumiSync.pushNote(file);
+		} catch (e) {
+			console.warn(e);
+			new Notice(`${e}`);
+			return;
+		}
+
+		new Notice(`MDB | synced "${file.basename}" with Bangumi`);
+	}
+
+	/**
+	 * Asks for a MyAnimeList export file or username and imports the anime and manga of the list.
+	 */
+	importMALList(): void {
+		const modalOptions = {
+			title: 'Import MyAnimeList list',
+			description: 'Select the XML export of your anime or manga list from "myanimelist.net/panel.php?go=export", or enter a username to load both lists of that user.',
+			username: this.settings.malUsername,
+		};
+
+		this.listImporter.openImportModal(modalOptions, 'MyAnimeList import', async (filePath, username) => {
+			if (filePath) {
+				return parseMALExport(
+					await this.listImporter.readFile(filePath),
+					this.settings.personalRatingScale,
+					date => this.dateFormatter.format(date, 'YYYY-MM-DD') ?? undefined,
+				);
+			}
+
+			const animeApi = this.apiManager.getApiByName('MALAPI');
+			const mangaApi = this.apiManager.getApiByName('MALAPI Manga');
+			if (!(animeApi instanceof MALAPI) || !(mangaApi instanceof MALAPIManga)) {
+				throw new Error('MDB | MALAPI is not registered');
+			}
+			return [...(await animeApi.getUserList(username, this.settings.personalRatingScale)), ...(await mangaApi.getUserList(username, this.settings.personalRatingScale))];
+		});
+	}
+
+	/**
+	 * Asks for a saved `GetOwnedGames` response of the Steam Web API or a Steam ID and imports the owned games with their playtime.
+	 */
+	importSteamLibrary(): void {
+		const modalOptions = {
+			title: 'Import Steam library',
+			description:
+				'Select a saved "GetOwnedGames" response of the Steam Web API, or enter a Steam ID to load the games of that account with the Steam key from the settings.',
+			username: this.settings.steamId,
+			usernameLabel: 'Steam ID',
+		};
+
+		this.listImporter.openImportModal(modalOptions, 'Steam import', async (filePath, steamId) => {
+			if (filePath) {
+				return parseSteamOwnedGames(JSON.parse(await this.listImporter.readFile(filePath)), date => this.dateFormatter.format(date, 'YYYY-MM-DD') ?? undefined);
+			}
+
+			const api = this.apiManager.getApiByName('SteamAPI');
+			if (!(api instanceof SteamAPI)) {
+				throw new Error('MDB | SteamAPI is not registered');
+			}
+			return await api.getOwnedGames(steamId);
+		});
+	}
+
+	/**
+	 * Asks for a Goodreads or StoryGraph CSV export and imports the books of the library from Open Library.
+	 * Books are matched by their ISBN first and by their title and author otherwise, books that could not be matched confidently are listed in a match report.
+	 */
+	importBookList(): void {
+		const modalOptions = {
+			title: 'Import Goodreads or StoryGraph library',
+			description: 'Select the CSV export of your library from "goodreads.com/review/import" or "app.thestorygraph.com/user-export".',
+		};
+
+		this.listImporter.openImportModal(modalOptions, 'book import', async filePath => {
+			const rows = parseBookExport(
+				await this.listImporter.readFile(filePath),
+				this.settings.personalRatingScale,
+				date => this.dateFormatter.format(date, 'YYYY-MM-DD') ?? undefined,
+			);
+
+			const api = this.apiManager.getApiByName('OpenLibraryAPI');
+			if (!(api instanceof OpenLibraryAPI)) {
+				throw new Error('MDB | OpenLibraryAPI is not registered');
+			}
+
+			return await this.listImporter.matchRows(rows, {
+				apiName: api.apiName,
+				operation: 'book import',
+				itemName: 'books',
+				getDetails: row => [row.author, row.isbn].filter(x => x).join(', '),
+				match: row => matchBookRow(api, row),
+			});
+		});
+	}
+
+	/**
+	 * Asks for a Letterboxd or IMDb CSV export and imports the movies and series from OMDb.
+	 * Rows of IMDb exports are loaded by their IMDb id, rows of Letterboxd exports are matched by their title and year, rows that could not be matched confidently are listed in a match report.
+	 */
+	importMovieList(): void {
+		const modalOptions = {
+			title: 'Import Letterboxd or IMDb ratings',
+			description:
+				'Select the "diary.csv" or "ratings.csv" of your Letterboxd export from "letterboxd.com/settings/data", or the "ratings.csv" exported from your IMDb ratings page.',
+		};
+
+		this.listImporter.openImportModal(modalOptions, 'movie import', async filePath => {
+			if (!this.settings.OMDbKey) {
+				throw new Error('MDB | API key for OMDbAPI missing.');
+			}
+			const rows = parseMovieExport(
+				await this.listImporter.readFile(filePath),
+				this.settings.personalRatingScale,
+				date => this.dateFormatter.format(date, 'YYYY-MM-DD') ?? undefined,
+			);
+
+			const api = this.apiManager.getApiByName('OMDbAPI');
+			if (!(api instanceof OMDbAPI)) {
+				throw new Error('MDB | OMDbAPI is not registered');
+			}
+
+			return await this.listImporter.matchRows(rows, {
+				apiName: api.apiName,
+				operation: 'movie import',
+				itemName: 'movies',
+				getDetails: row => row.year,
+				match: row => matchMovieRow(api, row),
+			});
+		});
+	}
+
+	async createErroredFilesReport(erroredFiles: { filePath: string; error: string }[], operation: string = 'bulk import'): Promise<void> {
+		const title = `MDB - ${operation} error report ${dateTimeToString(new Date())}`;
 		const filePath = `${title}.md`;
 
 		const table = [['file', 'error']].concat(erroredFiles.map(x => [x.filePath, x.error]));
@@ -671,13 +1519,78 @@ export default class MediaDbPlugin extends Plugin {
 	async loadSettings(): Promise<void> {
 		// console.log(DEFAULT_SETTINGS);
 		const diskSettings: MediaDbPluginSettings = await this.loadData();
+		// custom media types have to be registered first, so that their defaults are included in the default settings
+		this.mediaTypeManager.updateCustomMediaTypes(diskSettings?.customMediaTypes ?? []);
 		const defaultSettings: MediaDbPluginSettings = getDefaultSettings(this);
 		const loadedSettings: MediaDbPluginSettings = Object.assign({}, defaultSettings, diskSettings);
 
+		loadedSettings.mediaTypeSettings = this.migrateMediaTypeSettings(defaultSettings, diskSettings ?? {});
+		// the old per type settings are not needed anymore after the migration
+		for (const { legacySettingsKey } of this.mediaTypeManager.getMediaTypeDefinitions()) {
+			if (!legacySettingsKey) {
+				continue;
+			}
+			for (const suffix of ['Folder', 'Template', 'FileNameTemplate', 'PropertyConversionRules']) {
+				delete (loadedSettings as unknown as Record<string, unknown>)[`${legacySettingsKey}${suffix}`];
+			}
+		}
 		// migrate the settings loaded from the disk to match the structure of the default settings
+		loadedSettings.propertyMappingModels = this.migratePropertyMappingModels(defaultSettings.propertyMappingModels, loadedSettings.propertyMappingModels);
+
+		this.settings = loadedSettings;
+	}
+
+	/**
+	 * Merges the settings of each media type loaded from the disk with the defaults.
+	 * Older versions stored the settings of each type in separate fields, e.g. `movieFolder`, those are moved into the settings of the type.
+	 *
+	 * @param defaultSettings
+	 * @param diskSettings
+	 */
+	migrateMediaTypeSettings(defaultSettings: MediaDbPluginSettings, diskSettings: Partial<MediaDbPluginSettings>): Record<string, MediaTypeSettings> {
+		const legacyDiskSettings = diskSettings as Record<string, unknown>;
+		const diskMediaTypeSettings: Record<string, MediaTypeSettings | undefined> = diskSettings.mediaTypeSettings ?? {};
+		const mediaTypeSettings: Record<string, MediaTypeSettings> = {};
+
+		for (const definition of this.mediaTypeManager.getMediaTypeDefinitions()) {
+			const legacySettings: Partial<MediaTypeSettings> = {};
+			if (definition.legacySettingsKey) {
+				const key = definition.legacySettingsKey;
+				const folder = legacyDiskSettings[`${key}Folder`];
+				const template = legacyDiskSettings[`${key}Template`];
+				const fileNameTemplate = legacyDiskSettings[`${key}FileNameTemplate`];
+				if (typeof folder === 'string') {
+					legacySettings.folder = folder;
+				}
+				if (typeof template === 'string') {
+					legacySettings.template = template;
+				}
+				if (typeof fileNameTemplate === 'string') {
+					legacySettings.fileNameTemplate = fileNameTemplate;
+				}
+			}
+
+			mediaTypeSettings[definition.type] = {
+				...defaultSettings.mediaTypeSettings[definition.type],
+				...legacySettings,
+				...diskMediaTypeSettings[definition.type],
+			};
+		}
+
+		// keep the settings of custom media types that could not be registered, so they are not lost
+		return { ...diskSettings.mediaTypeSettings, ...mediaTypeSettings };
+	}
+
+	/**
+	 * Adds the property mappings of new media types and properties to the loaded property mappings and drops the ones of removed media types and properties.
+	 *
+	 * @param defaultPropertyMappingModels
+	 * @param loadedPropertyMappingModels
+	 */
+	migratePropertyMappingModels(defaultPropertyMappingModels: PropertyMappingModel[], loadedPropertyMappingModels: PropertyMappingModel[]): PropertyMappingModel[] {
 		const newPropertyMappings: PropertyMappingModel[] = [];
-		for (const defaultPropertyMappingModel of defaultSettings.propertyMappingModels) {
-			const newPropertyMappingModel = loadedSettings.propertyMappingModels.find(x => x.type === defaultPropertyMappingModel.type);
+		for (const defaultPropertyMappingModel of defaultPropertyMappingModels) {
+			const newPropertyMappingModel = loadedPropertyMappingModels.find(x => x.type === defaultPropertyMappingModel.type);
 			if (newPropertyMappingModel === undefined) {
 				// if the propertyMappingModel exists in the default settings but not the loaded settings, add it
 				newPropertyMappings.push(defaultPropertyMappingModel);
@@ -699,15 +1612,25 @@ export default class MediaDbPlugin extends Plugin {
 				newPropertyMappings.push(new PropertyMappingModel(newPropertyMappingModel.type, newProperties));
 			}
 		}
-		loadedSettings.propertyMappingModels = newPropertyMappings;
+		return newPropertyMappings;
+	}
 
-		this.settings = loadedSettings;
+	/**
+	 * Registers the custom media types from the settings again after they were changed and updates their property mappings.
+	 */
+	async updateCustomMediaTypes(): Promise<void> {
+		this.mediaTypeManager.updateCustomMediaTypes(this.settings.customMediaTypes);
+		this.settings.propertyMappingModels = this.migratePropertyMappingModels(getDefaultPropertyMappingModels(this), this.settings.propertyMappingModels);
+
+		await this.saveSettings();
 	}
 
 	async saveSettings(): Promise<void> {
 		this.mediaTypeManager.updateTemplates(this.settings);
 		this.mediaTypeManager.updateFolders(this.settings);
 		this.dateFormatter.setFormat(this.settings.customDateFormat);
+		// the property mappings might have changed, which changes how the metadata of the notes is read
+		this.vaultIndex.invalidate();
 
 		await this.saveData(this.settings);
 	}
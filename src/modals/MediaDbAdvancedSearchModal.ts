@@ -10,6 +10,7 @@ export class MediaDbAdvancedSearchModal extends Modal {
 
 	query: string;
 	isBusy: boolean;
+	bypassCache: boolean;
 	title: string;
 	selectedApis: string[];
 
@@ -27,6 +28,7 @@ export class MediaDbAdvancedSearchModal extends Modal {
 		this.title = advancedSearchModalOptions.modalTitle ?? '';
 		this.query = advancedSearchModalOptions.prefilledSearchString ?? '';
 		this.isBusy = false;
+		this.bypassCache = false;
 	}
 
 	setSubmitCallback(submitCallback: (res: AdvancedSearchModalData) => void): void {
@@ -61,7 +63,7 @@ export class MediaDbAdvancedSearchModal extends Modal {
 			this.searchBtn?.setDisabled(false);
 			this.searchBtn?.setButtonText('Searching...');
 
-			this.submitCallback?.({ query: this.query, apis: apis });
+			this.submitCallback?.({ query: this.query, apis: apis, bypassCache: this.bypassCache });
 		}
 	}
 
@@ -109,6 +111,14 @@ export class MediaDbAdvancedSearchModal extends Modal {
 
 		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
 
+		new Setting(contentEl)
+			.setName('Bypass cache')
+			.setDesc('Query the APIs even if there are cached results.')
+			.addToggle(cb => {
+				cb.setValue(this.bypassCache);
+				cb.onChange(value => (this.bypassCache = value));
+			});
+
 		new Setting(contentEl)
 			.addButton(btn => {
 				btn.setButtonText('Cancel');
@@ -0,0 +1,121 @@
+import { Modal, Setting, ToggleComponent } from 'obsidian';
+import type MediaDbPlugin from 'src/main';
+import type { Metadata } from 'src/main';
+import type { DiffModalData, DiffModalOptions } from '../utils/ModalHelper';
+import { DIFF_MODAL_DEFAULT_OPTIONS } from '../utils/ModalHelper';
+
+export class MediaDbDiffModal extends Modal {
+	plugin: MediaDbPlugin;
+
+	title: string;
+	oldMetadata: Metadata;
+	newMetadata: Metadata;
+	changedKeys: string[];
+	acceptedKeys: Set<string>;
+
+	submitCallback?: (diffModalData: DiffModalData) => void;
+	closeCallback?: (err?: Error) => void;
+
+	constructor(plugin: MediaDbPlugin, diffModalOptions: DiffModalOptions) {
+		diffModalOptions = Object.assign({}, DIFF_MODAL_DEFAULT_OPTIONS, diffModalOptions);
+
+		super(plugin.app);
+
+		this.plugin = plugin;
+		this.title = diffModalOptions.modalTitle ?? '';
+		this.oldMetadata = diffModalOptions.oldMetadata ?? {};
+		this.newMetadata = diffModalOptions.newMetadata ?? {};
+		this.changedKeys = getChangedKeys(this.oldMetadata, this.newMetadata);
+		this.acceptedKeys = new Set(this.changedKeys);
+	}
+
+	setSubmitCallback(submitCallback: (diffModalData: DiffModalData) => void): void {
+		this.submitCallback = submitCallback;
+	}
+
+	setOnCloseCallback(closeCallback: (err?: Error) => void): void {
+		this.closeCallback = closeCallback;
+	}
+
+	submit(): void {
+		this.submitCallback?.({ acceptedKeys: this.changedKeys.filter(x => this.acceptedKeys.has(x)) });
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.addClass('media-db-plugin-diff-modal');
+
+		contentEl.createEl('h2', { text: this.title });
+
+		if (this.changedKeys.length === 0) {
+			contentEl.createEl('p', { text: 'The metadata is already up to date.' });
+		} else {
+			const table = contentEl.createEl('table', { cls: 'media-db-plugin-diff-table' });
+			const headerRow = table.createEl('tr');
+			headerRow.createEl('th');
+			headerRow.createEl('th', { text: 'Property' });
+			headerRow.createEl('th', { text: 'Old value' });
+			headerRow.createEl('th', { text: 'New value' });
+
+			for (const key of this.changedKeys) {
+				const row = table.createEl('tr');
+
+				const toggle = new ToggleComponent(row.createEl('td'));
+				toggle.setValue(true);
+				toggle.onChange(value => {
+					if (value) {
+						this.acceptedKeys.add(key);
+					} else {
+						this.acceptedKeys.delete(key);
+					}
+				});
+
+				row.createEl('td', { text: key });
+				row.createEl('td', { text: metadataValueToString(this.oldMetadata[key]), cls: 'media-db-plugin-diff-old' });
+				row.createEl('td', { text: metadataValueToString(this.newMetadata[key]), cls: 'media-db-plugin-diff-new' });
+			}
+		}
+
+		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
+
+		const bottomSettingRow = new Setting(contentEl);
+		bottomSettingRow.addButton(btn => {
+			btn.setButtonText('Cancel');
+			btn.onClick(() => this.close());
+			btn.buttonEl.addClass('media-db-plugin-button');
+		});
+		bottomSettingRow.addButton(btn => {
+			btn.setButtonText('Apply');
+			btn.setCta();
+			btn.setDisabled(this.changedKeys.length === 0);
+			btn.onClick(() => this.submit());
+			btn.buttonEl.addClass('media-db-plugin-button');
+		});
+	}
+
+	onClose(): void {
+		this.closeCallback?.();
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Returns the keys of `newMetadata` whose values differ from the ones in `oldMetadata`.
+ *
+ * @param oldMetadata
+ * @param newMetadata
+ */
+export function getChangedKeys(oldMetadata: Metadata, newMetadata: Metadata): string[] {
+	return Object.keys(newMetadata).filter(key => JSON.stringify(oldMetadata[key]) !== JSON.stringify(newMetadata[key]));
+}
+
+function metadataValueToString(value: unknown): string {
+	if (value === undefined) {
+		return '';
+	}
+	if (typeof value === 'string') {
+		return value;
+	}
+	return JSON.stringify(value);
+}
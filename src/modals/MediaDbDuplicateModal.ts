@@ -0,0 +1,75 @@
+import type { App, TFile } from 'obsidian';
+import { Modal, Setting } from 'obsidian';
+import type { VaultIndexMatch } from '../utils/VaultIndex';
+
+export enum DuplicateAction {
+	Open = 'open',
+	Update = 'update',
+	Create = 'create',
+	Cancel = 'cancel',
+}
+
+export class MediaDbDuplicateModal extends Modal {
+	title: string;
+	matches: VaultIndexMatch[];
+	onSubmit: (action: DuplicateAction, file?: TFile) => void;
+	action: DuplicateAction;
+	file?: TFile;
+
+	constructor(app: App, title: string, matches: VaultIndexMatch[], onSubmit: (action: DuplicateAction, file?: TFile) => void) {
+		super(app);
+		this.title = title;
+		this.matches = matches;
+		this.onSubmit = onSubmit;
+		this.action = DuplicateAction.Cancel;
+	}
+
+	submit(action: DuplicateAction, file?: TFile): void {
+		this.action = action;
+		this.file = file;
+		this.close();
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: 'Already in vault' });
+		contentEl.createEl('p', { text: `"${this.title}" might already have a note in your vault. Open or update an existing note, or create a new note anyway.` });
+
+		for (const match of this.matches) {
+			new Setting(contentEl)
+				.setName(match.entry.file.basename)
+				.setDesc(`${match.entry.file.path} - ${match.sameId ? `same entry from ${match.entry.dataSource}` : `similar title from ${match.entry.dataSource}`}`)
+				.addButton(btn => {
+					btn.setButtonText('Open');
+					btn.onClick(() => this.submit(DuplicateAction.Open, match.entry.file));
+					btn.buttonEl.addClass('media-db-plugin-button');
+				})
+				.addButton(btn => {
+					btn.setButtonText('Update');
+					btn.onClick(() => this.submit(DuplicateAction.Update, match.entry.file));
+					btn.buttonEl.addClass('media-db-plugin-button');
+				});
+		}
+
+		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
+
+		const bottomSettingRow = new Setting(contentEl);
+		bottomSettingRow.addButton(btn => {
+			btn.setButtonText('Cancel');
+			btn.onClick(() => this.close());
+			btn.buttonEl.addClass('media-db-plugin-button');
+		});
+		bottomSettingRow.addButton(btn => {
+			btn.setButtonText('Create anyway');
+			btn.setCta();
+			btn.onClick(() => this.submit(DuplicateAction.Create));
+			btn.buttonEl.addClass('media-db-plugin-button');
+		});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.onSubmit(this.action, this.file);
+	}
+}
@@ -10,8 +10,10 @@ export class MediaDbIdSearchModal extends Modal {
 
 	query: string;
 	isBusy: boolean;
+	bypassCache: boolean;
 	title: string;
 	selectedApi: string;
+	urlMode: boolean;
 
 	searchBtn?: ButtonComponent;
 
@@ -25,8 +27,10 @@ export class MediaDbIdSearchModal extends Modal {
 		this.plugin = plugin;
 		this.title = idSearchModalOptions.modalTitle ?? '';
 		this.selectedApi = idSearchModalOptions.preselectedAPI || plugin.apiManager.apis[0].apiName;
-		this.query = '';
+		this.query = idSearchModalOptions.prefilledSearchString ?? '';
+		this.urlMode = idSearchModalOptions.urlMode ?? false;
 		this.isBusy = false;
+		this.bypassCache = false;
 	}
 
 	setSubmitCallback(submitCallback: (res: IdSearchModalData, err?: Error) => void): void {
@@ -45,11 +49,18 @@ export class MediaDbIdSearchModal extends Modal {
 
 	async search(): Promise<void> {
 		if (!this.query) {
-			new Notice('MDB | no Id entered');
+			new Notice(this.urlMode ? 'MDB | no url entered' : 'MDB | no Id entered');
 			return;
 		}
 
-		if (!this.selectedApi) {
+		// urls of supported sites are also recognized outside of the url mode, so the API does not have to be selected for them
+		const urlMatch = this.plugin.apiManager.getIdFromUrl(this.query);
+		if (this.urlMode && !urlMatch) {
+			new Notice('MDB | url is not from a supported site');
+			return;
+		}
+
+		if (!urlMatch && !this.selectedApi) {
 			new Notice('MDB | No API selected');
 			return;
 		}
@@ -59,7 +70,7 @@ export class MediaDbIdSearchModal extends Modal {
 			this.searchBtn?.setDisabled(false);
 			this.searchBtn?.setButtonText('Searching...');
 
-			this.submitCallback?.({ query: this.query, api: this.selectedApi });
+			this.submitCallback?.({ query: urlMatch?.id ?? this.query, api: urlMatch?.apiName ?? this.selectedApi, bypassCache: this.bypassCache });
 		}
 	}
 
@@ -68,10 +79,11 @@ export class MediaDbIdSearchModal extends Modal {
 
 		contentEl.createEl('h2', { text: this.title });
 
-		const placeholder = 'Search by id';
+		const placeholder = this.urlMode ? 'Paste the url of an entry' : 'Search by id';
 		const searchComponent = new TextComponent(contentEl);
 		searchComponent.inputEl.style.width = '100%';
 		searchComponent.setPlaceholder(placeholder);
+		searchComponent.setValue(this.query);
 		searchComponent.onChange(value => (this.query = value));
 		searchComponent.inputEl.addEventListener('keydown', this.keyPressCallback.bind(this));
 
@@ -80,21 +92,39 @@ export class MediaDbIdSearchModal extends Modal {
 
 		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
 
-		const apiSelectorWrapper = contentEl.createEl('div', { cls: 'media-db-plugin-list-wrapper' });
-		const apiSelectorTExtWrapper = apiSelectorWrapper.createEl('div', { cls: 'media-db-plugin-list-text-wrapper' });
-		apiSelectorTExtWrapper.createEl('span', { text: 'API to search', cls: 'media-db-plugin-list-text' });
-
-		const apiSelectorComponent = new DropdownComponent(apiSelectorWrapper);
-		apiSelectorComponent.onChange((value: string) => {
-			this.selectedApi = value;
-		});
-		for (const api of this.plugin.apiManager.apis) {
-			apiSelectorComponent.addOption(api.apiName, api.apiName);
+		if (this.urlMode) {
+			contentEl.createEl('span', {
+				text: `Supported sites: ${this.plugin.apiManager.apis
+					.filter(api => api.urlPatterns.length > 0)
+					.map(api => api.apiName)
+					.join(', ')}`,
+				cls: 'media-db-plugin-list-text',
+			});
+		} else {
+			const apiSelectorWrapper = contentEl.createEl('div', { cls: 'media-db-plugin-list-wrapper' });
+			const apiSelectorTExtWrapper = apiSelectorWrapper.createEl('div', { cls: 'media-db-plugin-list-text-wrapper' });
+			apiSelectorTExtWrapper.createEl('span', { text: 'API to search', cls: 'media-db-plugin-list-text' });
+
+			const apiSelectorComponent = new DropdownComponent(apiSelectorWrapper);
+			apiSelectorComponent.onChange((value: string) => {
+				this.selectedApi = value;
+			});
+			for (const api of this.plugin.apiManager.apis) {
+				apiSelectorComponent.addOption(api.apiName, api.apiName);
+			}
+			apiSelectorWrapper.appendChild(apiSelectorComponent.selectEl);
 		}
-		apiSelectorWrapper.appendChild(apiSelectorComponent.selectEl);
 
 		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
 
+		new Setting(contentEl)
+			.setName('Bypass cache')
+			.setDesc('Query the APIs even if there are cached results.')
+			.addToggle(cb => {
+				cb.setValue(this.bypassCache);
+				cb.onChange(value => (this.bypassCache = value));
+			});
+
 		new Setting(contentEl)
 			.addButton(btn => {
 				btn.setButtonText('Cancel');
@@ -0,0 +1,97 @@
+import type { App } from 'obsidian';
+import { Modal, Setting, TextComponent } from 'obsidian';
+import { FileSuggest } from '../settings/suggesters/FileSuggest';
+
+/**
+ * Options of the {@link MediaDbListImportModal}.
+ * - title: the title of the modal
+ * - description: explains where to get the export file from
+ * - username: the username to import the list of if no file is selected, the username field is only shown if this is set
+ * - usernameLabel: what the username is called on the site, `username` by default
+ */
+export interface ListImportModalOptions {
+	title: string;
+	description: string;
+	username?: string;
+	usernameLabel?: string;
+}
+
+export class MediaDbListImportModal extends Modal {
+	options: ListImportModalOptions;
+	onSubmit: (filePath: string, username: string) => Promise<void>;
+	filePath: string;
+	username: string;
+
+	constructor(app: App, options: ListImportModalOptions, onSubmit: (filePath: string, username: string) => Promise<void>) {
+		super(app);
+		this.options = options;
+		this.onSubmit = onSubmit;
+		this.filePath = '';
+		this.username = options.username ?? '';
+	}
+
+	submit(): void {
+		if (!this.filePath.trim() && !this.username.trim()) {
+			return;
+		}
+
+		void this.onSubmit(this.filePath.trim(), this.username.trim());
+		this.close();
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: this.options.title });
+		contentEl.createEl('p', { text: this.options.description });
+
+		contentEl.createEl('h3', { text: 'Export file in your vault' });
+
+		const fileComponent = new TextComponent(contentEl);
+		fileComponent.inputEl.style.width = '100%';
+		fileComponent.setPlaceholder('path/to/export');
+		fileComponent.onChange(value => (this.filePath = value));
+		new FileSuggest(this.app, fileComponent.inputEl);
+		contentEl.appendChild(fileComponent.inputEl);
+
+		if (this.options.username !== undefined) {
+			contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
+			const usernameLabel = this.options.usernameLabel ?? 'username';
+			contentEl.createEl('h3', { text: `Or the ${usernameLabel} to load the list of` });
+
+			const usernameComponent = new TextComponent(contentEl);
+			usernameComponent.inputEl.style.width = '100%';
+			usernameComponent.setPlaceholder(usernameLabel.charAt(0).toUpperCase() + usernameLabel.slice(1));
+			usernameComponent.setValue(this.username);
+			usernameComponent.onChange(value => (this.username = value));
+			usernameComponent.inputEl.addEventListener('keydown', ke => {
+				if (ke.key === 'Enter') {
+					this.submit();
+				}
+			});
+			contentEl.appendChild(usernameComponent.inputEl);
+		}
+
+		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
+
+		new Setting(contentEl)
+			.addButton(btn => {
+				btn.setButtonText('Cancel');
+				btn.onClick(() => this.close());
+				btn.buttonEl.addClass('media-db-plugin-button');
+			})
+			.addButton(btn => {
+				btn.setButtonText('Ok');
+				btn.setCta();
+				btn.onClick(() => {
+					this.submit();
+				});
+				btn.buttonEl.addClass('media-db-plugin-button');
+			});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,93 @@
+import type { App } from 'obsidian';
+import { Modal, Setting, TextComponent } from 'obsidian';
+import type { MediaTypeModel } from '../models/MediaTypeModel';
+import { capitalizeFirstLetter } from '../utils/Utils';
+
+export class MediaDbLogProgressModal extends Modal {
+	model: MediaTypeModel;
+	onSubmit: (progress: number, comment: string) => Promise<void>;
+	progress: string;
+	comment: string;
+
+	constructor(app: App, model: MediaTypeModel, onSubmit: (progress: number, comment: string) => Promise<void>) {
+		super(app);
+		this.model = model;
+		this.onSubmit = onSubmit;
+		// suggest the next episode, chapter or page
+		this.progress = model.getProgressUnit() ? String((model.progress ?? 0) + 1) : String(model.progressPercent ?? 0);
+		this.comment = '';
+	}
+
+	submit(): void {
+		const progress = Number(this.progress);
+		if (this.progress.trim() === '' || isNaN(progress) || progress < 0) {
+			return;
+		}
+
+		void this.onSubmit(progress, this.comment);
+		this.close();
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: `Log progress for "${this.model.title}"` });
+
+		const unit = this.model.getProgressUnit();
+		const total = this.model.getProgressTotal();
+		let label = 'Progress in percent';
+		if (unit) {
+			label = total > 0 ? `${capitalizeFirstLetter(unit)} (of ${total})` : capitalizeFirstLetter(unit);
+		}
+		contentEl.createEl('h3', { text: label });
+
+		const progressComponent = new TextComponent(contentEl);
+		progressComponent.inputEl.type = 'number';
+		progressComponent.inputEl.style.width = '100%';
+		progressComponent.setValue(this.progress);
+		progressComponent.onChange(value => (this.progress = value));
+		progressComponent.inputEl.addEventListener('keydown', ke => {
+			if (ke.key === 'Enter') {
+				this.submit();
+			}
+		});
+		contentEl.appendChild(progressComponent.inputEl);
+
+		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
+		contentEl.createEl('h3', { text: 'Comment for the progress log (optional)' });
+
+		const commentComponent = new TextComponent(contentEl);
+		commentComponent.inputEl.style.width = '100%';
+		commentComponent.onChange(value => (this.comment = value));
+		commentComponent.inputEl.addEventListener('keydown', ke => {
+			if (ke.key === 'Enter') {
+				this.submit();
+			}
+		});
+		contentEl.appendChild(commentComponent.inputEl);
+
+		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
+
+		new Setting(contentEl)
+			.addButton(btn => {
+				btn.setButtonText('Cancel');
+				btn.onClick(() => this.close());
+				btn.buttonEl.addClass('media-db-plugin-button');
+			})
+			.addButton(btn => {
+				btn.setButtonText('Ok');
+				btn.setCta();
+				btn.onClick(() => {
+					this.submit();
+				});
+				btn.buttonEl.addClass('media-db-plugin-button');
+			});
+
+		progressComponent.inputEl.focus();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
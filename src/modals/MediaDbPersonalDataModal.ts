@@ -0,0 +1,132 @@
+import type { App } from 'obsidian';
+import { DropdownComponent, Modal, Setting, TextComponent } from 'obsidian';
+import type { PersonalData } from '../utils/PersonalData';
+import { parseTags } from '../utils/PersonalData';
+
+export class MediaDbPersonalDataModal extends Modal {
+	title: string;
+	personalData: PersonalData;
+	statuses: string[];
+	ratingScale: number;
+	onSubmit: (personalData: PersonalData) => Promise<void>;
+
+	constructor(app: App, title: string, personalData: PersonalData, statuses: string[], ratingScale: number, onSubmit: (personalData: PersonalData) => Promise<void>) {
+		super(app);
+		this.title = title;
+		this.personalData = structuredClone(personalData);
+		this.statuses = statuses;
+		this.ratingScale = ratingScale;
+		this.onSubmit = onSubmit;
+	}
+
+	submit(): void {
+		void this.onSubmit(this.personalData);
+		this.close();
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: `Edit "${this.title}"` });
+
+		// rating
+		const ratingWrapper = contentEl.createEl('div', { cls: 'media-db-plugin-list-wrapper' });
+		const ratingTextWrapper = ratingWrapper.createEl('div', { cls: 'media-db-plugin-list-text-wrapper' });
+		ratingTextWrapper.createEl('span', { text: 'Rating', cls: 'media-db-plugin-list-text' });
+		const starsEl = ratingWrapper.createEl('div', { cls: 'media-db-plugin-rating' });
+		this.renderStars(starsEl);
+
+		// status
+		const statusWrapper = contentEl.createEl('div', { cls: 'media-db-plugin-list-wrapper' });
+		const statusTextWrapper = statusWrapper.createEl('div', { cls: 'media-db-plugin-list-text-wrapper' });
+		statusTextWrapper.createEl('span', { text: 'Status', cls: 'media-db-plugin-list-text' });
+
+		const statusComponent = new DropdownComponent(statusWrapper);
+		statusComponent.addOption('', 'None');
+		// keep a status that was set before it was removed from the settings
+		const statuses =
+			this.personalData.personalStatus && !this.statuses.includes(this.personalData.personalStatus) ? [...this.statuses, this.personalData.personalStatus] : this.statuses;
+		for (const status of statuses) {
+			statusComponent.addOption(status, status);
+		}
+		statusComponent.setValue(this.personalData.personalStatus ?? '');
+		statusComponent.onChange(value => (this.personalData.personalStatus = value || undefined));
+
+		// tags
+		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
+		contentEl.createEl('h3', { text: 'Tags' });
+
+		const tagsEl = contentEl.createEl('div', { cls: 'media-db-plugin-tags' });
+		this.renderTags(tagsEl);
+
+		const tagComponent = new TextComponent(contentEl);
+		tagComponent.inputEl.style.width = '100%';
+		tagComponent.setPlaceholder('Add tags, separated by commas');
+		tagComponent.inputEl.addEventListener('keydown', ke => {
+			if (ke.key !== 'Enter') {
+				return;
+			}
+			if (!tagComponent.getValue().trim()) {
+				this.submit();
+				return;
+			}
+			this.personalData.personalTags = parseTags([...this.personalData.personalTags, tagComponent.getValue()].join(','));
+			tagComponent.setValue('');
+			this.renderTags(tagsEl);
+		});
+		contentEl.appendChild(tagComponent.inputEl);
+
+		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
+
+		new Setting(contentEl)
+			.addButton(btn => {
+				btn.setButtonText('Cancel');
+				btn.onClick(() => this.close());
+				btn.buttonEl.addClass('media-db-plugin-button');
+			})
+			.addButton(btn => {
+				btn.setButtonText('Ok');
+				btn.setCta();
+				btn.onClick(() => {
+					// tags that were typed but not confirmed with enter are added as well
+					this.personalData.personalTags = parseTags([...this.personalData.personalTags, tagComponent.getValue()].join(','));
+					this.submit();
+				});
+				btn.buttonEl.addClass('media-db-plugin-button');
+			});
+	}
+
+	renderStars(starsEl: HTMLElement): void {
+		starsEl.empty();
+
+		const rating = this.personalData.personalRating ?? 0;
+		for (let i = 1; i <= this.ratingScale; i++) {
+			const starEl = starsEl.createEl('span', { text: i <= rating ? '★' : '☆', cls: 'media-db-plugin-rating-star' });
+			starEl.setAttribute('aria-label', `${i} of ${this.ratingScale}`);
+			starEl.addEventListener('click', () => {
+				// clicking the current rating again removes the rating
+				this.personalData.personalRating = this.personalData.personalRating === i ? undefined : i;
+				this.renderStars(starsEl);
+			});
+		}
+	}
+
+	renderTags(tagsEl: HTMLElement): void {
+		tagsEl.empty();
+
+		for (const tag of this.personalData.personalTags) {
+			const tagEl = tagsEl.createEl('span', { text: tag, cls: 'media-db-plugin-tag' });
+			const removeEl = tagEl.createEl('span', { text: '×', cls: 'media-db-plugin-tag-remove' });
+			removeEl.setAttribute('aria-label', `Remove ${tag}`);
+			removeEl.addEventListener('click', () => {
+				this.personalData.personalTags = this.personalData.personalTags.filter(x => x !== tag);
+				this.renderTags(tagsEl);
+			});
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -47,6 +47,12 @@ export class MediaDbPreviewModal extends Modal {
 
 		for (const result of this.elements) {
 			previewWrapper.createEl('h3', { text: result.englishTitle });
+
+			const duplicates = this.plugin.vaultIndex.findDuplicates(result);
+			if (duplicates.length > 0) {
+				previewWrapper.createEl('p', { text: `Already in vault: ${duplicates.map(x => x.entry.file.path).join(', ')}`, cls: 'media-db-plugin-duplicate' });
+			}
+
 			const fileDiv = previewWrapper.createDiv({ cls: 'media-db-plugin-preview' });
 
 			let fileContent = this.plugin.generateMediaDbNoteFrontmatterPreview(result);
@@ -0,0 +1,70 @@
+import type { App } from 'obsidian';
+import { Modal, Setting } from 'obsidian';
+
+export class MediaDbProgressModal extends Modal {
+	title: string;
+	total: number;
+	done: number;
+	message: string;
+	canceled: boolean;
+	finished: boolean;
+
+	progressEl?: HTMLProgressElement;
+	messageEl?: HTMLElement;
+
+	constructor(app: App, title: string, total: number) {
+		super(app);
+		this.title = title;
+		this.total = total;
+		this.done = 0;
+		this.message = '';
+		this.canceled = false;
+		this.finished = false;
+	}
+
+	setProgress(done: number, message: string): void {
+		this.done = done;
+		this.message = message;
+
+		if (this.progressEl) {
+			this.progressEl.value = done;
+		}
+		this.messageEl?.setText(`${done}/${this.total} - ${message}`);
+	}
+
+	/**
+	 * Closes the modal without marking the operation as canceled.
+	 */
+	finish(): void {
+		this.finished = true;
+		this.close();
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: this.title });
+
+		this.progressEl = contentEl.createEl('progress', { cls: 'media-db-plugin-progress' });
+		this.progressEl.max = Math.max(this.total, 1);
+		this.progressEl.value = this.done;
+
+		this.messageEl = contentEl.createEl('p', { text: `${this.done}/${this.total}` });
+
+		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
+
+		new Setting(contentEl).addButton(btn => {
+			btn.setButtonText('Cancel');
+			btn.onClick(() => this.close());
+			btn.buttonEl.addClass('media-db-plugin-button');
+		});
+	}
+
+	onClose(): void {
+		if (!this.finished) {
+			this.canceled = true;
+		}
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
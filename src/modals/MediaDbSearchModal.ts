@@ -13,6 +13,7 @@ export class MediaDbSearchModal extends Modal {
 
 	query: string;
 	isBusy: boolean;
+	bypassCache: boolean;
 	title: string;
 	selectedTypes: MediaType[];
 
@@ -30,6 +31,7 @@ export class MediaDbSearchModal extends Modal {
 		this.title = searchModalOptions.modalTitle ?? '';
 		this.query = searchModalOptions.prefilledSearchString ?? '';
 		this.isBusy = false;
+		this.bypassCache = false;
 	}
 
 	setSubmitCallback(submitCallback: (res: SearchModalData) => void): void {
@@ -64,7 +66,7 @@ export class MediaDbSearchModal extends Modal {
 			this.searchBtn?.setDisabled(false);
 			this.searchBtn?.setButtonText('Searching...');
 
-			this.submitCallback?.({ query: this.query, types: types });
+			this.submitCallback?.({ query: this.query, types: types, bypassCache: this.bypassCache });
 		}
 	}
 
@@ -121,6 +123,14 @@ export class MediaDbSearchModal extends Modal {
 
 		contentEl.createDiv({ cls: 'media-db-plugin-spacer' });
 
+		new Setting(contentEl)
+			.setName('Bypass cache')
+			.setDesc('Query the APIs even if there are cached results.')
+			.addToggle(cb => {
+				cb.setValue(this.bypassCache);
+				cb.onChange(value => (this.bypassCache = value));
+			});
+
 		new Setting(contentEl)
 			.addButton(btn => {
 				btn.setButtonText('Cancel');
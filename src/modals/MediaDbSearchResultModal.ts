@@ -45,6 +45,9 @@ export class MediaDbSearchResultModal extends SelectModal<MediaTypeModel> {
 		el.createEl('div', { text: this.plugin.mediaTypeManager.getFileName(item) });
 		el.createEl('small', { text: `${item.getSummary()}\n` });
 		el.createEl('small', { text: `${item.type.toUpperCase() + (item.subType ? ` (${item.subType})` : '')} from ${item.dataSource}` });
+		if (this.plugin.vaultIndex.findDuplicates(item).length > 0) {
+			el.createEl('small', { text: 'Already in vault', cls: 'media-db-plugin-duplicate' });
+		}
 	}
 
 	// Perform action on the selected suggestion.
@@ -0,0 +1,64 @@
+import { MediaType } from '../utils/MediaType';
+import type { ModelToData } from '../utils/Utils';
+import { mediaDbTag, migrateObject } from '../utils/Utils';
+import { MediaTypeModel } from './MediaTypeModel';
+
+export type AudiobookData = ModelToData<AudiobookModel>;
+
+export class AudiobookModel extends MediaTypeModel {
+	plot: string;
+	genres: string[];
+	author: string;
+	narrator: string[];
+	publisher: string;
+	image: string;
+
+	released: boolean;
+	releaseDate: string;
+
+	userData: {
+		listened: boolean;
+		lastListened: string;
+		personalRating: number;
+	};
+
+	constructor(obj: AudiobookData) {
+		super();
+
+		this.plot = '';
+		this.genres = [];
+		this.author = '';
+		this.narrator = [];
+		this.publisher = '';
+		this.image = '';
+
+		this.released = false;
+		this.releaseDate = '';
+
+		this.userData = {
+			listened: false,
+			lastListened: '',
+			personalRating: 0,
+		};
+
+		migrateObject(this, obj, this);
+
+		if (!obj.hasOwnProperty('userData')) {
+			migrateObject(this.userData, obj, this.userData);
+		}
+
+		this.type = this.getMediaType();
+	}
+
+	getTags(): string[] {
+		return [mediaDbTag, 'audiobook'];
+	}
+
+	getMediaType(): MediaType {
+		return MediaType.Audiobook;
+	}
+
+	getSummary(): string {
+		return this.englishTitle + ' (' + this.year + ') - ' + this.author;
+	}
+}
@@ -11,8 +11,11 @@ export class BookModel extends MediaTypeModel {
 	pages: number;
 	image: string;
 	onlineRating: number;
-	isbn: number;
-	isbn13: number;
+	isbn: string;
+	isbn13: string;
+	publisher: string;
+	language: string;
+	categories: string[];
 
 	released: boolean;
 
@@ -30,8 +33,11 @@ export class BookModel extends MediaTypeModel {
 		this.pages = 0;
 		this.image = '';
 		this.onlineRating = 0;
-		this.isbn = 0;
-		this.isbn13 = 0;
+		this.isbn = '';
+		this.isbn13 = '';
+		this.publisher = '';
+		this.language = '';
+		this.categories = [];
 
 		this.released = false;
 
@@ -58,6 +64,14 @@ export class BookModel extends MediaTypeModel {
 		return MediaType.Book;
 	}
 
+	override getProgressUnit(): string {
+		return 'page';
+	}
+
+	override getProgressTotal(): number {
+		return this.pages;
+	}
+
 	getSummary(): string {
 		return this.englishTitle + ' (' + this.year + ') - ' + this.author;
 	}
@@ -14,6 +14,8 @@ export class ComicMangaModel extends MediaTypeModel {
 	volumes: number;
 	onlineRating: number;
 	image: string;
+	prequels: string[];
+	sequels: string[];
 
 	released: boolean;
 	status: string;
@@ -38,6 +40,8 @@ export class ComicMangaModel extends MediaTypeModel {
 		this.volumes = 0;
 		this.onlineRating = 0;
 		this.image = '';
+		this.prequels = [];
+		this.sequels = [];
 
 		this.released = false;
 		this.status = '';
@@ -68,6 +72,14 @@ export class ComicMangaModel extends MediaTypeModel {
 		return MediaType.ComicManga;
 	}
 
+	override getProgressUnit(): string {
+		return 'chapter';
+	}
+
+	override getProgressTotal(): number {
+		return this.chapters;
+	}
+
 	getSummary(): string {
 		return this.title + ' (' + this.year + ')';
 	}
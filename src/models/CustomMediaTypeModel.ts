@@ -0,0 +1,37 @@
+import { mediaDbTag, migrateObject } from '../utils/Utils';
+import { MediaTypeModel } from './MediaTypeModel';
+
+/**
+ * The model for media types defined by the user in the settings.
+ * Besides the fields every entry has, it only has the fields the user listed for the type, all of them default to an empty string.
+ */
+export class CustomMediaTypeModel extends MediaTypeModel {
+	userData: Record<string, unknown>;
+
+	constructor(type: string, fields: string[], obj: object) {
+		super();
+
+		for (const field of fields) {
+			if (!(field in this)) {
+				(this as unknown as Record<string, unknown>)[field] = '';
+			}
+		}
+		this.userData = {};
+
+		migrateObject(this, obj, this);
+
+		this.type = type;
+	}
+
+	getTags(): string[] {
+		return [mediaDbTag, this.type];
+	}
+
+	getMediaType(): string {
+		return this.type;
+	}
+
+	getSummary(): string {
+		return this.year ? `${this.title} (${this.year})` : this.title;
+	}
+}
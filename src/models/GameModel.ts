@@ -18,6 +18,8 @@ export class GameModel extends MediaTypeModel {
 	description?: string;
 	released?: boolean;
 	releaseDate: string;
+	platformReleaseDates?: string[];
+	franchises?: string[];
 	apiTags?: string[];
 	director?: string[];
 	producer?: string[];
@@ -34,6 +36,8 @@ export class GameModel extends MediaTypeModel {
 		personalRating: number;
 		personalStatus?: string;
 		personalTags?: string[];
+		playtime?: number;
+		lastPlayed?: string;
 	};
 
 	constructor(obj: Partial<GameData>) {
@@ -51,6 +55,8 @@ export class GameModel extends MediaTypeModel {
 		this.description = '';
 		this.released = false;
 		this.releaseDate = '';
+		this.platformReleaseDates = [];
+		this.franchises = [];
 		this.apiTags = [];
 		this.director = [];
 		this.producer = [];
@@ -67,6 +73,8 @@ export class GameModel extends MediaTypeModel {
 			personalRating: 0,
 			personalStatus: undefined,
 			personalTags: undefined,
+			playtime: undefined,
+			lastPlayed: undefined,
 		};
 
 		migrateObject(this, obj, this);
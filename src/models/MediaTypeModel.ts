@@ -1,4 +1,9 @@
-import type { MediaType } from '../utils/MediaType';
+import { PERSONAL_DATA_PROPERTIES } from '../utils/PersonalData';
+
+/**
+ * The properties that track the progress of the user, see {@link MediaTypeModel.setProgress}.
+ */
+export const PROGRESS_PROPERTIES = ['progress', 'progressPercent', 'started', 'finished'] as const;
 
 export abstract class MediaTypeModel {
 	type: string;
@@ -18,6 +23,14 @@ export abstract class MediaTypeModel {
 	personalStatus?: string;
 	personalTags?: string[];
 
+	/**
+	 * How far the user got, counted in the unit of {@link getProgressUnit}, e.g. the current episode.
+	 */
+	progress?: number;
+	progressPercent?: number;
+	started?: string;
+	finished?: string;
+
 	protected constructor() {
 		this.type = '';
 		this.subType = '';
@@ -33,22 +46,122 @@ export abstract class MediaTypeModel {
 		this.personalRating = undefined;
 		this.personalStatus = undefined;
 		this.personalTags = undefined;
+		this.progress = undefined;
+		this.progressPercent = undefined;
+		this.started = undefined;
+		this.finished = undefined;
 	}
 
-	abstract getMediaType(): MediaType;
+	/**
+	 * Returns the media type, for custom media types this is the type defined in the settings.
+	 */
+	abstract getMediaType(): string;
 
 	//a string that contains enough info to disambiguate from similar media
 	abstract getSummary(): string;
 
 	abstract getTags(): string[];
 
+	/**
+	 * The unit progress is counted in, e.g. `episode`. Media without a unit only track their progress in percent.
+	 */
+	getProgressUnit(): string {
+		return '';
+	}
+
+	/**
+	 * How many units the media has in total, or 0 if that is unknown.
+	 */
+	getProgressTotal(): number {
+		return 0;
+	}
+
+	/**
+	 * Sets the progress of the user and marks the media as finished once the progress reaches 100%.
+	 *
+	 * @param progress the progress in units, or in percent for media without a unit
+	 * @param date the formatted date of today, used as the start date if the media has not been started yet
+	 */
+	setProgress(progress: number, date: string): void {
+		this.started = this.started || date;
+
+		if (this.getProgressUnit()) {
+			const total = this.getProgressTotal();
+			this.progress = progress;
+			if (total > 0) {
+				this.progressPercent = Math.min(100, Math.round((progress / total) * 100));
+			}
+		} else {
+			this.progressPercent = Math.min(100, progress);
+		}
+
+		if (this.progressPercent !== undefined && this.progressPercent >= 100) {
+			this.markFinished(date);
+		}
+	}
+
+	/**
+	 * Marks the media as finished, including the watched, read, played or listened flag of the user data, if the media type has one.
+	 *
+	 * @param date the formatted date of today
+	 */
+	markFinished(date: string): void {
+		this.started = this.started || date;
+		this.finished = date;
+		this.progressPercent = 100;
+		if (this.getProgressUnit() && this.getProgressTotal() > 0) {
+			this.progress = this.getProgressTotal();
+		}
+
+		const userData = this.userData as Record<string, unknown>;
+		for (const key of ['watched', 'read', 'played', 'listened']) {
+			if (key in userData) {
+				userData[key] = true;
+			}
+		}
+		for (const key of ['lastWatched', 'lastRead', 'lastListened']) {
+			if (key in userData) {
+				userData[key] = date;
+			}
+		}
+	}
+
+	/**
+	 * Returns the progress properties of the model.
+	 */
+	getProgressData(): Record<string, unknown> {
+		const progressData: Record<string, unknown> = {};
+		for (const property of PROGRESS_PROPERTIES) {
+			progressData[property] = this[property];
+		}
+		return progressData;
+	}
+
+	/**
+	 * Returns the rating, status and tags the user gave the entry.
+	 */
+	getPersonalData(): Record<string, unknown> {
+		const personalData: Record<string, unknown> = {};
+		for (const property of PERSONAL_DATA_PROPERTIES) {
+			personalData[property] = this[property];
+		}
+		return personalData;
+	}
+
 	toMetaDataObject(): Record<string, unknown> {
-		return { ...this.getWithOutUserData(), ...this.userData, tags: this.getTags().join('/') };
+		return { ...this.getWithOutUserData(), ...this.getPersonalData(), ...this.userData, ...this.getProgressData(), tags: this.getTags().join('/') };
 	}
 
+	/**
+	 * Returns a copy of the model without the data of the user, that is the user data, the personal rating, status and tags and the progress.
+	 * This is what is copied from the API into the model of a note when it is updated, so the data of the user in the note is kept.
+	 */
 	getWithOutUserData(): Record<string, unknown> {
 		const copy = structuredClone(this) as Record<string, unknown>;
 		delete copy.userData;
+		for (const property of [...PERSONAL_DATA_PROPERTIES, ...PROGRESS_PROPERTIES]) {
+			delete copy[property];
+		}
 		return copy;
 	}
 }
@@ -7,6 +7,7 @@ export type MovieData = ModelToData<MovieModel>;
 
 export class MovieModel extends MediaTypeModel {
 	plot: string;
+	alternateTitles: string[];
 	genres: string[];
 	director: string[];
 	writer: string[];
@@ -15,6 +16,9 @@ export class MovieModel extends MediaTypeModel {
 	onlineRating: number;
 	actors: string[];
 	image: string;
+	backdrop: string;
+	prequels: string[];
+	sequels: string[];
 
 	released: boolean;
 	streamingServices: string[];
@@ -30,6 +34,7 @@ export class MovieModel extends MediaTypeModel {
 		super();
 
 		this.plot = '';
+		this.alternateTitles = [];
 		this.genres = [];
 		this.director = [];
 		this.writer = [];
@@ -38,6 +43,9 @@ export class MovieModel extends MediaTypeModel {
 		this.onlineRating = 0;
 		this.actors = [];
 		this.image = '';
+		this.backdrop = '';
+		this.prequels = [];
+		this.sequels = [];
 
 		this.released = false;
 		this.streamingServices = [];
@@ -0,0 +1,74 @@
+import { MediaType } from '../utils/MediaType';
+import type { ModelToData } from '../utils/Utils';
+import { mediaDbTag, migrateObject } from '../utils/Utils';
+import { MediaTypeModel } from './MediaTypeModel';
+
+export type PodcastData = ModelToData<PodcastModel>;
+
+export class PodcastModel extends MediaTypeModel {
+	plot: string;
+	genres: string[];
+	hosts: string[];
+	feedUrl: string;
+	episodes: number;
+	image: string;
+
+	released: boolean;
+	latestEpisode: string;
+
+	userData: {
+		listened: boolean;
+		lastListened: string;
+		personalRating: number;
+	};
+
+	constructor(obj: PodcastData) {
+		super();
+
+		this.plot = '';
+		this.genres = [];
+		this.hosts = [];
+		this.feedUrl = '';
+		this.episodes = 0;
+		this.image = '';
+
+		this.released = false;
+		this.latestEpisode = '';
+
+		this.userData = {
+			listened: false,
+			lastListened: '',
+			personalRating: 0,
+		};
+
+		migrateObject(this, obj, this);
+
+		if (!obj.hasOwnProperty('userData')) {
+			migrateObject(this.userData, obj, this.userData);
+		}
+
+		this.type = this.getMediaType();
+	}
+
+	getTags(): string[] {
+		return [mediaDbTag, 'podcast'];
+	}
+
+	getMediaType(): MediaType {
+		return MediaType.Podcast;
+	}
+
+	override getProgressUnit(): string {
+		return 'episode';
+	}
+
+	override getProgressTotal(): number {
+		return this.episodes;
+	}
+
+	getSummary(): string {
+		let summary = this.title + ' (' + this.year + ')';
+		if (this.hosts.length > 0) summary += ' - ' + this.hosts.join(', ');
+		return summary;
+	}
+}
@@ -7,14 +7,19 @@ export type SeriesData = ModelToData<SeriesModel>;
 
 export class SeriesModel extends MediaTypeModel {
 	plot: string;
+	alternateTitles: string[];
 	genres: string[];
 	writer: string[];
 	studio: string[];
+	networks: string[];
 	episodes: number;
 	duration: string;
 	onlineRating: number;
 	actors: string[];
 	image: string;
+	backdrop: string;
+	prequels: string[];
+	sequels: string[];
 
 	released: boolean;
 	streamingServices: string[];
@@ -32,14 +37,19 @@ export class SeriesModel extends MediaTypeModel {
 		super();
 
 		this.plot = '';
+		this.alternateTitles = [];
 		this.genres = [];
 		this.writer = [];
 		this.studio = [];
+		this.networks = [];
 		this.episodes = 0;
 		this.duration = '';
 		this.onlineRating = 0;
 		this.actors = [];
 		this.image = '';
+		this.backdrop = '';
+		this.prequels = [];
+		this.sequels = [];
 
 		this.released = false;
 		this.streamingServices = [];
@@ -70,6 +80,14 @@ export class SeriesModel extends MediaTypeModel {
 		return MediaType.Series;
 	}
 
+	override getProgressUnit(): string {
+		return 'episode';
+	}
+
+	override getProgressTotal(): number {
+		return this.episodes;
+	}
+
 	getSummary(): string {
 		return this.title + ' (' + this.year + ')';
 	}
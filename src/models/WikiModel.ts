@@ -40,8 +40,7 @@ export class WikiModel extends MediaTypeModel {
 	}
 
 	override getWithOutUserData(): Record<string, unknown> {
-		const copy = structuredClone(this) as Record<string, unknown>;
-		delete copy.userData;
+		const copy = super.getWithOutUserData();
 		delete copy.article;
 		return copy;
 	}
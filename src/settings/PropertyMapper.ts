@@ -1,5 +1,4 @@
 import type MediaDbPlugin from '../main';
-import { MEDIA_TYPES } from '../utils/MediaTypeManager';
 import { PropertyMappingOption } from './PropertyMapping';
 
 export class PropertyMapper {
@@ -22,7 +21,7 @@ export class PropertyMapper {
 
 		// console.log(obj.type);
 
-		if (MEDIA_TYPES.filter(x => x.toString() == obj.type).length < 1) {
+		if (typeof obj.type !== 'string' || !this.plugin.mediaTypeManager.hasMediaType(obj.type)) {
 			return obj;
 		}
 
@@ -66,7 +65,7 @@ export class PropertyMapper {
 			obj.type = 'comicManga';
 			console.debug(`MDB | updated metadata type`, obj.type);
 		}
-		if (MEDIA_TYPES.contains(obj.type as any)) {
+		if (typeof obj.type !== 'string' || !this.plugin.mediaTypeManager.hasMediaType(obj.type)) {
 			return obj;
 		}
 
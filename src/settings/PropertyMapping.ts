@@ -1,4 +1,3 @@
-import type { MediaType } from '../utils/MediaType';
 import { containsOnlyLettersAndUnderscores, PropertyMappingNameConflictError, PropertyMappingValidationError } from '../utils/Utils';
 
 export enum PropertyMappingOption {
@@ -10,10 +9,10 @@ export enum PropertyMappingOption {
 export const propertyMappingOptions = [PropertyMappingOption.Default, PropertyMappingOption.Map, PropertyMappingOption.Remove];
 
 export class PropertyMappingModel {
-	type: MediaType;
+	type: string;
 	properties: PropertyMapping[];
 
-	constructor(type: MediaType, properties?: PropertyMapping[]) {
+	constructor(type: string, properties?: PropertyMapping[]) {
 		this.type = type;
 		this.properties = properties ?? [];
 	}
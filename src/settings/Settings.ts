@@ -3,8 +3,12 @@ import { Notice, PluginSettingTab, Setting } from 'obsidian';
 import { mount } from 'svelte';
 import type MediaDbPlugin from '../main';
 import type { MediaTypeModel } from '../models/MediaTypeModel';
-import { MEDIA_TYPES } from '../utils/MediaTypeManager';
-import { fragWithHTML } from '../utils/Utils';
+import { BangumiSyncConflictPolicy, bangumiSyncConflictPolicies, bangumiSyncConflictPolicyNames } from '../utils/BangumiCollection';
+import { DEFAULT_MAL_LIST_BASE_URL } from '../utils/MALImport';
+import type { CustomMediaType, MediaTypeSettings } from '../utils/MediaTypeDefinition';
+import { MetadataMergePolicy, metadataMergePolicies, metadataMergePolicyNames, parseMetadataMergeRules } from '../utils/MetadataMerge';
+import { DEFAULT_PERSONAL_STATUSES } from '../utils/PersonalData';
+import { containsOnlyLettersAndUnderscores, fragWithHTML, unCamelCase } from '../utils/Utils';
 import { PropertyMapping, PropertyMappingModel, PropertyMappingOption } from './PropertyMapping';
 import PropertyMappingModelsComponent from './PropertyMappingModelsComponent.svelte';
 import { FileSuggest } from './suggesters/FileSuggest';
@@ -12,18 +16,35 @@ import { FolderSuggest } from './suggesters/FolderSuggest';
 
 export interface MediaDbPluginSettings {
 	OMDbKey: string;
+	TMDBKey: string;
+	TMDBWatchRegion: string;
 	MobyGamesKey: string;
 	GiantBombKey: string;
 	ComicVineKey: string;
+	IGDBClientId: string;
+	IGDBClientSecret: string;
+	GoogleBooksKey: string;
+	iTunesApiUrl: string;
+	malUsername: string;
+	malListBaseUrl: string;
+	SteamKey: string;
+	steamId: string;
 	bangumiAccessToken: string;
 	bangumiUserId: string;
 	bangumiProxyUrl: string;
+	bangumiSyncConflictPolicy: BangumiSyncConflictPolicy;
 	sfwFilter: boolean;
 	templates: boolean;
 	customDateFormat: string;
 	openNoteInNewTab: boolean;
 	useDefaultFrontMatter: boolean;
 	enableTemplaterIntegration: boolean;
+	metadataMergePolicy: MetadataMergePolicy;
+	metadataMergeRules: string;
+	personalStatuses: string[];
+	personalRatingScale: number;
+	apiCacheEnabled: boolean;
+	apiCacheTtls: Record<string, number>;
 	// TODO: disabled for now, as i currently don't have the time to fix this from the original PR that introduced it (#133)
 	// apiToggle: {
 	// 	OMDbAPI: {
@@ -42,59 +63,43 @@ export interface MediaDbPluginSettings {
 	// 		game: boolean;
 	// 	};
 	// };
-	movieTemplate: string;
-	seriesTemplate: string;
-	mangaTemplate: string;
-	gameTemplate: string;
-	wikiTemplate: string;
-	musicReleaseTemplate: string;
-	boardgameTemplate: string;
-	bookTemplate: string;
-
-	movieFileNameTemplate: string;
-	seriesFileNameTemplate: string;
-	mangaFileNameTemplate: string;
-	gameFileNameTemplate: string;
-	wikiFileNameTemplate: string;
-	musicReleaseFileNameTemplate: string;
-	boardgameFileNameTemplate: string;
-	bookFileNameTemplate: string;
-
-	moviePropertyConversionRules: string;
-	seriesPropertyConversionRules: string;
-	mangaPropertyConversionRules: string;
-	gamePropertyConversionRules: string;
-	wikiPropertyConversionRules: string;
-	musicReleasePropertyConversionRules: string;
-	boardgamePropertyConversionRules: string;
-	bookPropertyConversionRules: string;
-
-	movieFolder: string;
-	seriesFolder: string;
-	mangaFolder: string;
-	gameFolder: string;
-	wikiFolder: string;
-	musicReleaseFolder: string;
-	boardgameFolder: string;
-	bookFolder: string;
+	mediaTypeSettings: Record<string, MediaTypeSettings>;
+	customMediaTypes: CustomMediaType[];
 
 	propertyMappingModels: PropertyMappingModel[];
 }
 
 const DEFAULT_SETTINGS: MediaDbPluginSettings = {
 	OMDbKey: '',
+	TMDBKey: '',
+	TMDBWatchRegion: 'US',
 	MobyGamesKey: '',
 	GiantBombKey: '',
 	ComicVineKey: '',
+	IGDBClientId: '',
+	IGDBClientSecret: '',
+	GoogleBooksKey: '',
+	iTunesApiUrl: '',
+	malUsername: '',
+	malListBaseUrl: '',
+	SteamKey: '',
+	steamId: '',
 	bangumiAccessToken: '',
 	bangumiUserId: '',
 	bangumiProxyUrl: '',
+	bangumiSyncConflictPolicy: BangumiSyncConflictPolicy.Note,
 	sfwFilter: true,
 	templates: true,
 	customDateFormat: 'L',
 	openNoteInNewTab: true,
 	useDefaultFrontMatter: true,
 	enableTemplaterIntegration: false,
+	metadataMergePolicy: MetadataMergePolicy.ApiWins,
+	metadataMergeRules: '',
+	personalStatuses: DEFAULT_PERSONAL_STATUSES,
+	personalRatingScale: 5,
+	apiCacheEnabled: true,
+	apiCacheTtls: {},
 	// apiToggle: {
 	// 	OMDbAPI: {
 	// 		movie: true,
@@ -112,59 +117,46 @@ const DEFAULT_SETTINGS: MediaDbPluginSettings = {
 	// 		game: true,
 	// 	},
 	// },
-	movieTemplate: '',
-	seriesTemplate: '',
-	mangaTemplate: '',
-	gameTemplate: '',
-	wikiTemplate: '',
-	musicReleaseTemplate: '',
-	boardgameTemplate: '',
-	bookTemplate: '',
-
-	movieFileNameTemplate: '{{ title }} ({{ year }})',
-	seriesFileNameTemplate: '{{ title }} ({{ year }})',
-	mangaFileNameTemplate: '{{ title }} ({{ year }})',
-	gameFileNameTemplate: '{{ title }} ({{ year }})',
-	wikiFileNameTemplate: '{{ title }}',
-	musicReleaseFileNameTemplate: '{{ title }} (by {{ ENUM:artists }} - {{ year }})',
-	boardgameFileNameTemplate: '{{ title }} ({{ year }})',
-	bookFileNameTemplate: '{{ title }} ({{ year }})',
-
-	moviePropertyConversionRules: '',
-	seriesPropertyConversionRules: '',
-	mangaPropertyConversionRules: '',
-	gamePropertyConversionRules: '',
-	wikiPropertyConversionRules: '',
-	musicReleasePropertyConversionRules: '',
-	boardgamePropertyConversionRules: '',
-	bookPropertyConversionRules: '',
-
-	movieFolder: 'Media DB/movies',
-	seriesFolder: 'Media DB/series',
-	mangaFolder: 'Media DB/comics',
-	gameFolder: 'Media DB/games',
-	wikiFolder: 'Media DB/wiki',
-	musicReleaseFolder: 'Media DB/music',
-	boardgameFolder: 'Media DB/boardgames',
-	bookFolder: 'Media DB/books',
+	mediaTypeSettings: {},
+	customMediaTypes: [],
 
 	propertyMappingModels: [],
 };
 
 export const lockedPropertyMappings: string[] = ['type', 'id', 'dataSource'];
 
+/**
+ * Fields every entry has, so they can not be used as fields of custom media types.
+ */
+const reservedCustomMediaTypeFields: string[] = ['type', 'subType', 'title', 'englishTitle', 'year', 'dataSource', 'url', 'id', 'userData', 'tags'];
+
 export function getDefaultSettings(plugin: MediaDbPlugin): MediaDbPluginSettings {
 	const defaultSettings = DEFAULT_SETTINGS;
 
-	// construct property mapping defaults
+	const mediaTypeSettings: Record<string, MediaTypeSettings> = {};
+	for (const definition of plugin.mediaTypeManager.getMediaTypeDefinitions()) {
+		mediaTypeSettings[definition.type] = { ...definition.defaultSettings };
+	}
+
+	defaultSettings.mediaTypeSettings = mediaTypeSettings;
+	defaultSettings.propertyMappingModels = getDefaultPropertyMappingModels(plugin);
+	return defaultSettings;
+}
+
+/**
+ * Constructs the default property mappings of all registered media types from the metadata of an empty model of each type.
+ *
+ * @param plugin
+ */
+export function getDefaultPropertyMappingModels(plugin: MediaDbPlugin): PropertyMappingModel[] {
 	const propertyMappingModels: PropertyMappingModel[] = [];
-	for (const mediaType of MEDIA_TYPES) {
-		const model: MediaTypeModel = plugin.mediaTypeManager.createMediaTypeModelFromMediaType({}, mediaType);
+	for (const definition of plugin.mediaTypeManager.getMediaTypeDefinitions()) {
+		const model: MediaTypeModel = definition.createModel({});
 		const metadataObj = model.toMetaDataObject();
 		// console.log(metadataObj);
 		// console.log(model);
 
-		const propertyMappingModel: PropertyMappingModel = new PropertyMappingModel(mediaType);
+		const propertyMappingModel: PropertyMappingModel = new PropertyMappingModel(definition.type);
 
 		for (const key of Object.keys(metadataObj)) {
 			propertyMappingModel.properties.push(new PropertyMapping(key, '', PropertyMappingOption.Default, lockedPropertyMappings.contains(key)));
@@ -173,8 +165,7 @@ export function getDefaultSettings(plugin: MediaDbPlugin): MediaDbPluginSettings
 		propertyMappingModels.push(propertyMappingModel);
 	}
 
-	defaultSettings.propertyMappingModels = propertyMappingModels;
-	return defaultSettings;
+	return propertyMappingModels;
 }
 
 export class MediaDbSettingTab extends PluginSettingTab {
@@ -202,6 +193,30 @@ export class MediaDbSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName('TMDB API key')
+			.setDesc('API key for "www.themoviedb.org".')
+			.addText(cb => {
+				cb.setPlaceholder('API key')
+					.setValue(this.plugin.settings.TMDBKey)
+					.onChange(data => {
+						this.plugin.settings.TMDBKey = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('TMDB watch region')
+			.setDesc('The country the streaming services of movies and series from TMDB are listed for, as a two letter country code, e.g. "US" or "DE".')
+			.addText(cb => {
+				cb.setPlaceholder('US')
+					.setValue(this.plugin.settings.TMDBWatchRegion)
+					.onChange(data => {
+						this.plugin.settings.TMDBWatchRegion = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName('Moby Games key')
 			.setDesc('API key for "www.mobygames.com".')
@@ -237,6 +252,102 @@ export class MediaDbSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName('IGDB client ID')
+			.setDesc(fragWithHTML('Client ID of a <a href="https://dev.twitch.tv/console/apps" target="_blank">Twitch application</a>, used to access "www.igdb.com".'))
+			.addText(cb => {
+				cb.setPlaceholder('Client ID')
+					.setValue(this.plugin.settings.IGDBClientId)
+					.onChange(data => {
+						this.plugin.settings.IGDBClientId = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('IGDB client secret')
+			.setDesc('Client secret of the same Twitch application. Keep this private.')
+			.addText(cb => {
+				cb.setPlaceholder('Client secret')
+					.setValue(this.plugin.settings.IGDBClientSecret)
+					.onChange(data => {
+						this.plugin.settings.IGDBClientSecret = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Google Books key')
+			.setDesc('Optional API key for "books.google.com". Without a key all users share a smaller request quota.')
+			.addText(cb => {
+				cb.setPlaceholder('API key')
+					.setValue(this.plugin.settings.GoogleBooksKey)
+					.onChange(data => {
+						this.plugin.settings.GoogleBooksKey = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('iTunes API URL')
+			.setDesc('Base URL of the API used for podcasts and audiobooks. Only change this if you want to use a mirror or a local server that serves the same API as "itunes.apple.com".')
+			.addText(cb => {
+				cb.setPlaceholder('https://itunes.apple.com')
+					.setValue(this.plugin.settings.iTunesApiUrl)
+					.onChange(data => {
+						this.plugin.settings.iTunesApiUrl = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('MyAnimeList username')
+			.setDesc('The user whose anime and manga lists are imported by the "Import MyAnimeList list" command, if no export file is selected.')
+			.addText(cb => {
+				cb.setPlaceholder('Username')
+					.setValue(this.plugin.settings.malUsername)
+					.onChange(data => {
+						this.plugin.settings.malUsername = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('MyAnimeList list URL')
+			.setDesc('Base URL the lists of MyAnimeList users are loaded from. Only change this if you want to use a proxy that serves the same list endpoint as "myanimelist.net".')
+			.addText(cb => {
+				cb.setPlaceholder(DEFAULT_MAL_LIST_BASE_URL)
+					.setValue(this.plugin.settings.malListBaseUrl)
+					.onChange(data => {
+						this.plugin.settings.malListBaseUrl = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Steam key')
+			.setDesc(fragWithHTML('Steam Web API key from <a href="https://steamcommunity.com/dev/apikey" target="_blank">steamcommunity.com</a>, used to load the owned games of a Steam account. Keep this private.'))
+			.addText(cb => {
+				cb.setPlaceholder('API key')
+					.setValue(this.plugin.settings.SteamKey)
+					.onChange(data => {
+						this.plugin.settings.SteamKey = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Steam ID')
+			.setDesc('The 64-bit Steam ID of the account whose games are imported by the "Import Steam library" command, if no export file is selected.')
+			.addText(cb => {
+				cb.setPlaceholder('Steam ID')
+					.setValue(this.plugin.settings.steamId)
+					.onChange(data => {
+						this.plugin.settings.steamId = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName('Bangumi Access Token')
 			.setDesc(fragWithHTML('Access Token for personal data access on <a href="https://next.bgm.tv/demo/access-token" target="_blank">bangumi.tv</a>. Keep this private.'))
@@ -273,6 +384,19 @@ export class MediaDbSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName('Bangumi sync conflicts')
+			.setDesc('Decides which value is kept when a property was changed in the note and on Bangumi since the last sync.')
+			.addDropdown(cb => {
+				for (const policy of bangumiSyncConflictPolicies) {
+					cb.addOption(policy, bangumiSyncConflictPolicyNames[policy]);
+				}
+				cb.setValue(this.plugin.settings.bangumiSyncConflictPolicy).onChange(data => {
+					this.plugin.settings.bangumiSyncConflictPolicy = data as BangumiSyncConflictPolicy;
+					void this.plugin.saveSettings();
+				});
+			});
+
 		new Setting(containerEl)
 			.setName('SFW filter')
 			.setDesc('Only shows SFW results for APIs that offer filtering.')
@@ -352,6 +476,75 @@ export class MediaDbSettingTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(containerEl)
+			.setName('Metadata update policy')
+			.setDesc('Decides which value is kept when updating the metadata of an existing note. "Only fill empty" only overwrites properties that are empty in the note.')
+			.addDropdown(cb => {
+				for (const policy of metadataMergePolicies) {
+					cb.addOption(policy, metadataMergePolicyNames[policy]);
+				}
+				cb.setValue(this.plugin.settings.metadataMergePolicy).onChange(data => {
+					this.plugin.settings.metadataMergePolicy = data as MetadataMergePolicy;
+					void this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('Metadata update policy per property')
+			.setDesc(
+				fragWithHTML(
+					`Overrides the update policy for single properties. One rule per line, e.g. <em>plot: note</em>. Use the original property names. Valid policies are ${metadataMergePolicies.map(x => `<em>${x}</em>`).join(', ')}.`,
+				),
+			)
+			.addTextArea(cb => {
+				cb.setPlaceholder('plot: note\nimage: empty')
+					.setValue(this.plugin.settings.metadataMergeRules)
+					.onChange(data => {
+						try {
+							parseMetadataMergeRules(data);
+						} catch (e) {
+							cb.inputEl.setCustomValidity(`${e}`);
+							return;
+						}
+						cb.inputEl.setCustomValidity('');
+						this.plugin.settings.metadataMergeRules = data;
+						void this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Status values')
+			.setDesc('The values to choose from when editing the status of an entry, one per line.')
+			.addTextArea(cb => {
+				cb.setPlaceholder(DEFAULT_PERSONAL_STATUSES.join('\n'))
+					.setValue(this.plugin.settings.personalStatuses.join('\n'))
+					.onChange(data => {
+						const statuses = data
+							.split('\n')
+							.map(x => x.trim())
+							.filter(x => x);
+						this.plugin.settings.personalStatuses = statuses.length > 0 ? statuses : DEFAULT_PERSONAL_STATUSES;
+						void this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Rating scale')
+			.setDesc('The number of stars to rate entries with.')
+			.addText(cb => {
+				cb.inputEl.type = 'number';
+				cb.setPlaceholder(String(DEFAULT_SETTINGS.personalRatingScale))
+					.setValue(String(this.plugin.settings.personalRatingScale))
+					.onChange(data => {
+						const ratingScale = Number(data);
+						if (!Number.isInteger(ratingScale) || ratingScale < 1) {
+							return;
+						}
+						this.plugin.settings.personalRatingScale = ratingScale;
+						void this.plugin.saveSettings();
+					});
+			});
+
 		// containerEl.createEl('h3', { text: 'APIs per media type' });
 		// containerEl.createEl('h5', { text: 'Movies' });
 		// new Setting(containerEl)
@@ -428,319 +621,185 @@ export class MediaDbSettingTab extends PluginSettingTab {
 		//			void this.plugin.saveSettings();
 		//		});
 		//	});
-		new Setting(containerEl).setName('New file location').setHeading();
-		// region new file location
-		new Setting(containerEl)
-			.setName('Movie folder')
-			.setDesc('Where newly imported movies should be placed.')
-			.addSearch(cb => {
-				new FolderSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder(DEFAULT_SETTINGS.movieFolder)
-					.setValue(this.plugin.settings.movieFolder)
-					.onChange(data => {
-						this.plugin.settings.movieFolder = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
+		new Setting(containerEl).setName('API cache').setHeading();
+		// region API cache
 		new Setting(containerEl)
-			.setName('Series folder')
-			.setDesc('Where newly imported series should be placed.')
-			.addSearch(cb => {
-				new FolderSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder(DEFAULT_SETTINGS.seriesFolder)
-					.setValue(this.plugin.settings.seriesFolder)
-					.onChange(data => {
-						this.plugin.settings.seriesFolder = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Comic and manga folder')
-			.setDesc('Where newly imported comics and manga should be placed.')
-			.addSearch(cb => {
-				new FolderSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder(DEFAULT_SETTINGS.mangaFolder)
-					.setValue(this.plugin.settings.mangaFolder)
-					.onChange(data => {
-						this.plugin.settings.mangaFolder = data;
-						void this.plugin.saveSettings();
-					});
+			.setName('Cache API responses')
+			.setDesc('Stores search results and entries from the APIs in the plugin folder, so that repeated lookups do not hit the network.')
+			.addToggle(cb => {
+				cb.setValue(this.plugin.settings.apiCacheEnabled).onChange(data => {
+					this.plugin.settings.apiCacheEnabled = data;
+					void this.plugin.saveSettings();
+				});
 			});
 
-		new Setting(containerEl)
-			.setName('Game folder')
-			.setDesc('Where newly imported games should be placed.')
-			.addSearch(cb => {
-				new FolderSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder(DEFAULT_SETTINGS.gameFolder)
-					.setValue(this.plugin.settings.gameFolder)
-					.onChange(data => {
-						this.plugin.settings.gameFolder = data;
-						void this.plugin.saveSettings();
-					});
-			});
+		for (const api of this.plugin.apiManager.apis) {
+			new Setting(containerEl)
+				.setName(`${api.apiName} cache duration`)
+				.setDesc(`How many hours responses from ${api.apiName} are cached. Set to 0 to disable caching for this API.`)
+				.addText(cb => {
+					cb.setPlaceholder(String(api.cacheTtl))
+						.setValue(this.plugin.settings.apiCacheTtls[api.apiName]?.toString() ?? '')
+						.onChange(data => {
+							if (data === '') {
+								cb.inputEl.setCustomValidity('');
+								delete this.plugin.settings.apiCacheTtls[api.apiName];
+								void this.plugin.saveSettings();
+								return;
+							}
 
-		new Setting(containerEl)
-			.setName('Wiki folder')
-			.setDesc('Where newly imported wiki articles should be placed.')
-			.addSearch(cb => {
-				new FolderSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder(DEFAULT_SETTINGS.wikiFolder)
-					.setValue(this.plugin.settings.wikiFolder)
-					.onChange(data => {
-						this.plugin.settings.wikiFolder = data;
-						void this.plugin.saveSettings();
-					});
-			});
+							const ttl = Number(data);
+							if (Number.isNaN(ttl) || ttl < 0) {
+								cb.inputEl.setCustomValidity('The cache duration must be a positive number.');
+								return;
+							}
+							cb.inputEl.setCustomValidity('');
+							this.plugin.settings.apiCacheTtls[api.apiName] = ttl;
+							void this.plugin.saveSettings();
+						});
+				});
+		}
 
 		new Setting(containerEl)
-			.setName('Music folder')
-			.setDesc('Where newly imported music should be placed.')
-			.addSearch(cb => {
-				new FolderSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder(DEFAULT_SETTINGS.musicReleaseFolder)
-					.setValue(this.plugin.settings.musicReleaseFolder)
-					.onChange(data => {
-						this.plugin.settings.musicReleaseFolder = data;
-						void this.plugin.saveSettings();
-					});
+			.setName('Clear cache')
+			.setDesc('Removes all cached API responses.')
+			.addButton(cb => {
+				cb.setButtonText('Clear cache').onClick(async () => {
+					await this.plugin.apiCache.clear();
+					new Notice('MDB | API cache cleared');
+				});
 			});
+		// endregion
 
-		new Setting(containerEl)
-			.setName('Board game folder')
-			.setDesc('Where newly imported board games should be places.')
-			.addSearch(cb => {
-				new FolderSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder(DEFAULT_SETTINGS.boardgameFolder)
-					.setValue(this.plugin.settings.boardgameFolder)
-					.onChange(data => {
-						this.plugin.settings.boardgameFolder = data;
-						void this.plugin.saveSettings();
-					});
-			});
-		new Setting(containerEl)
-			.setName('Book folder')
-			.setDesc('Where newly imported books should be placed.')
-			.addSearch(cb => {
-				new FolderSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder(DEFAULT_SETTINGS.bookFolder)
-					.setValue(this.plugin.settings.bookFolder)
-					.onChange(data => {
-						this.plugin.settings.bookFolder = data;
-						void this.plugin.saveSettings();
-					});
-			});
+		const mediaTypeDefinitions = this.plugin.mediaTypeManager.getMediaTypeDefinitions();
 
+		new Setting(containerEl).setName('New file location').setHeading();
+		// region new file location
+		for (const definition of mediaTypeDefinitions) {
+			new Setting(containerEl)
+				.setName(`${definition.name} folder`)
+				.setDesc(`Where newly imported ${definition.pluralName} should be placed.`)
+				.addSearch(cb => {
+					new FolderSuggest(this.app, cb.inputEl);
+					cb.setPlaceholder(definition.defaultSettings.folder)
+						.setValue(this.getMediaTypeSettings(definition.type).folder)
+						.onChange(data => {
+							this.getMediaTypeSettings(definition.type).folder = data;
+							void this.plugin.saveSettings();
+						});
+				});
+		}
 		// endregion
 
 		new Setting(containerEl).setName('Template settings').setHeading();
 		// region templates
-		new Setting(containerEl)
-			.setName('Movie template')
-			.setDesc('Template file to be used when creating a new note for a movie.')
-			.addSearch(cb => {
-				new FileSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder('Example: movieTemplate.md')
-					.setValue(this.plugin.settings.movieTemplate)
-					.onChange(data => {
-						this.plugin.settings.movieTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Series template')
-			.setDesc('Template file to be used when creating a new note for a series.')
-			.addSearch(cb => {
-				new FileSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder('Example: seriesTemplate.md')
-					.setValue(this.plugin.settings.seriesTemplate)
-					.onChange(data => {
-						this.plugin.settings.seriesTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Manga and Comics template')
-			.setDesc('Template file to be used when creating a new note for a manga or a comic.')
-			.addSearch(cb => {
-				new FileSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder('Example: mangaTemplate.md')
-					.setValue(this.plugin.settings.mangaTemplate)
-					.onChange(data => {
-						this.plugin.settings.mangaTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Game template')
-			.setDesc('Template file to be used when creating a new note for a game.')
-			.addSearch(cb => {
-				new FileSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder('Example: gameTemplate.md')
-					.setValue(this.plugin.settings.gameTemplate)
-					.onChange(data => {
-						this.plugin.settings.gameTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Wiki template')
-			.setDesc('Template file to be used when creating a new note for a wiki entry.')
-			.addSearch(cb => {
-				new FileSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder('Example: wikiTemplate.md')
-					.setValue(this.plugin.settings.wikiTemplate)
-					.onChange(data => {
-						this.plugin.settings.wikiTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Music release template')
-			.setDesc('Template file to be used when creating a new note for a music release.')
-			.addSearch(cb => {
-				new FileSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder('Example: musicReleaseTemplate.md')
-					.setValue(this.plugin.settings.musicReleaseTemplate)
-					.onChange(data => {
-						this.plugin.settings.musicReleaseTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Board game template')
-			.setDesc('Template file to be used when creating a new note for a boardgame.')
-			.addSearch(cb => {
-				new FileSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder('Example: boardgameTemplate.md')
-					.setValue(this.plugin.settings.boardgameTemplate)
-					.onChange(data => {
-						this.plugin.settings.boardgameTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Book template')
-			.setDesc('Template file to be used when creating a new note for a book.')
-			.addSearch(cb => {
-				new FileSuggest(this.app, cb.inputEl);
-				cb.setPlaceholder('Example: bookTemplate.md')
-					.setValue(this.plugin.settings.bookTemplate)
-					.onChange(data => {
-						this.plugin.settings.bookTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
+		for (const definition of mediaTypeDefinitions) {
+			new Setting(containerEl)
+				.setName(`${definition.name} template`)
+				.setDesc(`Template file to be used when creating a new note for ${definition.pluralName}.`)
+				.addSearch(cb => {
+					new FileSuggest(this.app, cb.inputEl);
+					cb.setPlaceholder(`Example: ${definition.type}Template.md`)
+						.setValue(this.getMediaTypeSettings(definition.type).template)
+						.onChange(data => {
+							this.getMediaTypeSettings(definition.type).template = data;
+							void this.plugin.saveSettings();
+						});
+				});
+		}
 		// endregion
 
 		new Setting(containerEl).setName('File name settings').setHeading();
 		// region file name templates
-		new Setting(containerEl)
-			.setName('Movie file name template')
-			.setDesc('Template for the file name used when creating a new note for a movie.')
-			.addText(cb => {
-				cb.setPlaceholder(`Example: ${DEFAULT_SETTINGS.movieFileNameTemplate}`)
-					.setValue(this.plugin.settings.movieFileNameTemplate)
-					.onChange(data => {
-						this.plugin.settings.movieFileNameTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Series file name template')
-			.setDesc('Template for the file name used when creating a new note for a series.')
-			.addText(cb => {
-				cb.setPlaceholder(`Example: ${DEFAULT_SETTINGS.seriesFileNameTemplate}`)
-					.setValue(this.plugin.settings.seriesFileNameTemplate)
-					.onChange(data => {
-						this.plugin.settings.seriesFileNameTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Manga and comic file name template')
-			.setDesc('Template for the file name used when creating a new note for a manga or comic.')
-			.addText(cb => {
-				cb.setPlaceholder(`Example: ${DEFAULT_SETTINGS.mangaFileNameTemplate}`)
-					.setValue(this.plugin.settings.mangaFileNameTemplate)
-					.onChange(data => {
-						this.plugin.settings.mangaFileNameTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Game file name template')
-			.setDesc('Template for the file name used when creating a new note for a game.')
-			.addText(cb => {
-				cb.setPlaceholder(`Example: ${DEFAULT_SETTINGS.gameFileNameTemplate}`)
-					.setValue(this.plugin.settings.gameFileNameTemplate)
-					.onChange(data => {
-						this.plugin.settings.gameFileNameTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Wiki file name template')
-			.setDesc('Template for the file name used when creating a new note for a wiki entry.')
-			.addText(cb => {
-				cb.setPlaceholder(`Example: ${DEFAULT_SETTINGS.wikiFileNameTemplate}`)
-					.setValue(this.plugin.settings.wikiFileNameTemplate)
-					.onChange(data => {
-						this.plugin.settings.wikiFileNameTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
-
-		new Setting(containerEl)
-			.setName('Music release file name template')
-			.setDesc('Template for the file name used when creating a new note for a music release.')
-			.addText(cb => {
-				cb.setPlaceholder(`Example: ${DEFAULT_SETTINGS.musicReleaseFileNameTemplate}`)
-					.setValue(this.plugin.settings.musicReleaseFileNameTemplate)
-					.onChange(data => {
-						this.plugin.settings.musicReleaseFileNameTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
+		for (const definition of mediaTypeDefinitions) {
+			new Setting(containerEl)
+				.setName(`${definition.name} file name template`)
+				.setDesc(`Template for the file name used when creating a new note for ${definition.pluralName}.`)
+				.addText(cb => {
+					cb.setPlaceholder(`Example: ${definition.defaultSettings.fileNameTemplate}`)
+						.setValue(this.getMediaTypeSettings(definition.type).fileNameTemplate)
+						.onChange(data => {
+							this.getMediaTypeSettings(definition.type).fileNameTemplate = data;
+							void this.plugin.saveSettings();
+						});
+				});
+		}
+		// endregion
 
-		new Setting(containerEl)
-			.setName('Board game file name template')
-			.setDesc('Template for the file name used when creating a new note for a boardgame.')
-			.addText(cb => {
-				cb.setPlaceholder(`Example: ${DEFAULT_SETTINGS.boardgameFileNameTemplate}`)
-					.setValue(this.plugin.settings.boardgameFileNameTemplate)
-					.onChange(data => {
-						this.plugin.settings.boardgameFileNameTemplate = data;
-						void this.plugin.saveSettings();
-					});
-			});
+		new Setting(containerEl).setName('Custom media types').setHeading();
+		// region custom media types
+		containerEl.createEl('p', {
+			text: 'Custom media types are for media the APIs do not cover. Notes with the type in their "type" property use the folder, template and property mappings of the custom type.',
+			cls: 'setting-item-description',
+		});
+
+		for (const customMediaType of this.plugin.settings.customMediaTypes) {
+			new Setting(containerEl)
+				.setName(customMediaType.name)
+				.setDesc(`Type "${customMediaType.type}". The fields of this type, separated by commas.`)
+				.addText(cb => {
+					cb.setPlaceholder('Name')
+						.setValue(customMediaType.name)
+						.onChange(data => {
+							customMediaType.name = data;
+							void this.plugin.updateCustomMediaTypes();
+						});
+				})
+				.addText(cb => {
+					cb.setPlaceholder('Example: artist, label')
+						.setValue(customMediaType.fields.join(', '))
+						.onChange(data => {
+							const fields = data
+								.split(',')
+								.map(x => x.trim())
+								.filter(x => x !== '');
+							const invalidField = fields.find(x => !containsOnlyLettersAndUnderscores(x) || reservedCustomMediaTypeFields.contains(x));
+							if (invalidField !== undefined) {
+								cb.inputEl.setCustomValidity(`"${invalidField}" is not a valid field name.`);
+								return;
+							}
+							cb.inputEl.setCustomValidity('');
+							customMediaType.fields = fields;
+							void this.plugin.updateCustomMediaTypes();
+						});
+				})
+				.addExtraButton(cb => {
+					cb.setIcon('trash')
+						.setTooltip('Remove custom media type')
+						.onClick(async () => {
+							this.plugin.settings.customMediaTypes.remove(customMediaType);
+							delete this.plugin.settings.mediaTypeSettings[customMediaType.type];
+							await this.plugin.updateCustomMediaTypes();
+							this.display();
+						});
+				});
+		}
 
+		let newCustomMediaType = '';
 		new Setting(containerEl)
-			.setName('Book file name template')
-			.setDesc('Template for the file name used when creating a new note for a book.')
+			.setName('Add custom media type')
+			.setDesc('The type is stored in the "type" property of the notes and may only contain letters and underscores.')
 			.addText(cb => {
-				cb.setPlaceholder(`Example: ${DEFAULT_SETTINGS.bookFileNameTemplate}`)
-					.setValue(this.plugin.settings.bookFileNameTemplate)
-					.onChange(data => {
-						this.plugin.settings.bookFileNameTemplate = data;
-						void this.plugin.saveSettings();
-					});
+				cb.setPlaceholder('Example: vinyl').onChange(data => {
+					newCustomMediaType = data.trim();
+				});
+			})
+			.addButton(cb => {
+				cb.setButtonText('Add').onClick(async () => {
+					if (!containsOnlyLettersAndUnderscores(newCustomMediaType)) {
+						new Notice('MDB | the type of a custom media type may only contain letters and underscores');
+						return;
+					}
+					if (this.plugin.mediaTypeManager.hasMediaType(newCustomMediaType)) {
+						new Notice(`MDB | a media type "${newCustomMediaType}" already exists`);
+						return;
+					}
+
+					this.plugin.settings.customMediaTypes.push({ type: newCustomMediaType, name: unCamelCase(newCustomMediaType), fields: [] });
+					await this.plugin.updateCustomMediaTypes();
+					this.display();
+				});
 			});
-
 		// endregion
 
 		// region Property Mappings
@@ -784,4 +843,14 @@ export class MediaDbSettingTab extends PluginSettingTab {
 
 		// endregion
 	}
+
+	/**
+	 * Returns the settings of a media type, so they can be changed in place.
+	 *
+	 * @param type
+	 */
+	private getMediaTypeSettings(type: string): MediaTypeSettings {
+		this.plugin.settings.mediaTypeSettings[type] = this.plugin.mediaTypeManager.getMediaTypeSettings(this.plugin.settings, type);
+		return this.plugin.settings.mediaTypeSettings[type];
+	}
 }
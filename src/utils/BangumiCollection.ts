@@ -0,0 +1,146 @@
+import { normalizeRating } from './PersonalData';
+
+/**
+ * The personal data of an entry that is synced with a Bangumi collection.
+ * - status: the personal status, using the names the Bangumi API uses for new notes
+ * - rating: the rating from 1 to 10
+ * - tags: the personal tags
+ * - progress: the number of watched episodes or read chapters
+ */
+export interface BangumiCollectionState {
+	status?: string;
+	rating?: number;
+	tags: string[];
+	progress?: number;
+}
+
+export enum BangumiSyncConflictPolicy {
+	Bangumi = 'bangumi',
+	Note = 'note',
+}
+
+export const bangumiSyncConflictPolicies: BangumiSyncConflictPolicy[] = Object.values(BangumiSyncConflictPolicy);
+
+export const bangumiSyncConflictPolicyNames: Record<BangumiSyncConflictPolicy, string> = {
+	[BangumiSyncConflictPolicy.Bangumi]: 'Bangumi wins',
+	[BangumiSyncConflictPolicy.Note]: 'Note wins',
+};
+
+/**
+ * The collection types of Bangumi and the status names used for them in notes.
+ */
+export const BANGUMI_COLLECTION_STATUSES: Record<number, string> = {
+	1: 'Wish',
+	2: 'Collect',
+	3: 'Doing',
+	4: 'OnHold',
+	5: 'Dropped',
+};
+
+/**
+ * Other status names that are understood when pushing to Bangumi, including the default statuses of the status editor.
+ */
+const BANGUMI_COLLECTION_STATUS_ALIASES: Record<string, number> = {
+	planned: 1,
+	plantowatch: 1,
+	completed: 2,
+	inprogress: 3,
+	watching: 3,
+	reading: 3,
+	playing: 3,
+};
+
+/**
+ * Maps a status of a note to a Bangumi collection type. Case, spaces and underscores are ignored.
+ *
+ * @param status
+ * @returns the collection type, or undefined if the status is not known
+ */
+export function getBangumiCollectionType(status: string | undefined): number | undefined {
+	if (!status) {
+		return undefined;
+	}
+
+	const normalizedStatus = status.toLowerCase().replace(/[\s_-]/g, '');
+	for (const [type, name] of Object.entries(BANGUMI_COLLECTION_STATUSES)) {
+		if (name.toLowerCase() === normalizedStatus) {
+			return Number(type);
+		}
+	}
+	return BANGUMI_COLLECTION_STATUS_ALIASES[normalizedStatus];
+}
+
+/**
+ * Converts a rating of a note, which uses the rating scale from the settings, to a Bangumi rating, e.g. 4 out of 5 becomes 8.
+ *
+ * @param rating the rating of the note, undefined if not rated
+ * @param scale the rating scale from the settings
+ * @returns a whole number from 1 to 10, or undefined if not rated
+ */
+export function toBangumiRating(rating: number | undefined, scale: number): number | undefined {
+	const bangumiRating = normalizeRating(rating ?? 0, scale, 10);
+	return bangumiRating === undefined ? undefined : Math.max(1, Math.round(bangumiRating));
+}
+
+/**
+ * Converts a Bangumi rating from 1 to 10 to the rating scale from the settings, e.g. 8 becomes 4 out of 5.
+ *
+ * @param rating the Bangumi rating, undefined if not rated
+ * @param scale the rating scale from the settings
+ */
+export function fromBangumiRating(rating: number | undefined, scale: number): number | undefined {
+	return normalizeRating(rating ?? 0, 10, scale);
+}
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+	if (Array.isArray(a) && Array.isArray(b)) {
+		const sortedJoin = (values: unknown[]): string => [...values].sort().join('\n');
+		return a.length === b.length && sortedJoin(a) === sortedJoin(b);
+	}
+	return a === b;
+}
+
+/**
+ * Merges the state of a note with the state of its Bangumi collection.
+ * Every property is merged on its own using the state of the last sync: a side that did not change since then takes the value of the other side.
+ * If both sides changed, or there was no sync before, the conflict policy decides.
+ *
+ * @param base the state both sides had after the last sync
+ * @param note the state of the note
+ * @param bangumi the state of the collection
+ * @param policy
+ */
+export function mergeBangumiCollectionState(
+	base: BangumiCollectionState | undefined,
+	note: BangumiCollectionState,
+	bangumi: BangumiCollectionState,
+	policy: BangumiSyncConflictPolicy,
+): BangumiCollectionState {
+	const merged: BangumiCollectionState = { tags: [] };
+
+	for (const key of ['status', 'rating', 'tags', 'progress'] as const) {
+		let value: unknown;
+		if (isEqualValue(note[key], bangumi[key])) {
+			value = note[key];
+		} else if (base && isEqualValue(note[key], base[key])) {
+			value = bangumi[key];
+		} else if (base && isEqualValue(bangumi[key], base[key])) {
+			value = note[key];
+		} else {
+			value = policy === BangumiSyncConflictPolicy.Bangumi ? bangumi[key] : note[key];
+		}
+		(merged as unknown as Record<string, unknown>)[key] = value;
+	}
+
+	return merged;
+}
+
+/**
+ * Whether two states are the same.
+ *
+ * @param a
+ * @param b
+ */
+export function isSameBangumiCollectionState(a: BangumiCollectionState, b: BangumiCollectionState): boolean {
+	return isEqualValue(a.status, b.status) && isEqualValue(a.rating, b.rating) && isEqualValue(a.tags, b.tags) && isEqualValue(a.progress, b.progress);
+}
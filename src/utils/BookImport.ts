@@ -0,0 +1,222 @@
+import type { OpenLibraryAPI } from '../api/apis/OpenLibraryAPI';
+import { parseCSVRecords } from './CSV';
+import { looksLikeISBN, normalizeISBN } from './ISBN';
+import type { ListImportMatch } from './ListImport';
+import { getSimilarity } from './ListImport';
+import { normalizeRating, parseTags } from './PersonalData';
+
+/**
+ * A book of a Goodreads or StoryGraph export.
+ * - row: the line of the book in the export, used in the match report
+ * - title: the title, without the series Goodreads appends in parentheses
+ * - author: the main author
+ * - isbn: the ISBN-13 if available, otherwise the ISBN-10, empty if the export has none
+ * - userData: the data of the user for the book, using the property names of the book model
+ */
+export interface BookImportRow {
+	row: number;
+	title: string;
+	author: string;
+	isbn: string;
+	userData: Record<string, unknown>;
+}
+
+/**
+ * The shelves of Goodreads and read statuses of StoryGraph and the status names used for them in notes.
+ */
+const BOOK_STATUSES: Record<string, string> = {
+	read: 'Completed',
+	'currently-reading': 'In progress',
+	'to-read': 'Planned',
+	paused: 'On hold',
+	'did-not-finish': 'Dropped',
+};
+
+/**
+ * Maps a Goodreads exclusive shelf or StoryGraph read status like `currently-reading` to the status of a note.
+ *
+ * @param status
+ */
+export function getBookStatus(status: string): string | undefined {
+	return BOOK_STATUSES[status.trim().toLowerCase()];
+}
+
+/**
+ * Formats a date of an export, which uses `YYYY/MM/DD`.
+ *
+ * @param date
+ * @param formatDate formats a date in the ISO format with the date format of the user
+ */
+function getDate(date: string | undefined, formatDate: (date: string) => string | undefined): string | undefined {
+	const isoDate = (date ?? '').trim().replace(/\//g, '-');
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(isoDate)) {
+		return undefined;
+	}
+	return formatDate(isoDate);
+}
+
+/**
+ * Goodreads exports ISBNs as formulas like `="9780140328721"`, so that spreadsheets keep the leading zeros.
+ *
+ * @param isbn
+ */
+function getISBN(isbn: string | undefined): string {
+	return normalizeISBN((isbn ?? '').replace(/[="]/g, ''));
+}
+
+/**
+ * Removes the series Goodreads appends to titles, e.g. `The Hobbit (Middle-earth Universe)` becomes `The Hobbit`.
+ *
+ * @param title
+ */
+export function removeBookSeries(title: string): string {
+	return title.replace(/\s*\([^()]*\)\s*$/, '').trim() || title.trim();
+}
+
+/**
+ * Collects the data of the user that is shared by both exports.
+ *
+ * @param status the status of the note
+ * @param rating the rating from 1 to 5, 0 if not rated
+ * @param ratingScale the rating scale from the settings
+ * @param tags the shelves or tags
+ * @param started the date the book was started in the format of the user
+ * @param finished the date the book was last finished in the format of the user
+ */
+function getUserData(
+	status: string | undefined,
+	rating: number,
+	ratingScale: number,
+	tags: string[],
+	started: string | undefined,
+	finished: string | undefined,
+): Record<string, unknown> {
+	return {
+		personalStatus: status,
+		personalRating: normalizeRating(rating, 5, ratingScale),
+		personalTags: tags.length > 0 ? tags : undefined,
+		read: status === 'Completed',
+		lastRead: finished,
+		started: started,
+		finished: finished,
+	};
+}
+
+function parseGoodreadsRow(record: Record<string, string>, row: number, ratingScale: number, formatDate: (date: string) => string | undefined): BookImportRow {
+	const exclusiveShelf = record['Exclusive Shelf'] ?? '';
+	// the exclusive shelf is also listed in the shelves, but it is already imported as the status
+	const shelves = parseTags(record.Bookshelves ?? '').filter(x => !getBookStatus(x) && x !== exclusiveShelf);
+
+	return {
+		row: row,
+		title: removeBookSeries(record.Title ?? ''),
+		author: (record.Author ?? '').trim(),
+		isbn: getISBN(record.ISBN13) || getISBN(record.ISBN),
+		userData: getUserData(getBookStatus(exclusiveShelf), Number(record['My Rating'] ?? 0), ratingScale, shelves, undefined, getDate(record['Date Read'], formatDate)),
+	};
+}
+
+function parseStoryGraphRow(record: Record<string, string>, row: number, ratingScale: number, formatDate: (date: string) => string | undefined): BookImportRow {
+	// the dates of the last read, e.g. `2024/01/02-2024/01/20` or just the finish date
+	const lastDatesRead = (record['Dates Read'] ?? '').split(',').pop() ?? '';
+	const [started, finished] = lastDatesRead.includes('-') ? lastDatesRead.split('-') : [undefined, lastDatesRead];
+
+	return {
+		row: row,
+		title: (record.Title ?? '').trim(),
+		// StoryGraph lists all authors, separated by commas
+		author: (record.Authors ?? '').split(',')[0].trim(),
+		isbn: /^[\d-]+X?$/i.test((record['ISBN/UID'] ?? '').trim()) ? getISBN(record['ISBN/UID']) : '',
+		userData: getUserData(
+			getBookStatus(record['Read Status'] ?? ''),
+			Number(record['Star Rating'] || 0),
+			ratingScale,
+			parseTags(record.Tags ?? ''),
+			getDate(started, formatDate),
+			getDate(record['Last Date Read'], formatDate) ?? getDate(finished, formatDate),
+		),
+	};
+}
+
+/**
+ * Parses the CSV export of a Goodreads or StoryGraph library. The site is detected from the columns of the export.
+ *
+ * @param csv
+ * @param ratingScale the rating scale from the settings, the ratings are converted to it
+ * @param formatDate formats a date in the ISO format with the date format of the user
+ */
+export function parseBookExport(csv: string, ratingScale: number, formatDate: (date: string) => string | undefined): BookImportRow[] {
+	const records = parseCSVRecords(csv);
+	const columns = Object.keys(records[0] ?? {});
+
+	let parseRow: typeof parseGoodreadsRow;
+	if (columns.includes('Exclusive Shelf')) {
+		parseRow = parseGoodreadsRow;
+	} else if (columns.includes('Read Status')) {
+		parseRow = parseStoryGraphRow;
+	} else {
+		throw new Error('MDB | file is not a Goodreads or StoryGraph export');
+	}
+
+	// the first line of the file is the header
+	return records.map((record, i) => parseRow(record, i + 2, ratingScale, formatDate)).filter(x => x.title);
+}
+
+/**
+ * How confident it is that a search result is the book of a row, from 0 to 1.
+ * Titles are also compared without their subtitles, as the exports and Open Library often disagree on them.
+ *
+ * @param row
+ * @param candidate the title and authors of the search result
+ */
+export function getBookMatchConfidence(row: Pick<BookImportRow, 'title' | 'author'>, candidate: { title: string; author: string | string[] }): number {
+	const mainTitle = (title: string): string => title.split(':')[0];
+	const titleSimilarity = Math.max(getSimilarity(row.title, candidate.title), getSimilarity(mainTitle(row.title), mainTitle(candidate.title)));
+
+	const authors = (Array.isArray(candidate.author) ? candidate.author : [candidate.author]).filter(x => x && x !== 'unknown');
+	let authorSimilarity: number;
+	if (!row.author || authors.length === 0) {
+		// without an author to compare, only the title can be trusted
+		authorSimilarity = titleSimilarity;
+	} else {
+		authorSimilarity = Math.max(...authors.map(x => getSimilarity(row.author, x)));
+	}
+
+	return Math.round((0.7 * titleSimilarity + 0.3 * authorSimilarity) * 100) / 100;
+}
+
+/**
+ * Finds the search result that matches a row best.
+ *
+ * @param row
+ * @param candidates
+ */
+export function findBestBookMatch<T extends { title: string; author: string | string[] }>(
+	row: Pick<BookImportRow, 'title' | 'author'>,
+	candidates: T[],
+): { candidate: T; confidence: number } | undefined {
+	let best: { candidate: T; confidence: number } | undefined;
+	for (const candidate of candidates) {
+		const confidence = getBookMatchConfidence(row, candidate);
+		if (!best || confidence > best.confidence) {
+			best = { candidate, confidence };
+		}
+	}
+	return best;
+}
+
+/**
+ * Finds the Open Library entry of a row, by its ISBN first and by its title and author otherwise.
+ *
+ * @param api
+ * @param row
+ */
+export async function matchBookRow(api: OpenLibraryAPI, row: BookImportRow): Promise<ListImportMatch | undefined> {
+	const isbnMatch = looksLikeISBN(row.isbn) ? (await api.searchByISBN(row.isbn))[0] : undefined;
+	if (isbnMatch) {
+		return { id: isbnMatch.id, title: isbnMatch.title, confidence: 1 };
+	}
+
+	const best = findBestBookMatch(row, await api.searchByTitleAndAuthor(row.title, row.author));
+	return best ? { id: best.candidate.id, title: best.candidate.title, confidence: best.confidence } : undefined;
+}
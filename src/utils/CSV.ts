@@ -0,0 +1,72 @@
+/**
+ * Parses CSV text into rows of fields. Fields can be quoted to contain commas, line breaks and quotes, which are escaped by doubling them.
+ * Empty lines are skipped.
+ *
+ * @param text
+ */
+export function parseCSV(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	// a byte order mark at the start of the file is not part of the first field
+	if (text.startsWith('\uFEFF')) {
+		text = text.slice(1);
+	}
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') {
+				i++;
+			}
+			row.push(field);
+			field = '';
+			if (row.some(x => x !== '')) {
+				rows.push(row);
+			}
+			row = [];
+		} else {
+			field += char;
+		}
+	}
+
+	row.push(field);
+	if (row.some(x => x !== '')) {
+		rows.push(row);
+	}
+
+	return rows;
+}
+
+/**
+ * Parses CSV text whose first row contains the column names into one object per row.
+ * Fields missing at the end of a row are set to an empty string.
+ *
+ * @param text
+ */
+export function parseCSVRecords(text: string): Record<string, string>[] {
+	const [header, ...rows] = parseCSV(text);
+	if (!header) {
+		return [];
+	}
+
+	const columns = header.map(x => x.trim());
+	return rows.map(row => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])));
+}
@@ -0,0 +1,106 @@
+import type { Episode } from '../api/APIModel';
+
+/**
+ * A note to create for a season or episode of a series.
+ */
+export interface EpisodeNote {
+	fileName: string;
+	metadata: Record<string, unknown>;
+	body: string;
+}
+
+/**
+ * Groups episodes by their season, both the seasons and the episodes are sorted.
+ *
+ * @param episodes
+ */
+export function groupEpisodesBySeason(episodes: Episode[]): Map<number, Episode[]> {
+	const seasons = new Map<number, Episode[]>();
+
+	const sortedEpisodes = [...episodes].sort((a, b) => a.season - b.season || a.episode - b.episode);
+	for (const episode of sortedEpisodes) {
+		const season = seasons.get(episode.season);
+		if (season) {
+			season.push(episode);
+		} else {
+			seasons.set(episode.season, [episode]);
+		}
+	}
+
+	return seasons;
+}
+
+/**
+ * Pads episode numbers to the same width, so that the notes sort correctly. Long running series can have more than 99 episodes.
+ */
+function padNumber(value: number, width: number): string {
+	return value.toString().padStart(width, '0');
+}
+
+function getNumberWidth(episodes: Episode[]): number {
+	return Math.max(2, ...episodes.map(x => x.episode.toString().length));
+}
+
+/**
+ * Creates one note per episode, e.g. `Andor S01E01`.
+ *
+ * @param episodes
+ * @param seriesName the file name of the series note, used for the file names and the link back to the series
+ */
+export function getEpisodeNotes(episodes: Episode[], seriesName: string): EpisodeNote[] {
+	const width = getNumberWidth(episodes);
+	const ret: EpisodeNote[] = [];
+
+	for (const [season, seasonEpisodes] of groupEpisodesBySeason(episodes)) {
+		for (const episode of seasonEpisodes) {
+			const code = `S${padNumber(season, 2)}E${padNumber(episode.episode, width)}`;
+			ret.push({
+				fileName: `${seriesName} ${code}`,
+				metadata: {
+					series: `[[${seriesName}]]`,
+					season: season,
+					episode: episode.episode,
+					title: episode.title,
+					airDate: episode.airDate,
+				},
+				body: `# ${code}${episode.title ? ` - ${episode.title}` : ''}\n\n- [ ] Watched\n`,
+			});
+		}
+	}
+
+	return ret;
+}
+
+/**
+ * Creates one note per season, e.g. `Andor Season 1`, with a checklist of its episodes.
+ *
+ * @param episodes
+ * @param seriesName the file name of the series note, used for the file names and the link back to the series
+ */
+export function getSeasonNotes(episodes: Episode[], seriesName: string): EpisodeNote[] {
+	const width = getNumberWidth(episodes);
+	const ret: EpisodeNote[] = [];
+
+	for (const [season, seasonEpisodes] of groupEpisodesBySeason(episodes)) {
+		const airDates = seasonEpisodes.map(x => x.airDate).filter(x => x !== 'unknown');
+		const episodeList = seasonEpisodes.map(x => {
+			const title = x.title ? ` - ${x.title}` : '';
+			const airDate = x.airDate !== 'unknown' ? ` (${x.airDate})` : '';
+			return `- [ ] E${padNumber(x.episode, width)}${title}${airDate}`;
+		});
+
+		ret.push({
+			fileName: `${seriesName} Season ${season}`,
+			metadata: {
+				series: `[[${seriesName}]]`,
+				season: season,
+				episodes: seasonEpisodes.length,
+				airedFrom: airDates[0] ?? 'unknown',
+				airedTo: airDates[airDates.length - 1] ?? 'unknown',
+			},
+			body: `# Season ${season}\n\n${episodeList.join('\n')}\n`,
+		});
+	}
+
+	return ret;
+}
@@ -0,0 +1,49 @@
+/**
+ * Removes hyphens and spaces from an ISBN, e.g. `978-0-14-032872-1` becomes `9780140328721`.
+ *
+ * @param isbn
+ */
+export function normalizeISBN(isbn: string): string {
+	return isbn.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Whether a string looks like an ISBN-10 or ISBN-13, without validating the check digit.
+ *
+ * @param str
+ */
+export function looksLikeISBN(str: string): boolean {
+	const isbn = normalizeISBN(str);
+	return /^\d{9}[\dX]$/.test(isbn) || /^\d{13}$/.test(isbn);
+}
+
+export function isValidISBN10(isbn: string): boolean {
+	isbn = normalizeISBN(isbn);
+	if (!/^\d{9}[\dX]$/.test(isbn)) {
+		return false;
+	}
+
+	let sum = 0;
+	for (let i = 0; i < 10; i++) {
+		const digit = isbn[i] === 'X' ? 10 : Number(isbn[i]);
+		sum += digit * (10 - i);
+	}
+	return sum % 11 === 0;
+}
+
+export function isValidISBN13(isbn: string): boolean {
+	isbn = normalizeISBN(isbn);
+	if (!/^\d{13}$/.test(isbn)) {
+		return false;
+	}
+
+	let sum = 0;
+	for (let i = 0; i < 13; i++) {
+		sum += Number(isbn[i]) * (i % 2 === 0 ? 1 : 3);
+	}
+	return sum % 10 === 0;
+}
+
+export function isValidISBN(isbn: string): boolean {
+	return isValidISBN10(isbn) || isValidISBN13(isbn);
+}
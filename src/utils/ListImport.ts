@@ -0,0 +1,134 @@
+import type { MediaTypeModel } from '../models/MediaTypeModel';
+
+/**
+ * An entry of a list exported from another site, e.g. a MyAnimeList export.
+ * - id: the id of the entry in the API the details are loaded from
+ * - title: the title of the entry, only used for messages
+ * - apiName: the API the details are loaded from
+ * - userData: the data of the user for the entry, using the original property names, e.g. `personalRating`, `watched` or `progress`
+ */
+export interface ListImportEntry {
+	id: string;
+	title: string;
+	apiName: string;
+	userData: Record<string, unknown>;
+}
+
+/**
+ * The minimum confidence a match of a row of an export to a search result needs to be imported without review.
+ */
+export const LIST_IMPORT_MIN_CONFIDENCE = 0.8;
+
+/**
+ * A row of an export that could not be matched to an entry of an API, listed in the match report of the import.
+ * - row: the line of the row in the export
+ * - title: the title of the row
+ * - details: the other values the row was matched by, e.g. the author or the year
+ * - confidence: the confidence of the best match, from 0 to 1
+ * - bestMatch: the title and id of the best match, empty if nothing was found
+ * - error: why the row was not imported
+ */
+export interface ListImportMatchFailure {
+	row: number;
+	title: string;
+	details: string;
+	confidence: number;
+	bestMatch: string;
+	error: string;
+}
+
+/**
+ * A row of an export that still has to be matched to an entry of an API.
+ * - row: the line of the row in the export, used in the match report
+ * - title: the title of the row
+ * - userData: the data of the user for the entry, see {@link ListImportEntry}
+ */
+export interface ListImportRow {
+	row: number;
+	title: string;
+	userData: Record<string, unknown>;
+}
+
+/**
+ * The best match of a row of an export to an entry of an API.
+ * - id: the id of the entry in the API
+ * - title: the title of the entry, used in the match report
+ * - confidence: how well the entry matches the row, from 0 to 1
+ */
+export interface ListImportMatch {
+	id: string;
+	title: string;
+	confidence: number;
+}
+
+/**
+ * Copies the imported data of the user into a model loaded from an API.
+ * Properties are set in the user data of the model if it has them there, otherwise on the model itself, properties the model does not know are skipped.
+ *
+ * @param model
+ * @param userData
+ */
+export function applyImportedUserData(model: MediaTypeModel, userData: Record<string, unknown>): void {
+	const modelUserData = model.userData as Record<string, unknown>;
+	const modelData = model as unknown as Record<string, unknown>;
+
+	for (const [key, value] of Object.entries(userData)) {
+		if (value === undefined) {
+			continue;
+		}
+
+		if (key in modelUserData) {
+			modelUserData[key] = value;
+		} else if (key in modelData && key !== 'userData') {
+			modelData[key] = value;
+		}
+	}
+
+	const total = model.getProgressTotal();
+	if (model.progress !== undefined && model.getProgressUnit() && total > 0) {
+		model.progressPercent = Math.min(100, Math.round((model.progress / total) * 100));
+	}
+}
+
+/**
+ * Normalizes a title or name for comparisons, e.g. `J.R.R. Tolkien` becomes `j r r tolkien`.
+ *
+ * @param str
+ */
+function normalizeForMatch(str: string): string[] {
+	return str
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/&/g, ' and ')
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim()
+		.split(' ')
+		.filter(x => x);
+}
+
+/**
+ * The similarity of two titles or names from 0 to 1, based on the words they share. Used to match the rows of exports to search results.
+ *
+ * @param a
+ * @param b
+ */
+export function getSimilarity(a: string, b: string): number {
+	const wordsA = normalizeForMatch(a);
+	const wordsB = normalizeForMatch(b);
+	if (wordsA.length === 0 || wordsB.length === 0) {
+		return 0;
+	}
+
+	const remaining = [...wordsB];
+	let shared = 0;
+	for (const word of wordsA) {
+		const index = remaining.indexOf(word);
+		if (index !== -1) {
+			remaining.splice(index, 1);
+			shared++;
+		}
+	}
+
+	return (2 * shared) / (wordsA.length + wordsB.length);
+}
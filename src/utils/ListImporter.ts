@@ -0,0 +1,213 @@
+import { Notice, TFile } from 'obsidian';
+import type MediaDbPlugin from '../main';
+import type { ListImportModalOptions } from '../modals/MediaDbListImportModal';
+import { MediaDbListImportModal } from '../modals/MediaDbListImportModal';
+import { MediaDbProgressModal } from '../modals/MediaDbProgressModal';
+import type { ListImportEntry, ListImportMatch, ListImportMatchFailure, ListImportRow } from './ListImport';
+import { applyImportedUserData, LIST_IMPORT_MIN_CONFIDENCE } from './ListImport';
+import { dateTimeToString, markdownTable } from './Utils';
+
+/**
+ * How the rows of an export are matched to the entries of an API, see {@link ListImporter.matchRows}.
+ * - apiName: the API the entries are loaded from
+ * - operation: the name of the import, used in the match report
+ * - itemName: what the rows are called in messages, e.g. `books`
+ * - getDetails: the values other than the title the row is matched by, listed in the match report
+ * - match: finds the best match of a row, undefined if nothing was found
+ */
+export interface ListImportMatchOptions<T extends ListImportRow> {
+	apiName: string;
+	operation: string;
+	itemName: string;
+	getDetails: (row: T) => string;
+	match: (row: T) => Promise<ListImportMatch | undefined>;
+}
+
+/**
+ * Imports lists exported from other sites. The import commands only load the entries of their export, creating the notes is shared by all of them.
+ */
+export class ListImporter {
+	plugin: MediaDbPlugin;
+
+	constructor(plugin: MediaDbPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Asks for an export file or a username, loads the entries of the list and imports them.
+	 * Errors while loading or importing are shown as a notice, if nothing is returned, e.g. because the matching was canceled, nothing is imported.
+	 *
+	 * @param modalOptions
+	 * @param operation the name of the import, used in the error report
+	 * @param loadEntries loads the entries from the selected file or the entered username
+	 */
+	openImportModal(modalOptions: ListImportModalOptions, operation: string, loadEntries: (filePath: string, username: string) => Promise<ListImportEntry[] | undefined>): void {
+		new MediaDbListImportModal(this.plugin.app, modalOptions, async (filePath, username) => {
+			let entries: ListImportEntry[] | undefined;
+			try {
+				entries = await loadEntries(filePath, username);
+			} catch (e) {
+				console.warn(e);
+				new Notice(`${e}`);
+				return;
+			}
+
+			if (!entries) {
+				return;
+			}
+
+			try {
+				await this.importEntries(entries, operation);
+			} catch (e) {
+				console.warn(e);
+				new Notice(`${e}`);
+			}
+		}).open();
+	}
+
+	/**
+	 * Reads an export file from the vault.
+	 *
+	 * @param filePath
+	 */
+	async readFile(filePath: string): Promise<string> {
+		const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) {
+			throw new Error(`MDB | file "${filePath}" does not exist`);
+		}
+		return await this.plugin.app.vault.read(file);
+	}
+
+	/**
+	 * Matches the rows of an export that have no id of the API to its entries.
+	 * Rows that could not be matched confidently are listed in a match report.
+	 *
+	 * @param rows
+	 * @param options
+	 * @returns the entries of the matched rows, undefined if the matching was canceled
+	 */
+	async matchRows<T extends ListImportRow>(rows: T[], options: ListImportMatchOptions<T>): Promise<ListImportEntry[] | undefined> {
+		const entries: ListImportEntry[] = [];
+		const unmatchedRows: ListImportMatchFailure[] = [];
+		const addUnmatchedRow = (row: T, confidence: number, bestMatch: string, error: string): void => {
+			unmatchedRows.push({ row: row.row, title: row.title, details: options.getDetails(row), confidence, bestMatch, error });
+		};
+
+		const progressModal = new MediaDbProgressModal(this.plugin.app, `Matching ${options.itemName}`, rows.length);
+		progressModal.open();
+
+		for (const [i, row] of rows.entries()) {
+			if (progressModal.canceled) {
+				addUnmatchedRow(row, 0, '', 'user canceled');
+				continue;
+			}
+
+			progressModal.setProgress(i, row.title);
+
+			try {
+				const match = await options.match(row);
+				if (!match || match.confidence < LIST_IMPORT_MIN_CONFIDENCE) {
+					addUnmatchedRow(row, match?.confidence ?? 0, match ? `${match.title} (${match.id})` : '', match ? 'low confidence' : 'no result');
+					continue;
+				}
+
+				entries.push({ id: match.id, title: row.title, apiName: options.apiName, userData: row.userData });
+			} catch (e) {
+				console.warn(e);
+				addUnmatchedRow(row, 0, '', `${e}`);
+			}
+		}
+
+		progressModal.setProgress(rows.length, 'done');
+		progressModal.finish();
+
+		if (unmatchedRows.length > 0) {
+			new Notice(`MDB | could not match ${unmatchedRows.length} of ${rows.length} ${options.itemName}, see the match report`);
+			await this.createMatchReport(unmatchedRows, options.operation);
+		}
+
+		return progressModal.canceled ? undefined : entries;
+	}
+
+	/**
+	 * Creates a report of the rows of an import that could not be matched to an entry of an API, with the best match that was found.
+	 *
+	 * @param unmatchedRows
+	 * @param operation the name of the import
+	 */
+	async createMatchReport(unmatchedRows: ListImportMatchFailure[], operation: string): Promise<void> {
+		const title = `MDB - ${operation} match report ${dateTimeToString(new Date())}`;
+		const filePath = `${title}.md`;
+
+		const table = [['row', 'title', 'details', 'confidence', 'best match', 'error']].concat(
+			unmatchedRows.map(x => [String(x.row), x.title, x.details, `${Math.round(x.confidence * 100)}%`, x.bestMatch, x.error]),
+		);
+
+		const fileContent = `# ${title}\n\n${markdownTable(table)}`;
+		await this.plugin.app.vault.create(filePath, fileContent);
+	}
+
+	/**
+	 * Creates a note for every entry of an imported list, with the data of the user from the list.
+	 * Entries that already have a note are skipped, entries that could not be imported are listed in an error report.
+	 *
+	 * @param entries
+	 * @param operation the name of the import, used in the error report
+	 */
+	async importEntries(entries: ListImportEntry[], operation: string): Promise<void> {
+		if (entries.length === 0) {
+			new Notice('MDB | the imported list is empty');
+			return;
+		}
+
+		// the metadata of the notes created during the import is not cached right away, so they are tracked separately
+		const importedEntries = new Set<string>();
+
+		const erroredFiles: { filePath: string; error: string }[] = [];
+		let created = 0;
+		let skipped = 0;
+
+		const progressModal = new MediaDbProgressModal(this.plugin.app, operation, entries.length);
+		progressModal.open();
+
+		for (const [i, entry] of entries.entries()) {
+			if (progressModal.canceled) {
+				erroredFiles.push({ filePath: entry.title, error: 'user canceled' });
+				continue;
+			}
+
+			progressModal.setProgress(i, entry.title);
+
+			const key = `${entry.apiName}:${entry.id}`;
+			if (importedEntries.has(key) || this.plugin.vaultIndex.getById(entry.apiName, entry.id)) {
+				skipped++;
+				continue;
+			}
+
+			try {
+				const model = await this.plugin.apiManager.queryDetailedInfoById(entry.id, entry.apiName);
+				if (!model) {
+					throw new Error(`MDB | no result for id ${entry.id} from ${entry.apiName}`);
+				}
+
+				applyImportedUserData(model, entry.userData);
+				await this.plugin.writeMediaDbNoteFromModel(model, { attachTemplate: true, openNote: false });
+
+				importedEntries.add(key);
+				created++;
+			} catch (e) {
+				console.warn(e);
+				erroredFiles.push({ filePath: entry.title, error: `${e}` });
+			}
+		}
+
+		progressModal.setProgress(entries.length, 'done');
+		progressModal.finish();
+
+		new Notice(`MDB | created ${created} of ${entries.length} entries${skipped > 0 ? `, skipped ${skipped} entries that already have a note` : ''}`);
+
+		if (erroredFiles.length > 0) {
+			await this.plugin.createErroredFilesReport(erroredFiles, operation);
+		}
+	}
+}
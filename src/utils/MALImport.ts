@@ -0,0 +1,240 @@
+import type { ListImportEntry } from './ListImport';
+import { normalizeRating, parseTags } from './PersonalData';
+
+/**
+ * The statuses of MyAnimeList and the status names used for them in notes, which are the default statuses of the status editor.
+ */
+const MAL_STATUSES: Record<string, string> = {
+	watching: 'In progress',
+	reading: 'In progress',
+	completed: 'Completed',
+	onhold: 'On hold',
+	dropped: 'Dropped',
+	plantowatch: 'Planned',
+	plantoread: 'Planned',
+};
+
+/**
+ * The numeric statuses of the list endpoint of MyAnimeList.
+ */
+const MAL_STATUS_IDS: Record<number, string> = {
+	1: 'watching',
+	2: 'completed',
+	3: 'onhold',
+	4: 'dropped',
+	6: 'plantowatch',
+};
+
+/**
+ * Maps a MyAnimeList status like `Plan to Watch` or `On-Hold` to the status of a note.
+ *
+ * @param status
+ */
+export function getMALStatus(status: string | number | undefined): string | undefined {
+	if (typeof status === 'number') {
+		status = MAL_STATUS_IDS[status];
+	}
+	if (!status) {
+		return undefined;
+	}
+	return MAL_STATUSES[status.toLowerCase().replace(/[\s_-]/g, '')];
+}
+
+/**
+ * Collects the data of the user that is shared by anime and manga.
+ *
+ * @param status the MyAnimeList status
+ * @param score the score from 1 to 10, 0 if not rated
+ * @param tags the tags, separated by commas
+ * @param progress the watched episodes or read chapters
+ * @param finishedKey the flag of the model that marks the entry as finished, e.g. `watched`
+ * @param ratingScale the rating scale from the settings
+ */
+function getUserData(status: string | number | undefined, score: number, tags: string, progress: number, finishedKey: string, ratingScale: number): Record<string, unknown> {
+	const personalStatus = getMALStatus(status);
+	const personalTags = parseTags(tags);
+
+	return {
+		personalStatus: personalStatus,
+		personalRating: normalizeRating(score, 10, ratingScale),
+		personalTags: personalTags.length > 0 ? personalTags : undefined,
+		progress: progress > 0 ? progress : undefined,
+		[finishedKey]: personalStatus === 'Completed',
+	};
+}
+
+/**
+ * Formats a date of a MyAnimeList export, which uses `0000-00-00` for dates that are not set.
+ *
+ * @param date
+ * @param formatDate formats a date in the ISO format with the date format of the user
+ */
+function getDate(date: string, formatDate: (date: string) => string | undefined): string | undefined {
+	if (!date || date.startsWith('0000')) {
+		return undefined;
+	}
+	return formatDate(date);
+}
+
+/**
+ * Returns the blocks of all elements with a tag name in an export. The export is flat, so the elements are not nested in elements of the same name.
+ *
+ * @param xml
+ * @param tagName
+ */
+function getElements(xml: string, tagName: string): string[] {
+	return Array.from(xml.matchAll(new RegExp(`<${tagName}>([\\s\\S]*?)</${tagName}>`, 'g')), x => x[1]);
+}
+
+/**
+ * Returns the text of the first element with a tag name in a block of an export, with CDATA sections unwrapped and entities decoded.
+ *
+ * @param xml
+ * @param tagName
+ */
+function getText(xml: string, tagName: string): string {
+	const text = getElements(xml, tagName)[0] ?? '';
+	return text
+		.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, '&')
+		.trim();
+}
+
+/**
+ * Parses the XML export of an anime or manga list from MyAnimeList.
+ * The export is read with regular expressions instead of a DOM parser, as it only consists of flat lists of simple elements.
+ *
+ * @param xml
+ * @param ratingScale the rating scale from the settings, the scores are converted to it
+ * @param formatDate formats a date in the ISO format with the date format of the user
+ */
+export function parseMALExport(xml: string, ratingScale: number, formatDate: (date: string) => string | undefined): ListImportEntry[] {
+	if (!xml.includes('<myanimelist>')) {
+		throw new Error('MDB | file is not a MyAnimeList export');
+	}
+
+	const entries: ListImportEntry[] = [];
+
+	for (const anime of getElements(xml, 'anime')) {
+		const userData = getUserData(
+			getText(anime, 'my_status'),
+			Number(getText(anime, 'my_score')),
+			getText(anime, 'my_tags'),
+			Number(getText(anime, 'my_watched_episodes')),
+			'watched',
+			ratingScale,
+		);
+		entries.push({
+			id: getText(anime, 'series_animedb_id'),
+			title: getText(anime, 'series_title'),
+			apiName: 'MALAPI',
+			userData: {
+				...userData,
+				started: getDate(getText(anime, 'my_start_date'), formatDate),
+				finished: getDate(getText(anime, 'my_finish_date'), formatDate),
+			},
+		});
+	}
+
+	for (const manga of getElements(xml, 'manga')) {
+		const userData = getUserData(
+			getText(manga, 'my_status'),
+			Number(getText(manga, 'my_score')),
+			getText(manga, 'my_tags'),
+			Number(getText(manga, 'my_read_chapters')),
+			'read',
+			ratingScale,
+		);
+		entries.push({
+			id: getText(manga, 'manga_mangadb_id'),
+			title: getText(manga, 'manga_title'),
+			apiName: 'MALAPI Manga',
+			userData: {
+				...userData,
+				started: getDate(getText(manga, 'my_start_date'), formatDate),
+				finished: getDate(getText(manga, 'my_finish_date'), formatDate),
+			},
+		});
+	}
+
+	return entries.filter(x => x.id);
+}
+
+/**
+ * An entry of the anime list endpoint of MyAnimeList, only the fields that are imported are listed.
+ * Titles that only consist of digits, e.g. `86`, are sent as numbers.
+ */
+export interface MALAnimeListItem {
+	anime_id: number;
+	anime_title?: string | number;
+	status?: number;
+	score?: number;
+	tags?: string;
+	num_watched_episodes?: number;
+}
+
+/**
+ * An entry of the manga list endpoint of MyAnimeList, see {@link MALAnimeListItem}.
+ */
+export interface MALMangaListItem {
+	manga_id: number;
+	manga_title?: string | number;
+	status?: number;
+	score?: number;
+	tags?: string;
+	num_read_chapters?: number;
+}
+
+/**
+ * Converts the entries of the anime list endpoint of MyAnimeList.
+ *
+ * @param items the items returned by `animelist/{user}/load.json`
+ * @param ratingScale the rating scale from the settings, the scores are converted to it
+ */
+export function parseMALAnimeList(items: MALAnimeListItem[], ratingScale: number): ListImportEntry[] {
+	return items.map(item => ({
+		id: String(item.anime_id),
+		title: String(item.anime_title ?? item.anime_id),
+		apiName: 'MALAPI',
+		userData: getUserData(item.status, item.score ?? 0, item.tags ?? '', item.num_watched_episodes ?? 0, 'watched', ratingScale),
+	}));
+}
+
+/**
+ * Converts the entries of the manga list endpoint of MyAnimeList. The manga list uses the statuses of the anime list.
+ *
+ * @param items the items returned by `mangalist/{user}/load.json`
+ * @param ratingScale the rating scale from the settings, the scores are converted to it
+ */
+export function parseMALMangaList(items: MALMangaListItem[], ratingScale: number): ListImportEntry[] {
+	return items.map(item => ({
+		id: String(item.manga_id),
+		title: String(item.manga_title ?? item.manga_id),
+		apiName: 'MALAPI Manga',
+		userData: getUserData(item.status, item.score ?? 0, item.tags ?? '', item.num_read_chapters ?? 0, 'read', ratingScale),
+	}));
+}
+
+export const DEFAULT_MAL_LIST_BASE_URL = 'https://myanimelist.net';
+
+/**
+ * The number of entries the list endpoint of MyAnimeList returns per request.
+ */
+export const MAL_LIST_PAGE_SIZE = 300;
+
+/**
+ * Builds the url of a page of the list endpoint of MyAnimeList. Status 7 returns the entries of all statuses.
+ *
+ * @param baseUrl the base url from the settings, {@link DEFAULT_MAL_LIST_BASE_URL} if empty
+ * @param list `animelist` or `mangalist`
+ * @param username
+ * @param offset
+ */
+export function getMALListUrl(baseUrl: string, list: 'animelist' | 'mangalist', username: string, offset: number): string {
+	const url = (baseUrl.trim() || DEFAULT_MAL_LIST_BASE_URL).replace(/\/+$/, '');
+	return `${url}/${list}/${encodeURIComponent(username)}/load.json?status=7&offset=${offset}`;
+}
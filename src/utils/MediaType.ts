@@ -7,4 +7,6 @@ export enum MediaType {
 	Wiki = 'wiki',
 	BoardGame = 'boardgame',
 	Book = 'book',
+	Podcast = 'podcast',
+	Audiobook = 'audiobook',
 }
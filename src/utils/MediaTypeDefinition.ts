@@ -0,0 +1,158 @@
+import { AudiobookModel } from '../models/AudiobookModel';
+import { BoardGameModel } from '../models/BoardGameModel';
+import { BookModel } from '../models/BookModel';
+import { ComicMangaModel } from '../models/ComicMangaModel';
+import { CustomMediaTypeModel } from '../models/CustomMediaTypeModel';
+import { GameModel } from '../models/GameModel';
+import type { MediaTypeModel } from '../models/MediaTypeModel';
+import { MovieModel } from '../models/MovieModel';
+import { MusicReleaseModel } from '../models/MusicReleaseModel';
+import { PodcastModel } from '../models/PodcastModel';
+import { SeriesModel } from '../models/SeriesModel';
+import { WikiModel } from '../models/WikiModel';
+import { MediaType } from './MediaType';
+
+/**
+ * Where new notes of a media type are placed and how they are named.
+ * - folder: the folder new notes are created in
+ * - template: the path of the template file, empty for no template
+ * - fileNameTemplate: the template for the file name of new notes
+ */
+export interface MediaTypeSettings {
+	folder: string;
+	template: string;
+	fileNameTemplate: string;
+}
+
+/**
+ * A media type defined by the user in the settings. Notes of this type have the listed fields in addition to the fields every entry has.
+ */
+export interface CustomMediaType {
+	type: string;
+	name: string;
+	fields: string[];
+}
+
+/**
+ * Everything the plugin needs to know about a media type.
+ * The default property mappings are derived from the metadata of an empty model, the summary and tags come from the model as well.
+ */
+export interface MediaTypeDefinition {
+	/**
+	 * The value of the `type` property of notes of this type.
+	 */
+	type: string;
+	/**
+	 * The singular name used in the settings, e.g. `Board game`.
+	 */
+	name: string;
+	/**
+	 * The plural name used in the settings, e.g. `board games`.
+	 */
+	pluralName: string;
+	createModel: (obj: object) => MediaTypeModel;
+	defaultSettings: MediaTypeSettings;
+	/**
+	 * The prefix of the settings of this type before they were grouped by type, e.g. `manga` for `mangaFolder`.
+	 * Only used to migrate old settings.
+	 */
+	legacySettingsKey?: string;
+	/**
+	 * Whether the type was defined by the user.
+	 */
+	custom?: boolean;
+}
+
+export const BUILT_IN_MEDIA_TYPES: MediaTypeDefinition[] = [
+	{
+		type: MediaType.Movie,
+		name: 'Movie',
+		pluralName: 'movies',
+		createModel: obj => new MovieModel(obj),
+		defaultSettings: { folder: 'Media DB/movies', template: '', fileNameTemplate: '{{ title }} ({{ year }})' },
+		legacySettingsKey: 'movie',
+	},
+	{
+		type: MediaType.Series,
+		name: 'Series',
+		pluralName: 'series',
+		createModel: obj => new SeriesModel(obj),
+		defaultSettings: { folder: 'Media DB/series', template: '', fileNameTemplate: '{{ title }} ({{ year }})' },
+		legacySettingsKey: 'series',
+	},
+	{
+		type: MediaType.ComicManga,
+		name: 'Comic and manga',
+		pluralName: 'comics and manga',
+		createModel: obj => new ComicMangaModel(obj),
+		defaultSettings: { folder: 'Media DB/comics', template: '', fileNameTemplate: '{{ title }} ({{ year }})' },
+		legacySettingsKey: 'manga',
+	},
+	{
+		type: MediaType.Game,
+		name: 'Game',
+		pluralName: 'games',
+		createModel: obj => new GameModel(obj),
+		defaultSettings: { folder: 'Media DB/games', template: '', fileNameTemplate: '{{ title }} ({{ year }})' },
+		legacySettingsKey: 'game',
+	},
+	{
+		type: MediaType.Wiki,
+		name: 'Wiki',
+		pluralName: 'wiki articles',
+		createModel: obj => new WikiModel(obj),
+		defaultSettings: { folder: 'Media DB/wiki', template: '', fileNameTemplate: '{{ title }}' },
+		legacySettingsKey: 'wiki',
+	},
+	{
+		type: MediaType.MusicRelease,
+		name: 'Music release',
+		pluralName: 'music releases',
+		createModel: obj => new MusicReleaseModel(obj),
+		defaultSettings: { folder: 'Media DB/music', template: '', fileNameTemplate: '{{ title }} (by {{ ENUM:artists }} - {{ year }})' },
+		legacySettingsKey: 'musicRelease',
+	},
+	{
+		type: MediaType.BoardGame,
+		name: 'Board game',
+		pluralName: 'board games',
+		createModel: obj => new BoardGameModel(obj),
+		defaultSettings: { folder: 'Media DB/boardgames', template: '', fileNameTemplate: '{{ title }} ({{ year }})' },
+		legacySettingsKey: 'boardgame',
+	},
+	{
+		type: MediaType.Book,
+		name: 'Book',
+		pluralName: 'books',
+		createModel: obj => new BookModel(obj),
+		defaultSettings: { folder: 'Media DB/books', template: '', fileNameTemplate: '{{ title }} ({{ year }})' },
+		legacySettingsKey: 'book',
+	},
+	{
+		type: MediaType.Podcast,
+		name: 'Podcast',
+		pluralName: 'podcasts',
+		createModel: obj => new PodcastModel(obj),
+		defaultSettings: { folder: 'Media DB/podcasts', template: '', fileNameTemplate: '{{ title }}' },
+		legacySettingsKey: 'podcast',
+	},
+	{
+		type: MediaType.Audiobook,
+		name: 'Audiobook',
+		pluralName: 'audiobooks',
+		createModel: obj => new AudiobookModel(obj),
+		defaultSettings: { folder: 'Media DB/audiobooks', template: '', fileNameTemplate: '{{ title }} ({{ year }})' },
+		legacySettingsKey: 'audiobook',
+	},
+];
+
+export function createCustomMediaTypeDefinition(customMediaType: CustomMediaType): MediaTypeDefinition {
+	return {
+		type: customMediaType.type,
+		name: customMediaType.name,
+		pluralName: customMediaType.name,
+		createModel: obj => new CustomMediaTypeModel(customMediaType.type, customMediaType.fields, obj),
+		defaultSettings: { folder: `Media DB/${customMediaType.type}`, template: '', fileNameTemplate: '{{ title }}' },
+		custom: true,
+	};
+}
@@ -1,18 +1,15 @@
 import type { App, TAbstractFile, TFile } from 'obsidian';
 import { TFolder } from 'obsidian';
-import { BoardGameModel } from '../models/BoardGameModel';
-import { BookModel } from '../models/BookModel';
-import { GameModel } from '../models/GameModel';
-import { ComicMangaModel } from '../models/ComicMangaModel';
 import type { MediaTypeModel } from '../models/MediaTypeModel';
-import { MovieModel } from '../models/MovieModel';
-import { MusicReleaseModel } from '../models/MusicReleaseModel';
-import { SeriesModel } from '../models/SeriesModel';
-import { WikiModel } from '../models/WikiModel';
 import type { MediaDbPluginSettings } from '../settings/Settings';
 import { MediaType } from './MediaType';
+import type { CustomMediaType, MediaTypeDefinition, MediaTypeSettings } from './MediaTypeDefinition';
+import { BUILT_IN_MEDIA_TYPES, createCustomMediaTypeDefinition } from './MediaTypeDefinition';
 import { replaceTags } from './Utils';
 
+/**
+ * The built-in media types, these are the types the APIs return.
+ */
 export const MEDIA_TYPES: MediaType[] = [
 	MediaType.Movie,
 	MediaType.Series,
@@ -22,51 +19,100 @@ export const MEDIA_TYPES: MediaType[] = [
 	MediaType.MusicRelease,
 	MediaType.BoardGame,
 	MediaType.Book,
+	MediaType.Podcast,
+	MediaType.Audiobook,
 ];
 
 export class MediaTypeManager {
-	mediaFileNameTemplateMap: Map<MediaType, string>;
-	mediaTemplateMap: Map<MediaType, string>;
-	mediaFolderMap: Map<MediaType, string>;
+	mediaTypeDefinitions: Map<string, MediaTypeDefinition>;
+	mediaFileNameTemplateMap: Map<string, string>;
+	mediaTemplateMap: Map<string, string>;
+	mediaFolderMap: Map<string, string>;
 
 	constructor() {
-		this.mediaFileNameTemplateMap = new Map<MediaType, string>();
-		this.mediaTemplateMap = new Map<MediaType, string>();
-		this.mediaFolderMap = new Map<MediaType, string>();
+		this.mediaTypeDefinitions = new Map<string, MediaTypeDefinition>();
+		this.mediaFileNameTemplateMap = new Map<string, string>();
+		this.mediaTemplateMap = new Map<string, string>();
+		this.mediaFolderMap = new Map<string, string>();
+
+		for (const definition of BUILT_IN_MEDIA_TYPES) {
+			this.registerMediaType(definition);
+		}
+	}
+
+	/**
+	 * Adds a media type, replacing any media type with the same type.
+	 *
+	 * @param definition
+	 */
+	registerMediaType(definition: MediaTypeDefinition): void {
+		this.mediaTypeDefinitions.set(definition.type, definition);
+	}
+
+	unregisterMediaType(type: string): void {
+		this.mediaTypeDefinitions.delete(type);
+	}
+
+	/**
+	 * Replaces the registered custom media types with the ones from the settings.
+	 *
+	 * @param customMediaTypes
+	 */
+	updateCustomMediaTypes(customMediaTypes: CustomMediaType[]): void {
+		for (const definition of this.getMediaTypeDefinitions()) {
+			if (definition.custom) {
+				this.unregisterMediaType(definition.type);
+			}
+		}
+
+		for (const customMediaType of customMediaTypes) {
+			const existingDefinition = this.mediaTypeDefinitions.get(customMediaType.type);
+			if (existingDefinition && !existingDefinition.custom) {
+				console.warn(`MDB | custom media type "${customMediaType.type}" has the same type as a built-in media type and is ignored`);
+				continue;
+			}
+			this.registerMediaType(createCustomMediaTypeDefinition(customMediaType));
+		}
+	}
+
+	getMediaTypeDefinition(type: string): MediaTypeDefinition | undefined {
+		return this.mediaTypeDefinitions.get(type);
+	}
+
+	getMediaTypeDefinitions(): MediaTypeDefinition[] {
+		return [...this.mediaTypeDefinitions.values()];
+	}
+
+	hasMediaType(type: string): boolean {
+		return this.mediaTypeDefinitions.has(type);
+	}
+
+	/**
+	 * Returns the settings of a media type, falling back to the defaults of the type for settings that are not set.
+	 *
+	 * @param settings
+	 * @param type
+	 */
+	getMediaTypeSettings(settings: MediaDbPluginSettings, type: string): MediaTypeSettings {
+		const defaultSettings = this.mediaTypeDefinitions.get(type)?.defaultSettings ?? { folder: '', template: '', fileNameTemplate: '{{ title }}' };
+		return { ...defaultSettings, ...settings.mediaTypeSettings?.[type] };
 	}
 
 	updateTemplates(settings: MediaDbPluginSettings): void {
-		this.mediaFileNameTemplateMap = new Map<MediaType, string>();
-		this.mediaFileNameTemplateMap.set(MediaType.Movie, settings.movieFileNameTemplate);
-		this.mediaFileNameTemplateMap.set(MediaType.Series, settings.seriesFileNameTemplate);
-		this.mediaFileNameTemplateMap.set(MediaType.ComicManga, settings.mangaFileNameTemplate);
-		this.mediaFileNameTemplateMap.set(MediaType.Game, settings.gameFileNameTemplate);
-		this.mediaFileNameTemplateMap.set(MediaType.Wiki, settings.wikiFileNameTemplate);
-		this.mediaFileNameTemplateMap.set(MediaType.MusicRelease, settings.musicReleaseFileNameTemplate);
-		this.mediaFileNameTemplateMap.set(MediaType.BoardGame, settings.boardgameFileNameTemplate);
-		this.mediaFileNameTemplateMap.set(MediaType.Book, settings.bookFileNameTemplate);
-
-		this.mediaTemplateMap = new Map<MediaType, string>();
-		this.mediaTemplateMap.set(MediaType.Movie, settings.movieTemplate);
-		this.mediaTemplateMap.set(MediaType.Series, settings.seriesTemplate);
-		this.mediaTemplateMap.set(MediaType.ComicManga, settings.mangaTemplate);
-		this.mediaTemplateMap.set(MediaType.Game, settings.gameTemplate);
-		this.mediaTemplateMap.set(MediaType.Wiki, settings.wikiTemplate);
-		this.mediaTemplateMap.set(MediaType.MusicRelease, settings.musicReleaseTemplate);
-		this.mediaTemplateMap.set(MediaType.BoardGame, settings.boardgameTemplate);
-		this.mediaTemplateMap.set(MediaType.Book, settings.bookTemplate);
+		this.mediaFileNameTemplateMap = new Map<string, string>();
+		this.mediaTemplateMap = new Map<string, string>();
+		for (const definition of this.mediaTypeDefinitions.values()) {
+			const mediaTypeSettings = this.getMediaTypeSettings(settings, definition.type);
+			this.mediaFileNameTemplateMap.set(definition.type, mediaTypeSettings.fileNameTemplate);
+			this.mediaTemplateMap.set(definition.type, mediaTypeSettings.template);
+		}
 	}
 
 	updateFolders(settings: MediaDbPluginSettings): void {
-		this.mediaFolderMap = new Map<MediaType, string>();
-		this.mediaFolderMap.set(MediaType.Movie, settings.movieFolder);
-		this.mediaFolderMap.set(MediaType.Series, settings.seriesFolder);
-		this.mediaFolderMap.set(MediaType.ComicManga, settings.mangaFolder);
-		this.mediaFolderMap.set(MediaType.Game, settings.gameFolder);
-		this.mediaFolderMap.set(MediaType.Wiki, settings.wikiFolder);
-		this.mediaFolderMap.set(MediaType.MusicRelease, settings.musicReleaseFolder);
-		this.mediaFolderMap.set(MediaType.BoardGame, settings.boardgameFolder);
-		this.mediaFolderMap.set(MediaType.Book, settings.bookFolder);
+		this.mediaFolderMap = new Map<string, string>();
+		for (const definition of this.mediaTypeDefinitions.values()) {
+			this.mediaFolderMap.set(definition.type, this.getMediaTypeSettings(settings, definition.type).folder);
+		}
 	}
 
 	getFileName(mediaTypeModel: MediaTypeModel): string {
@@ -122,30 +168,17 @@ export class MediaTypeManager {
 	}
 
 	/**
-	 * Takes an object and a MediaType and turns the object into an instance of a MediaTypeModel corresponding to the MediaType passed in.
+	 * Takes an object and a media type and turns the object into an instance of the MediaTypeModel of the media type.
 	 *
 	 * @param obj
 	 * @param mediaType
 	 */
-	createMediaTypeModelFromMediaType(obj: any, mediaType: MediaType): MediaTypeModel {
-		if (mediaType === MediaType.Movie) {
-			return new MovieModel(obj);
-		} else if (mediaType === MediaType.Series) {
-			return new SeriesModel(obj);
-		} else if (mediaType === MediaType.ComicManga) {
-			return new ComicMangaModel(obj);
-		} else if (mediaType === MediaType.Game) {
-			return new GameModel(obj);
-		} else if (mediaType === MediaType.Wiki) {
-			return new WikiModel(obj);
-		} else if (mediaType === MediaType.MusicRelease) {
-			return new MusicReleaseModel(obj);
-		} else if (mediaType === MediaType.BoardGame) {
-			return new BoardGameModel(obj);
-		} else if (mediaType === MediaType.Book) {
-			return new BookModel(obj);
+	createMediaTypeModelFromMediaType(obj: object, mediaType: string): MediaTypeModel {
+		const definition = this.mediaTypeDefinitions.get(mediaType);
+		if (!definition) {
+			throw new Error(`Unknown media type: ${mediaType}`);
 		}
 
-		throw new Error(`Unknown media type: ${mediaType}`);
+		return definition.createModel(obj);
 	}
 }
@@ -0,0 +1,85 @@
+import type { Metadata } from '../main';
+
+export enum MetadataMergePolicy {
+	ApiWins = 'api',
+	NoteWins = 'note',
+	FillEmpty = 'empty',
+}
+
+export const metadataMergePolicies = [MetadataMergePolicy.ApiWins, MetadataMergePolicy.NoteWins, MetadataMergePolicy.FillEmpty];
+
+export const metadataMergePolicyNames: Record<MetadataMergePolicy, string> = {
+	[MetadataMergePolicy.ApiWins]: 'API wins',
+	[MetadataMergePolicy.NoteWins]: 'Note wins',
+	[MetadataMergePolicy.FillEmpty]: 'Only fill empty',
+};
+
+/**
+ * Parses per property merge rules.
+ * Every line has to follow the syntax `[property name]: [api | note | empty]`, empty lines are ignored.
+ *
+ * @param rules
+ */
+export function parseMetadataMergeRules(rules: string): Map<string, MetadataMergePolicy> {
+	const parsedRules = new Map<string, MetadataMergePolicy>();
+
+	for (const line of rules.split('\n')) {
+		if (!line.trim()) {
+			continue;
+		}
+
+		const parts = line.split(':');
+		if (parts.length !== 2) {
+			throw new Error(`MDB | invalid merge rule "${line}", expected "[property name]: [${metadataMergePolicies.join(' | ')}]"`);
+		}
+
+		const property = parts[0].trim();
+		const policy = parts[1].trim() as MetadataMergePolicy;
+		if (!property || !metadataMergePolicies.contains(policy)) {
+			throw new Error(`MDB | invalid merge rule "${line}", expected "[property name]: [${metadataMergePolicies.join(' | ')}]"`);
+		}
+
+		parsedRules.set(property, policy);
+	}
+
+	return parsedRules;
+}
+
+export function isEmptyMetadataValue(value: unknown): boolean {
+	if (value === undefined || value === null || value === '') {
+		return true;
+	}
+	if (Array.isArray(value)) {
+		return value.length === 0;
+	}
+	return false;
+}
+
+/**
+ * Merges the metadata from the note with the metadata from the API property by property.
+ * Both objects are expected to use the original (not remapped) property names.
+ *
+ * @param noteMetadata the metadata currently in the note
+ * @param apiMetadata the metadata freshly queried from the API
+ * @param defaultPolicy the policy for properties without their own rule
+ * @param rules per property policies
+ * @returns the merged metadata, containing every property of `apiMetadata`
+ */
+export function mergeMetadata(noteMetadata: Metadata, apiMetadata: Metadata, defaultPolicy: MetadataMergePolicy, rules: Map<string, MetadataMergePolicy>): Metadata {
+	const merged: Metadata = {};
+
+	for (const [key, apiValue] of Object.entries(apiMetadata)) {
+		const policy = rules.get(key) ?? defaultPolicy;
+		const noteValue = noteMetadata[key];
+
+		if (policy === MetadataMergePolicy.NoteWins && noteValue !== undefined) {
+			merged[key] = noteValue;
+		} else if (policy === MetadataMergePolicy.FillEmpty && !isEmptyMetadataValue(noteValue)) {
+			merged[key] = noteValue;
+		} else {
+			merged[key] = apiValue;
+		}
+	}
+
+	return merged;
+}
@@ -1,7 +1,9 @@
 import { Notice } from 'obsidian';
 import { MediaDbPreviewModal } from 'src/modals/MediaDbPreviewModal';
 import type MediaDbPlugin from '../main';
+import type { Metadata } from '../main';
 import { MediaDbAdvancedSearchModal } from '../modals/MediaDbAdvancedSearchModal';
+import { MediaDbDiffModal } from '../modals/MediaDbDiffModal';
 import { MediaDbIdSearchModal } from '../modals/MediaDbIdSearchModal';
 import { MediaDbSearchModal } from '../modals/MediaDbSearchModal';
 import { MediaDbSearchResultModal } from '../modals/MediaDbSearchResultModal';
@@ -69,34 +71,47 @@ export type SelectModalResult = SkippableModalResult<SelectModalData>;
  */
 export type PreviewModalResult = ModalResult<PreviewModalData>;
 
+/**
+ * Object containing the data {@link ModalHelper.createDiffModal} returns.
+ * On {@link ModalResultCode.SUCCESS} this contains {@link DiffModalData}.
+ * On {@link ModalResultCode.ERROR} this contains a reference to that error.
+ */
+export type DiffModalResult = ModalResult<DiffModalData>;
+
 /**
  * The data the search modal returns.
  * - query: the query string
  * - types: the selected APIs
+ * - bypassCache: whether cached API results should be ignored
  */
 export interface SearchModalData {
 	query: string;
 	types: MediaType[];
+	bypassCache: boolean;
 }
 
 /**
  * The data the advanced search modal returns.
  * - query: the query string
  * - apis: the selected APIs
+ * - bypassCache: whether cached API results should be ignored
  */
 export interface AdvancedSearchModalData {
 	query: string;
 	apis: string[];
+	bypassCache: boolean;
 }
 
 /**
  * The data the id search modal returns.
  * - query: the query string
  * - apis: the selected APIs
+ * - bypassCache: whether cached API results should be ignored
  */
 export interface IdSearchModalData {
 	query: string;
 	api: string;
+	bypassCache: boolean;
 }
 
 /**
@@ -115,6 +130,14 @@ export interface PreviewModalData {
 	confirmed: boolean;
 }
 
+/**
+ * The data the diff modal returns.
+ * - acceptedKeys: the properties whose new values should be applied
+ */
+export interface DiffModalData {
+	acceptedKeys: string[];
+}
+
 /**
  * Options for the search modal.
  * - modalTitle: the title of the modal
@@ -144,11 +167,13 @@ export interface AdvancedSearchModalOptions {
  * - modalTitle: the title of the modal
  * - preselectedAPIs: a list of preselected APIs
  * - prefilledSearchString: prefilled query
+ * - urlMode: whether the modal asks for the url of an entry instead of an id, the API is then recognized from the url
  */
 export interface IdSearchModalOptions {
 	modalTitle?: string;
 	preselectedAPI?: string;
 	prefilledSearchString?: string;
+	urlMode?: boolean;
 }
 
 /**
@@ -175,6 +200,18 @@ export interface PreviewModalOptions {
 	elements?: MediaTypeModel[];
 }
 
+/**
+ * Options for the diff modal.
+ * - modalTitle: the title of the modal
+ * - oldMetadata: the metadata currently in the note
+ * - newMetadata: the metadata that should be written to the note
+ */
+export interface DiffModalOptions {
+	modalTitle?: string;
+	oldMetadata?: Metadata;
+	newMetadata?: Metadata;
+}
+
 export const SEARCH_MODAL_DEFAULT_OPTIONS: SearchModalOptions = {
 	modalTitle: 'Media DB Search',
 	preselectedTypes: [],
@@ -191,6 +228,7 @@ export const ID_SEARCH_MODAL_DEFAULT_OPTIONS: IdSearchModalOptions = {
 	modalTitle: 'Media DB Id Search',
 	preselectedAPI: '',
 	prefilledSearchString: '',
+	urlMode: false,
 };
 
 export const SELECT_MODAL_OPTIONS_DEFAULT: SelectModalOptions = {
@@ -205,6 +243,12 @@ export const PREVIEW_MODAL_DEFAULT_OPTIONS: PreviewModalOptions = {
 	elements: [],
 };
 
+export const DIFF_MODAL_DEFAULT_OPTIONS: DiffModalOptions = {
+	modalTitle: 'Media DB Metadata Changes',
+	oldMetadata: {},
+	newMetadata: {},
+};
+
 /**
  * A class providing multiple usefull functions for dealing with the plugins modals.
  */
@@ -524,4 +568,65 @@ export class ModalHelper {
 			return true;
 		}
 	}
+
+	/**
+	 * Creates an {@link MediaDbDiffModal}, then sets callbacks and awaits them,
+	 * returning either the user input once submitted or nothing once closed.
+	 * The modal needs ot be manually closed by calling `close()` on the modal reference.
+	 *
+	 * @param diffModalOptions the options for the modal, see {@link DIFF_MODAL_DEFAULT_OPTIONS}
+	 * @returns the user input or nothing and a reference to the modal.
+	 */
+	async createDiffModal(diffModalOptions: DiffModalOptions): Promise<{ diffModalResult: DiffModalResult; diffModal: MediaDbDiffModal }> {
+		const modal = new MediaDbDiffModal(this.plugin, diffModalOptions);
+		const res: DiffModalResult = await new Promise(resolve => {
+			modal.setSubmitCallback(res => resolve({ code: ModalResultCode.SUCCESS, data: res }));
+			modal.setOnCloseCallback(err => {
+				if (err) {
+					resolve({ code: ModalResultCode.ERROR, error: err });
+				}
+				resolve({ code: ModalResultCode.CLOSE });
+			});
+
+			modal.open();
+		});
+		return { diffModalResult: res, diffModal: modal };
+	}
+
+	/**
+	 * Opens an {@link MediaDbDiffModal} and awaits its result,
+	 * then executes the `submitCallback` and closes the modal.
+	 *
+	 * @param diffModalOptions the options for the modal, see {@link DIFF_MODAL_DEFAULT_OPTIONS}
+	 * @param submitCallback the callback that gets executed after the modal has been submitted, but before it has been closed
+	 * @returns whether the changes have been applied.
+	 */
+	async openDiffModal(diffModalOptions: DiffModalOptions, submitCallback: (diffModalData: DiffModalData) => Promise<void>): Promise<boolean> {
+		const { diffModalResult, diffModal } = await this.createDiffModal(diffModalOptions);
+		console.debug(`MDB | diffModal closed with code ${diffModalResult.code}`);
+
+		if (diffModalResult.code === ModalResultCode.ERROR) {
+			// there was an error in the modal itself
+			console.warn(diffModalResult.error);
+			new Notice(diffModalResult.error.toString());
+			diffModal.close();
+			return false;
+		}
+
+		if (diffModalResult.code === ModalResultCode.CLOSE) {
+			// modal is already being closed
+			return false;
+		}
+
+		try {
+			await submitCallback(diffModalResult.data);
+			diffModal.close();
+			return true;
+		} catch (e) {
+			console.warn(e);
+			new Notice(`${e}`);
+			diffModal.close();
+			return false;
+		}
+	}
 }
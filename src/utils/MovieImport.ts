@@ -0,0 +1,203 @@
+import type { OMDbAPI } from '../api/apis/OMDbAPI';
+import type { MediaTypeModel } from '../models/MediaTypeModel';
+import { parseCSVRecords } from './CSV';
+import type { ListImportMatch } from './ListImport';
+import { getSimilarity } from './ListImport';
+import { MediaType } from './MediaType';
+import { normalizeRating, parseTags } from './PersonalData';
+
+/**
+ * A movie or series of a Letterboxd or IMDb export.
+ * - row: the line of the entry in the export, used in the match report
+ * - title: the title
+ * - year: the release year, empty if the export has none
+ * - imdbId: the IMDb id, only IMDb exports have it
+ * - userData: the data of the user for the entry, using the property names of the movie and series models
+ */
+export interface MovieImportRow {
+	row: number;
+	title: string;
+	year: string;
+	imdbId: string;
+	userData: Record<string, unknown>;
+}
+
+/**
+ * A row of an export before the rows of the same entry are merged.
+ */
+interface MovieExportRecord {
+	row: number;
+	title: string;
+	year: string;
+	imdbId: string;
+	rating: number;
+	maxRating: number;
+	tags: string[];
+	date: string;
+}
+
+/**
+ * The title types of IMDb that are not imported, as they have no movie or series note.
+ */
+const IGNORED_IMDB_TITLE_TYPES = ['tv episode', 'video game', 'podcast episode'];
+
+/**
+ * The media types of the search results that can be matched to a row, OMDb also finds games.
+ */
+const MATCHED_MEDIA_TYPES: string[] = [MediaType.Movie, MediaType.Series];
+
+/**
+ * Parses a row of the `diary.csv`, `ratings.csv` or `watched.csv` of a Letterboxd export. Ratings use half stars from 0.5 to 5.
+ * The diary has the date the movie was watched, the other files only the date it was logged, which is used instead.
+ *
+ * @param record
+ * @param row
+ */
+function parseLetterboxdRecord(record: Record<string, string>, row: number): MovieExportRecord {
+	return {
+		row: row,
+		title: (record.Name ?? '').trim(),
+		year: (record.Year ?? '').trim(),
+		imdbId: '',
+		rating: Number(record.Rating || 0),
+		maxRating: 5,
+		tags: parseTags(record.Tags ?? ''),
+		date: (record['Watched Date'] || record.Date || '').trim(),
+	};
+}
+
+/**
+ * Parses a row of the `ratings.csv` of an IMDb export. Ratings go from 1 to 10.
+ *
+ * @param record
+ * @param row
+ */
+function parseIMDbRecord(record: Record<string, string>, row: number): MovieExportRecord {
+	return {
+		row: row,
+		title: (record.Title ?? '').trim(),
+		year: (record.Year ?? '').trim(),
+		imdbId: (record.Const ?? '').trim(),
+		rating: Number(record['Your Rating'] || 0),
+		maxRating: 10,
+		tags: [],
+		date: (record['Date Rated'] ?? '').trim(),
+	};
+}
+
+/**
+ * Parses the CSV export of the diary or ratings of Letterboxd or the ratings of IMDb. The site is detected from the columns of the export.
+ * A movie that was watched multiple times has multiple rows in the diary, only the last one is imported.
+ *
+ * @param csv
+ * @param ratingScale the rating scale from the settings
+ * @param formatDate formats a date in the ISO format with the date format of the user
+ */
+export function parseMovieExport(csv: string, ratingScale: number, formatDate: (date: string) => string | undefined): MovieImportRow[] {
+	const records = parseCSVRecords(csv);
+	const columns = Object.keys(records[0] ?? {});
+
+	let exportRecords: MovieExportRecord[];
+	if (columns.includes('Letterboxd URI')) {
+		exportRecords = records.map((record, i) => parseLetterboxdRecord(record, i + 2));
+	} else if (columns.includes('Const') && columns.includes('Your Rating')) {
+		exportRecords = records
+			.map((record, i) => ({ record, row: i + 2 }))
+			.filter(x => !IGNORED_IMDB_TITLE_TYPES.includes((x.record['Title Type'] ?? '').trim().toLowerCase()))
+			.map(x => parseIMDbRecord(x.record, x.row));
+	} else {
+		throw new Error('MDB | file is not a Letterboxd or IMDb export');
+	}
+
+	const latestRecords = new Map<string, MovieExportRecord>();
+	for (const record of exportRecords) {
+		if (!record.title && !record.imdbId) {
+			continue;
+		}
+
+		const key = record.imdbId || `${record.title.toLowerCase()} (${record.year})`;
+		const latestRecord = latestRecords.get(key);
+		// the dates are in the ISO format, so they can be compared as strings
+		if (!latestRecord || record.date >= latestRecord.date) {
+			latestRecords.set(key, record);
+		}
+	}
+
+	return Array.from(latestRecords.values()).map(record => {
+		const date = /^\d{4}-\d{2}-\d{2}$/.test(record.date) ? formatDate(record.date) : undefined;
+
+		return {
+			row: record.row,
+			title: record.title,
+			year: record.year,
+			imdbId: record.imdbId,
+			userData: {
+				personalStatus: 'Completed',
+				personalRating: normalizeRating(record.rating, record.maxRating, ratingScale),
+				personalTags: record.tags.length > 0 ? record.tags : undefined,
+				watched: true,
+				lastWatched: date,
+				finished: date,
+			},
+		};
+	});
+}
+
+/**
+ * How confident it is that a search result is the movie or series of a row, from 0 to 1.
+ * Release years may differ by one year between the sites, e.g. for festival releases.
+ *
+ * @param row
+ * @param candidate
+ */
+export function getMovieMatchConfidence(row: Pick<MovieImportRow, 'title' | 'year'>, candidate: Pick<MediaTypeModel, 'title' | 'year'>): number {
+	const titleSimilarity = getSimilarity(row.title, candidate.title);
+
+	const year = Number(row.year);
+	const candidateYear = Number(String(candidate.year).slice(0, 4));
+	const yearMatches = !year || !candidateYear || Math.abs(year - candidateYear) <= 1;
+
+	return Math.round(titleSimilarity * (yearMatches ? 1 : 0.5) * 100) / 100;
+}
+
+/**
+ * Finds the movie or series in the search results that matches a row best, other results like games are ignored.
+ *
+ * @param row
+ * @param candidates
+ */
+export function findBestMovieMatch(row: Pick<MovieImportRow, 'title' | 'year'>, candidates: MediaTypeModel[]): { candidate: MediaTypeModel; confidence: number } | undefined {
+	let best: { candidate: MediaTypeModel; confidence: number } | undefined;
+	for (const candidate of candidates) {
+		if (!MATCHED_MEDIA_TYPES.includes(candidate.type)) {
+			continue;
+		}
+
+		const confidence = getMovieMatchConfidence(row, candidate);
+		if (!best || confidence > best.confidence) {
+			best = { candidate, confidence };
+		}
+	}
+	return best;
+}
+
+/**
+ * Finds the OMDb entry of a row. Rows of IMDb exports already have their IMDb id, rows of Letterboxd exports are matched by their title and year.
+ *
+ * @param api
+ * @param row
+ */
+export async function matchMovieRow(api: OMDbAPI, row: MovieImportRow): Promise<ListImportMatch | undefined> {
+	if (row.imdbId) {
+		return { id: row.imdbId, title: row.title, confidence: 1 };
+	}
+
+	let results = await api.searchByTitleAndYear(row.title, row.year);
+	// the release year can differ between the sites, so search without it if nothing is found
+	if (results.length === 0 && row.year) {
+		results = await api.searchByTitle(row.title);
+	}
+
+	const best = findBestMovieMatch(row, results);
+	return best ? { id: best.candidate.id, title: best.candidate.title, confidence: best.confidence } : undefined;
+}
@@ -0,0 +1,59 @@
+import type { Metadata } from '../main';
+
+/**
+ * The rating, status and tags the user gave an entry.
+ */
+export interface PersonalData {
+	personalRating?: number;
+	personalStatus?: string;
+	personalTags: string[];
+}
+
+export const PERSONAL_DATA_PROPERTIES = ['personalRating', 'personalStatus', 'personalTags'] as const;
+
+export const DEFAULT_PERSONAL_STATUSES: string[] = ['Planned', 'In progress', 'Completed', 'On hold', 'Dropped'];
+
+/**
+ * Splits user input into tags. Tags are separated by commas or whitespace, a leading `#` is removed and duplicates are dropped.
+ *
+ * @param input
+ */
+export function parseTags(input: string): string[] {
+	const tags = input
+		.split(/[,\s]+/)
+		.map(x => x.replace(/^#/, ''))
+		.filter(x => x);
+	return [...new Set(tags)];
+}
+
+/**
+ * Converts a rating of another site to the rating scale of the plugin, e.g. 7 out of 10 becomes 3.5 out of 5. Ratings are rounded to one decimal place.
+ *
+ * @param rating the rating, 0 if not rated
+ * @param maxRating the highest rating of the other site
+ * @param scale the rating scale from the settings
+ */
+export function normalizeRating(rating: number, maxRating: number, scale: number): number | undefined {
+	if (!(rating > 0) || !(maxRating > 0)) {
+		return undefined;
+	}
+	return Math.round((Math.min(rating, maxRating) / maxRating) * scale * 10) / 10;
+}
+
+/**
+ * Reads the personal data from the metadata of a note, the metadata has to use the original property names.
+ * Ratings of 0 are treated as no rating, as some APIs use 0 for entries the user has not rated.
+ *
+ * @param metadata
+ */
+export function readPersonalData(metadata: Metadata): PersonalData {
+	const rating = Number(metadata.personalRating);
+	const status = metadata.personalStatus;
+	const tags = metadata.personalTags;
+
+	return {
+		personalRating: rating > 0 ? rating : undefined,
+		personalStatus: typeof status === 'string' && status ? status : undefined,
+		personalTags: Array.isArray(tags) ? parseTags(tags.join(',')) : typeof tags === 'string' ? parseTags(tags) : [],
+	};
+}
@@ -0,0 +1,58 @@
+import type { MediaTypeModel } from '../models/MediaTypeModel';
+import { capitalizeFirstLetter } from './Utils';
+
+export const PROGRESS_LOG_HEADING = '## Progress log';
+
+/**
+ * Describes the current progress of a model for the progress log, e.g. `2024-05-01: Episode 5 of 12 (42%)`.
+ *
+ * @param model
+ * @param date the formatted date of today
+ * @param comment an optional comment of the user
+ */
+export function formatProgressLogEntry(model: MediaTypeModel, date: string, comment: string = ''): string {
+	let entry: string;
+	if (model.finished === date && model.progressPercent === 100) {
+		entry = `${date}: Finished`;
+	} else if (model.getProgressUnit() && model.progress !== undefined) {
+		const total = model.getProgressTotal();
+		entry = `${date}: ${capitalizeFirstLetter(model.getProgressUnit())} ${model.progress}${total > 0 ? ` of ${total}` : ''}`;
+		if (model.progressPercent !== undefined) {
+			entry += ` (${model.progressPercent}%)`;
+		}
+	} else {
+		entry = `${date}: ${model.progressPercent ?? 0}%`;
+	}
+
+	return comment.trim() ? `${entry} - ${comment.trim()}` : entry;
+}
+
+/**
+ * Appends an entry to the progress log section of a note. The section is added to the end of the note if it does not exist yet.
+ *
+ * @param content the content of the note
+ * @param entry
+ */
+export function appendProgressLogEntry(content: string, entry: string): string {
+	const lines = content.split('\n');
+	const headingIndex = lines.findIndex(x => x.trim() === PROGRESS_LOG_HEADING);
+
+	if (headingIndex === -1) {
+		return `${content.trimEnd()}\n\n${PROGRESS_LOG_HEADING}\n\n- ${entry}\n`;
+	}
+
+	// the section ends at the next heading of the same or a higher level
+	let sectionEnd = lines.findIndex((x, i) => i > headingIndex && /^#{1,2}\s/.test(x));
+	if (sectionEnd === -1) {
+		sectionEnd = lines.length;
+	}
+
+	// insert the entry after the last entry of the section, not after the empty lines before the next heading
+	let insertIndex = sectionEnd;
+	while (insertIndex > headingIndex + 1 && lines[insertIndex - 1].trim() === '') {
+		insertIndex--;
+	}
+	lines.splice(insertIndex, 0, `- ${entry}`);
+
+	return lines.join('\n');
+}
@@ -0,0 +1,65 @@
+import type { ListImportEntry } from './ListImport';
+
+/**
+ * A game of a `GetOwnedGames` response, only the fields that are imported are listed.
+ */
+export interface SteamOwnedGame {
+	appid: number;
+	name?: string;
+	playtime_forever?: number;
+	rtime_last_played?: number;
+}
+
+/**
+ * A `GetOwnedGames` response, the games are missing if the game details of the account are private.
+ */
+export interface SteamOwnedGamesResponse {
+	response?: { games?: SteamOwnedGame[] };
+}
+
+/**
+ * Converts the games of a `GetOwnedGames` response of the Steam Web API, which has to be requested with `include_appinfo` to contain the names of the games.
+ * The playtime is converted from minutes to hours.
+ *
+ * @param json the parsed response, either the whole response or only its `response` object
+ * @param formatDate formats a date in the ISO format with the date format of the user
+ */
+export function parseSteamOwnedGames(json: unknown, formatDate: (date: string) => string | undefined): ListImportEntry[] {
+	const data = json as (SteamOwnedGamesResponse & { games?: SteamOwnedGame[] }) | null | undefined;
+	const games = (data?.response ?? data)?.games;
+	// the response of an account with private game details has no games
+	if (data?.response && games === undefined) {
+		throw new Error('MDB | no games found in the file, the game details of the account might be private');
+	}
+	if (!Array.isArray(games)) {
+		throw new Error('MDB | file is not a Steam GetOwnedGames response');
+	}
+
+	return games
+		.filter(game => game?.appid !== undefined)
+		.map(game => {
+			const playtime = game.playtime_forever ?? 0;
+			const lastPlayed = game.rtime_last_played ?? 0;
+
+			return {
+				id: String(game.appid),
+				title: String(game.name ?? game.appid),
+				apiName: 'SteamAPI',
+				userData: {
+					played: playtime > 0,
+					playtime: playtime > 0 ? Math.round((playtime / 60) * 10) / 10 : undefined,
+					lastPlayed: lastPlayed > 0 ? formatDate(new Date(lastPlayed * 1000).toISOString().slice(0, 10)) : undefined,
+				},
+			};
+		});
+}
+
+/**
+ * Builds the url of the `GetOwnedGames` endpoint of the Steam Web API, including free games the user has played.
+ *
+ * @param key the Steam Web API key
+ * @param steamId the 64-bit Steam ID of the user
+ */
+export function getSteamOwnedGamesUrl(key: string, steamId: string): string {
+	return `https://api.steampowered.com/IPlayerService/GetOwnedGames/v1/?key=${encodeURIComponent(key)}&steamid=${encodeURIComponent(steamId)}&include_appinfo=1&include_played_free_games=1&format=json`;
+}
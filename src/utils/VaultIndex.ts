@@ -0,0 +1,269 @@
+import type { TFile } from 'obsidian';
+import type MediaDbPlugin from '../main';
+import type { MediaTypeModel } from '../models/MediaTypeModel';
+import { getSimilarity } from './ListImport';
+
+/**
+ * A Media DB note in the vault.
+ * - file: the note
+ * - type, dataSource, id: identify the entry the note was created from
+ * - titles: the title and english title of the entry
+ * - year: the year of the entry, empty if the note has none
+ */
+export interface VaultIndexEntry {
+	file: TFile;
+	type: string;
+	dataSource: string;
+	id: string;
+	titles: string[];
+	year: string;
+}
+
+/**
+ * A note that is already in the vault for an entry that is about to be created.
+ * - entry: the existing note
+ * - sameId: whether the note was created from the same entry of the same API, otherwise it only has a similar title and year
+ */
+export interface VaultIndexMatch {
+	entry: VaultIndexEntry;
+	sameId: boolean;
+}
+
+/**
+ * The minimum similarity of the titles of a note and an entry to count the note as a duplicate of an entry from another API.
+ */
+export const DUPLICATE_TITLE_MIN_SIMILARITY = 0.9;
+
+/**
+ * Whether a note is probably about the same media as an entry, even though it was created from another API.
+ * Both need to have the same type, a similar title and, if both have one, the same year.
+ *
+ * @param entry
+ * @param model
+ */
+export function isSimilarEntry(entry: Pick<VaultIndexEntry, 'type' | 'titles' | 'year'>, model: Pick<MediaTypeModel, 'type' | 'title' | 'englishTitle' | 'year'>): boolean {
+	if (entry.type !== model.type) {
+		return false;
+	}
+
+	// years like `2022–2025` are compared by their first year
+	const entryYear = String(entry.year ?? '').slice(0, 4);
+	const modelYear = String(model.year ?? '').slice(0, 4);
+	if (entryYear && modelYear && entryYear !== modelYear) {
+		return false;
+	}
+
+	const modelTitles = [model.title, model.englishTitle].filter(x => x);
+	return entry.titles.some(title => modelTitles.some(modelTitle => getSimilarity(title, modelTitle) >= DUPLICATE_TITLE_MIN_SIMILARITY));
+}
+
+/**
+ * Converts a metadata value to text, values that are not strings or numbers, e.g. lists, are treated as missing.
+ *
+ * @param value
+ */
+function getText(value: unknown): string {
+	return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+}
+
+/**
+ * An index of the Media DB notes in the vault, mapping the type, data source and id of the entries to their notes.
+ * The index is built from the metadata cache the first time it is used and kept up to date by the plugin when the metadata of notes changes or notes are renamed or deleted.
+ * As the metadata cache is not complete before it is resolved for the first time, an index built before that is built again once the cache is resolved.
+ * The metadata is converted back to the original property names, so notes are found even if the properties are renamed in the settings.
+ *
+ * Other plugins can use the lookups through `app.plugins.getPlugin('obsidian-media-db-plugin').vaultIndex`.
+ */
+export class VaultIndex {
+	plugin: MediaDbPlugin;
+	private entries?: Map<string, VaultIndexEntry>;
+	private entriesById: Map<string, Map<string, VaultIndexEntry>>;
+	private entriesByType: Map<string, Map<string, VaultIndexEntry>>;
+	private resolved: boolean;
+
+	constructor(plugin: MediaDbPlugin) {
+		this.plugin = plugin;
+		this.entriesById = new Map();
+		this.entriesByType = new Map();
+		this.resolved = false;
+	}
+
+	/**
+	 * Marks the whole index as outdated, so that it is rebuilt the next time it is used, e.g. after the property mappings changed.
+	 */
+	invalidate(): void {
+		this.entries = undefined;
+		this.entriesById.clear();
+		this.entriesByType.clear();
+	}
+
+	/**
+	 * Called when the metadata cache is resolved. The first time, an index that was already built is rebuilt, as notes could be missing from it.
+	 */
+	onResolved(): void {
+		if (!this.resolved) {
+			this.resolved = true;
+			this.invalidate();
+		}
+	}
+
+	private getEntryMap(): Map<string, VaultIndexEntry> {
+		if (!this.entries) {
+			this.entries = new Map();
+			for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+				const entry = this.readEntry(file);
+				if (entry) {
+					this.addEntry(entry);
+				}
+			}
+		}
+		return this.entries;
+	}
+
+	private getIdKey(dataSource: string, id: string): string {
+		return `${dataSource}:${id}`;
+	}
+
+	private addEntry(entry: VaultIndexEntry): void {
+		this.entries?.set(entry.file.path, entry);
+
+		const idKey = this.getIdKey(entry.dataSource, entry.id);
+		this.entriesById.set(idKey, (this.entriesById.get(idKey) ?? new Map<string, VaultIndexEntry>()).set(entry.file.path, entry));
+		this.entriesByType.set(entry.type, (this.entriesByType.get(entry.type) ?? new Map<string, VaultIndexEntry>()).set(entry.file.path, entry));
+	}
+
+	private removeEntry(path: string): void {
+		const entry = this.entries?.get(path);
+		if (!entry) {
+			return;
+		}
+
+		this.entries?.delete(path);
+		this.entriesById.get(this.getIdKey(entry.dataSource, entry.id))?.delete(path);
+		this.entriesByType.get(entry.type)?.delete(path);
+	}
+
+	/**
+	 * Reads the entry of a note, the metadata is converted back to the original property names first.
+	 *
+	 * @param file
+	 */
+	private readEntry(file: TFile): VaultIndexEntry | undefined {
+		const metadata = this.plugin.modelPropertyMapper.convertObjectBack(this.plugin.getMetadataFromFileCache(file));
+
+		const type = getText(metadata?.type);
+		const dataSource = getText(metadata?.dataSource);
+		const id = getText(metadata?.id);
+		if (!type || !dataSource || !id) {
+			return undefined;
+		}
+
+		return {
+			file: file,
+			type: type,
+			dataSource: dataSource,
+			id: id,
+			titles: [getText(metadata.title), getText(metadata.englishTitle)].filter(x => x),
+			year: getText(metadata.year),
+		};
+	}
+
+	/**
+	 * Updates the entry of a note after it was created or its metadata changed. Notes that are not Media DB entries (anymore) are removed from the index.
+	 *
+	 * @param file
+	 */
+	updateFile(file: TFile): void {
+		// the index is built with the current metadata when it is used the next time anyway
+		if (!this.entries || file.extension !== 'md') {
+			return;
+		}
+
+		this.removeEntry(file.path);
+		const entry = this.readEntry(file);
+		if (entry) {
+			this.addEntry(entry);
+		}
+	}
+
+	/**
+	 * Removes the entry of a deleted note.
+	 *
+	 * @param path
+	 */
+	removeFile(path: string): void {
+		this.removeEntry(path);
+	}
+
+	/**
+	 * Moves the entry of a renamed note to its new path.
+	 *
+	 * @param file
+	 * @param oldPath
+	 */
+	renameFile(file: TFile, oldPath: string): void {
+		this.removeFile(oldPath);
+		this.updateFile(file);
+	}
+
+	/**
+	 * All Media DB notes in the vault.
+	 */
+	getEntries(): VaultIndexEntry[] {
+		return Array.from(this.getEntryMap().values());
+	}
+
+	getByFile(file: TFile): VaultIndexEntry | undefined {
+		return this.getEntryMap().get(file.path);
+	}
+
+	/**
+	 * Finds the note of an entry of an API. If multiple notes exist for the entry, the first one is returned.
+	 *
+	 * @param dataSource the name of the API, e.g. `OMDbAPI`
+	 * @param id the id of the entry in the API
+	 */
+	getById(dataSource: string, id: string): VaultIndexEntry | undefined {
+		return this.getAllById(dataSource, id)[0];
+	}
+
+	/**
+	 * All notes of an entry of an API.
+	 *
+	 * @param dataSource the name of the API, e.g. `OMDbAPI`
+	 * @param id the id of the entry in the API
+	 */
+	getAllById(dataSource: string, id: string): VaultIndexEntry[] {
+		this.getEntryMap();
+		return Array.from(this.entriesById.get(this.getIdKey(dataSource, String(id)))?.values() ?? []);
+	}
+
+	/**
+	 * All notes of a media type, e.g. `movie`.
+	 *
+	 * @param type
+	 */
+	getByType(type: string): VaultIndexEntry[] {
+		this.getEntryMap();
+		return Array.from(this.entriesByType.get(type)?.values() ?? []);
+	}
+
+	/**
+	 * Finds the notes that already exist for an entry. Notes created from the same entry come first, followed by notes with a similar title and year.
+	 *
+	 * @param model
+	 */
+	findDuplicates(model: MediaTypeModel): VaultIndexMatch[] {
+		const sameIdEntries = this.getAllById(model.dataSource, String(model.id));
+		const matches: VaultIndexMatch[] = sameIdEntries.map(entry => ({ entry, sameId: true }));
+
+		// notes of other APIs can only be duplicates if they have the same type
+		for (const entry of this.getByType(model.type)) {
+			if (!sameIdEntries.includes(entry) && isSimilarEntry(entry, model)) {
+				matches.push({ entry, sameId: false });
+			}
+		}
+
+		return matches;
+	}
+}
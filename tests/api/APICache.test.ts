@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, setSystemTime, spyOn, test } from 'bun:test';
+import { APICache, APICacheRequestType } from '../../src/api/APICache';
+import type MediaDbPlugin from '../../src/main';
+import { MovieModel } from '../../src/models/MovieModel';
+import type { MediaDbPluginSettings } from '../../src/settings/Settings';
+import { MediaTypeManager } from '../../src/utils/MediaTypeManager';
+import { TEST_SETTINGS } from '../testUtils';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date('2024-01-01T00:00:00Z').getTime();
+const CACHE_FILE = 'plugin/api-cache.json';
+
+interface TestAdapter {
+	exists: (path: string) => Promise<boolean>;
+	read: (path: string) => Promise<string>;
+	write: (path: string, data: string) => Promise<void>;
+}
+
+/**
+ * Creates a cache for a plugin with a single API, `TestAPI`, whose results depend on the TMDB settings.
+ * The cache file is kept in memory, the methods of the vault adapter can be replaced to make them fail.
+ *
+ * @param files the files of the vault adapter
+ * @param settings overrides for the {@link TEST_SETTINGS}
+ * @param adapter overrides for the methods of the vault adapter
+ */
+function createCache(files: Record<string, string> = {}, settings: Partial<MediaDbPluginSettings> = {}, adapter: Partial<TestAdapter> = {}): APICache {
+	const api = { apiName: 'TestAPI', cacheTtl: 24, cacheKeySettings: ['TMDBKey', 'TMDBWatchRegion'] };
+
+	const plugin = {
+		manifest: { dir: 'plugin' },
+		settings: { ...TEST_SETTINGS, customDateFormat: 'L', apiCacheEnabled: true, apiCacheTtls: {}, ...settings },
+		apiManager: { getApiByName: (name: string) => (name === api.apiName ? api : undefined) },
+		mediaTypeManager: new MediaTypeManager(),
+		app: {
+			vault: {
+				adapter: {
+					exists: async (path: string) => path in files,
+					read: async (path: string) => files[path],
+					write: async (path: string, data: string) => {
+						files[path] = data;
+					},
+					...adapter,
+				},
+			},
+		},
+	} as unknown as MediaDbPlugin;
+
+	const cache = new APICache(plugin);
+	// the cache file is only saved by the tests that need it
+	cache.requestSave = (): void => {};
+	return cache;
+}
+
+function getTitles(models: { title: string }[] | undefined): string[] | undefined {
+	return models?.map(x => x.title);
+}
+
+describe('APICache', () => {
+	afterEach(() => {
+		setSystemTime();
+	});
+
+	test('returns cached results until the TTL of their API is over', () => {
+		setSystemTime(START);
+		const cache = createCache();
+		cache.set('TestAPI', APICacheRequestType.Search, 'dune', [new MovieModel({ title: 'Dune' })]);
+
+		setSystemTime(START + 23 * HOUR);
+		expect(getTitles(cache.get('TestAPI', APICacheRequestType.Search, 'dune'))).toEqual(['Dune']);
+		expect(cache.get('TestAPI', APICacheRequestType.Id, 'dune')).toBeUndefined();
+
+		setSystemTime(START + 25 * HOUR);
+		expect(cache.get('TestAPI', APICacheRequestType.Search, 'dune')).toBeUndefined();
+	});
+
+	test('uses the TTL from the settings instead of the one of the API', () => {
+		setSystemTime(START);
+		const cache = createCache({}, { apiCacheTtls: { TestAPI: 1 } });
+		cache.set('TestAPI', APICacheRequestType.Search, 'dune', [new MovieModel({ title: 'Dune' })]);
+
+		setSystemTime(START + 2 * HOUR);
+		expect(cache.get('TestAPI', APICacheRequestType.Search, 'dune')).toBeUndefined();
+	});
+
+	test('does not cache APIs with a TTL of 0 or when the cache is disabled', () => {
+		const noTtl = createCache({}, { apiCacheTtls: { TestAPI: 0 } });
+		noTtl.set('TestAPI', APICacheRequestType.Search, 'dune', [new MovieModel({ title: 'Dune' })]);
+		expect(noTtl.entries).toEqual({});
+
+		const disabled = createCache({}, { apiCacheEnabled: false });
+		disabled.set('TestAPI', APICacheRequestType.Search, 'dune', [new MovieModel({ title: 'Dune' })]);
+		expect(disabled.entries).toEqual({});
+
+		const unknownApi = createCache();
+		unknownApi.set('OtherAPI', APICacheRequestType.Search, 'dune', [new MovieModel({ title: 'Dune' })]);
+		expect(unknownApi.entries).toEqual({});
+	});
+
+	test('does not cache the data of the user', () => {
+		const cache = createCache();
+		const model = new MovieModel({
+			title: 'Dune',
+			personalRating: '5',
+			personalStatus: 'Completed',
+			personalTags: ['favorite'],
+			progressPercent: 100,
+			finished: '2024-01-01',
+			userData: { watched: true, lastWatched: '2024-01-01', personalRating: 9 },
+		});
+		cache.set('TestAPI', APICacheRequestType.Id, 'movie/438631', [model]);
+
+		const cached = cache.get('TestAPI', APICacheRequestType.Id, 'movie/438631')?.[0];
+
+		expect(cached).toBeInstanceOf(MovieModel);
+		expect(cached?.title).toBe('Dune');
+		expect(cached?.userData).toEqual({ watched: false, lastWatched: '', personalRating: 0 });
+		expect(cached?.personalStatus).toBeUndefined();
+		expect(cached?.personalTags).toBeUndefined();
+		expect(cached?.progressPercent).toBeUndefined();
+		expect(cached?.finished).toBeUndefined();
+	});
+
+	test('does not return results cached with other settings of the API or another date format', () => {
+		const cache = createCache();
+		const settings = cache.plugin.settings;
+		cache.set('TestAPI', APICacheRequestType.Search, 'dune', [new MovieModel({ title: 'Dune' })]);
+
+		settings.TMDBWatchRegion = 'DE';
+		expect(cache.get('TestAPI', APICacheRequestType.Search, 'dune')).toBeUndefined();
+
+		settings.TMDBWatchRegion = 'US';
+		settings.TMDBKey = 'other-key';
+		expect(cache.get('TestAPI', APICacheRequestType.Search, 'dune')).toBeUndefined();
+
+		settings.TMDBKey = 'test-key';
+		settings.customDateFormat = 'YYYY-MM-DD';
+		expect(cache.get('TestAPI', APICacheRequestType.Search, 'dune')).toBeUndefined();
+
+		settings.customDateFormat = 'L';
+		settings.OMDbKey = 'other-key';
+		expect(getTitles(cache.get('TestAPI', APICacheRequestType.Search, 'dune'))).toEqual(['Dune']);
+	});
+
+	test('removes the oldest entries once it has more than 1000 entries', () => {
+		const cache = createCache();
+		for (let i = 0; i <= 1000; i++) {
+			setSystemTime(START + i);
+			cache.set('TestAPI', APICacheRequestType.Search, `query ${i}`, []);
+		}
+
+		expect(Object.keys(cache.entries)).toHaveLength(1000);
+		expect(cache.get('TestAPI', APICacheRequestType.Search, 'query 0')).toBeUndefined();
+		expect(cache.get('TestAPI', APICacheRequestType.Search, 'query 1')).toEqual([]);
+		expect(cache.get('TestAPI', APICacheRequestType.Search, 'query 1000')).toEqual([]);
+	});
+
+	test('saves and loads the cache file without the API keys and the expired entries', async () => {
+		setSystemTime(START);
+		const files: Record<string, string> = {};
+		const cache = createCache(files);
+		cache.set('TestAPI', APICacheRequestType.Search, 'dune', [new MovieModel({ title: 'Dune' })]);
+		await cache.save();
+
+		expect(files[CACHE_FILE]).not.toContain('test-key');
+
+		const loaded = createCache(files);
+		await loaded.load();
+		expect(getTitles(loaded.get('TestAPI', APICacheRequestType.Search, 'dune'))).toEqual(['Dune']);
+
+		setSystemTime(START + 25 * HOUR);
+		const expired = createCache(files);
+		await expired.load();
+		expect(expired.entries).toEqual({});
+	});
+
+	test('starts with an empty cache if the cache file can not be loaded', async () => {
+		const invalid = createCache({ [CACHE_FILE]: '{"TestAPI' });
+		await invalid.load();
+		expect(invalid.entries).toEqual({});
+
+		const unreadable = createCache({ [CACHE_FILE]: '{}' }, {}, { read: async () => Promise.reject(new Error('read failed')) });
+		await unreadable.load();
+		expect(unreadable.entries).toEqual({});
+	});
+
+	test('logs errors while saving the cache file instead of throwing them', async () => {
+		const warn = spyOn(console, 'warn');
+		const cache = new APICache(createCache({}, {}, { write: async () => Promise.reject(new Error('write failed')) }).plugin);
+
+		cache.set('TestAPI', APICacheRequestType.Search, 'dune', [new MovieModel({ title: 'Dune' })]);
+		// saving is debounced by 2 seconds
+		await new Promise(resolve => setTimeout(resolve, 2100));
+
+		expect(warn).toHaveBeenCalledWith('MDB | failed to save the API cache', new Error('write failed'));
+		warn.mockRestore();
+	});
+});
@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'bun:test';
+import { TFile } from 'obsidian';
+import { BangumiAPI } from '../../src/api/apis/BangumiAPI';
+import { BangumiSync } from '../../src/api/BangumiSync';
+import type { HttpRequest } from '../../src/api/HttpClient';
+import type MediaDbPlugin from '../../src/main';
+import { GameModel } from '../../src/models/GameModel';
+import { BangumiSyncConflictPolicy } from '../../src/utils/BangumiCollection';
+import type { Fixture } from '../testUtils';
+import { createTestPlugin } from '../testUtils';
+
+/**
+ * Creates a sync for a single game note from the BangumiAPI, with a rating scale of 5.
+ *
+ * @param fixtures
+ * @param frontmatter the metadata of the note
+ * @param updates every update of the personal data of the note is added to this list
+ * @param requests every request made is added to this list
+ */
+function createSync(
+	fixtures: Fixture[],
+	frontmatter: Record<string, unknown>,
+	updates: Record<string, unknown>[],
+	requests: HttpRequest[] = [],
+): { sync: BangumiSync; file: TFile } {
+	const file = new TFile();
+	file.path = 'NieR Automata.md';
+
+	const plugin = createTestPlugin(
+		fixtures,
+		{ bangumiAccessToken: 'test-token', bangumiUserId: 'test-user', bangumiSyncConflictPolicy: BangumiSyncConflictPolicy.Bangumi, personalRatingScale: 5 },
+		requests,
+	);
+	const api = new BangumiAPI(plugin);
+	Object.assign(plugin, {
+		manifest: { dir: '.obsidian/plugins/obsidian-media-db-plugin' },
+		app: { vault: { adapter: { write: async (): Promise<void> => {} } } },
+		apiManager: { getApiByName: (): BangumiAPI => api },
+		modelPropertyMapper: { convertObjectBack: (metadata: Record<string, unknown>): Record<string, unknown> => metadata },
+		getMetadataFromFileCache: (): Record<string, unknown> => frontmatter,
+		getMediaTypeModelObjFromFile: (): Record<string, unknown> => frontmatter,
+		getMediaTypeModelFromFile: (): GameModel => new GameModel({ title: 'NieR:Automata', dataSource: 'BangumiAPI', id: '188355' }),
+		updateUserProperties: async (_file: TFile, _type: string, update: Record<string, unknown>): Promise<void> => {
+			updates.push(update);
+		},
+	});
+
+	return { sync: new BangumiSync(plugin as MediaDbPlugin), file };
+}
+
+describe('BangumiSync', () => {
+	const frontmatter = { type: 'game', dataSource: 'BangumiAPI', id: '188355' };
+
+	test('converts the rating of the note to the rating scale of Bangumi when pushing', async () => {
+		const requests: HttpRequest[] = [];
+		const updates: Record<string, unknown>[] = [];
+		const { sync, file } = createSync(
+			[
+				{ url: /v0\/users\/test-user\/collections\/188355$/, file: 'BangumiAPI/user-collection.json', status: 404 },
+				{ url: /v0\/users\/-\/collections\/188355$/, file: 'BangumiAPI/user-collection.json' },
+			],
+			{ ...frontmatter, personalStatus: 'Collect', personalRating: 4 },
+			updates,
+			requests,
+		);
+
+		await sync.pushNote(file);
+
+		const update = requests.find(x => x.method === 'POST');
+		expect(JSON.parse(update?.body ?? '')).toMatchObject({ type: 2, rate: 8 });
+		expect(updates).toHaveLength(0);
+	});
+
+	test('converts the rating of Bangumi to the rating scale of the note when pulling', async () => {
+		const requests: HttpRequest[] = [];
+		const updates: Record<string, unknown>[] = [];
+		const { sync, file } = createSync([{ url: /v0\/users\/test-user\/collections\/188355$/, file: 'BangumiAPI/user-collection.json' }], frontmatter, updates, requests);
+
+		await sync.pushNote(file);
+
+		// the rating of 9 out of 10 from the collection
+		expect(updates).toEqual([{ personalStatus: 'Collect', personalRating: 4.5, personalTags: ['masterpiece', '2B'] }]);
+		// Bangumi already has the merged state
+		expect(requests.filter(x => x.method === 'POST')).toHaveLength(0);
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test';
+import type { HttpRequest, HttpResponse } from '../../src/api/HttpClient';
+import { HttpClient, HttpError, HttpTimeoutError } from '../../src/api/HttpClient';
+
+function createResponse(status: number, headers: Record<string, string> = {}): HttpResponse {
+	return { status: status, headers: headers, text: '{}', json: {} };
+}
+
+/**
+ * Creates a client whose requests are answered with the given responses in order, the last response is repeated.
+ *
+ * @param responses
+ * @param requestTimes the time of every request made is added to this list
+ */
+function createClient(responses: HttpResponse[], requestTimes: number[] = []): HttpClient {
+	return new HttpClient(async (_request: HttpRequest) => {
+		requestTimes.push(Date.now());
+		return responses[Math.min(requestTimes.length - 1, responses.length - 1)];
+	});
+}
+
+describe('HttpClient', () => {
+	test('returns successful responses', async () => {
+		const client = createClient([createResponse(200)]);
+
+		const response = await client.request('TestAPI', { url: 'https://example.com/a' });
+
+		expect(response.status).toBe(200);
+	});
+
+	test('throws without retrying on client errors', async () => {
+		const requestTimes: number[] = [];
+		const client = createClient([createResponse(404)], requestTimes);
+
+		const error = await client.request('TestAPI', { url: 'https://example.com/a' }).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(HttpError);
+		expect(error).toMatchObject({ apiName: 'TestAPI', status: 404 });
+		expect(requestTimes).toHaveLength(1);
+	});
+
+	test('retries busy responses until they succeed', async () => {
+		const requestTimes: number[] = [];
+		const client = createClient([createResponse(429), createResponse(503), createResponse(200)], requestTimes);
+
+		const response = await client.request('TestAPI', { url: 'https://example.com/a' }, { retryDelay: 1 });
+
+		expect(response.status).toBe(200);
+		expect(requestTimes).toHaveLength(3);
+	});
+
+	test('throws once the retries are used up', async () => {
+		const requestTimes: number[] = [];
+		const client = createClient([createResponse(202)], requestTimes);
+
+		await expect(client.request('TestAPI', { url: 'https://example.com/a' }, { maxRetries: 2, retryDelay: 1 })).rejects.toThrow('Received status code 202 from TestAPI');
+		expect(requestTimes).toHaveLength(3);
+	});
+
+	test('waits for the Retry-After header instead of the backoff delay', async () => {
+		const requestTimes: number[] = [];
+		const client = createClient([createResponse(429, { 'Retry-After': '0.05' }), createResponse(200)], requestTimes);
+
+		await client.request('TestAPI', { url: 'https://example.com/a' }, { retryDelay: 10000 });
+
+		expect(requestTimes[1] - requestTimes[0]).toBeGreaterThanOrEqual(40);
+		expect(requestTimes[1] - requestTimes[0]).toBeLessThan(1000);
+	});
+
+	test('caps the retry delay', async () => {
+		const requestTimes: number[] = [];
+		const client = createClient([createResponse(429, { 'retry-after': '3600' }), createResponse(200)], requestTimes);
+
+		await client.request('TestAPI', { url: 'https://example.com/a' }, { maxRetryDelay: 10 });
+
+		expect(requestTimes[1] - requestTimes[0]).toBeLessThan(1000);
+	});
+
+	test('throws if the API does not respond in time', async () => {
+		const client = new HttpClient(() => new Promise<HttpResponse>(() => {}));
+
+		const error = await client.request('TestAPI', { url: 'https://example.com/a' }, { timeout: 20 }).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(HttpTimeoutError);
+		expect(error).toMatchObject({ apiName: 'TestAPI', timeout: 20 });
+	});
+
+	test('keeps the minimum interval between requests to the same host', async () => {
+		const requestTimes: number[] = [];
+		const client = createClient([createResponse(200)], requestTimes);
+
+		await Promise.all([
+			client.request('TestAPI', { url: 'https://example.com/a' }, { minRequestInterval: 50 }),
+			// another API on the same host shares the rate limit
+			client.request('OtherAPI', { url: 'https://example.com/b' }, { minRequestInterval: 50 }),
+		]);
+
+		expect(requestTimes).toHaveLength(2);
+		expect(requestTimes[1] - requestTimes[0]).toBeGreaterThanOrEqual(45);
+	});
+
+	test('does not rate limit requests to other hosts', async () => {
+		const requestTimes: number[] = [];
+		const client = createClient([createResponse(200)], requestTimes);
+
+		await Promise.all([
+			client.request('TestAPI', { url: 'https://example.com/a' }, { minRequestInterval: 1000 }),
+			client.request('OtherAPI', { url: 'https://example.org/a' }, { minRequestInterval: 1000 }),
+		]);
+
+		expect(requestTimes[1] - requestTimes[0]).toBeLessThan(500);
+	});
+});
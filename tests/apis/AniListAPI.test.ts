@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test';
+import { AniListAPI } from '../../src/api/apis/AniListAPI';
+import type { HttpRequest } from '../../src/api/HttpClient';
+import { ComicMangaModel } from '../../src/models/ComicMangaModel';
+import { MovieModel } from '../../src/models/MovieModel';
+import { SeriesModel } from '../../src/models/SeriesModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin } from '../testUtils';
+
+const url = /^https:\/\/graphql\.anilist\.co$/;
+
+describe('AniListAPI', () => {
+	describe('searchByTitle', () => {
+		test('returns series, movies and manga and skips unknown formats', async () => {
+			const requests: HttpRequest[] = [];
+			const api = new AniListAPI(createTestPlugin([{ url: url, file: 'AniListAPI/search.json' }], {}, requests));
+
+			const results = await api.searchByTitle('koe no katachi');
+
+			expect(requests[0].method).toBe('POST');
+			expect(JSON.parse(requests[0].body ?? '')).toMatchObject({ variables: { search: 'koe no katachi' } });
+			expect(results).toHaveLength(3);
+			expect(results[0]).toBeInstanceOf(SeriesModel);
+			expect(results[0]).toMatchObject({
+				type: MediaType.Series,
+				subType: 'series',
+				title: 'Koe no Katachi',
+				englishTitle: 'Koe no Katachi',
+				year: '2013',
+				dataSource: 'AniListAPI',
+				id: '20954',
+				image: 'https://s4.anilist.co/file/anilistcdn/media/anime/cover/medium/20954.jpg',
+			});
+			expect(results[1]).toBeInstanceOf(MovieModel);
+			expect(results[1]).toMatchObject({ type: MediaType.Movie, subType: 'movie', englishTitle: 'A Silent Voice', year: '2016' });
+			expect(results[2]).toBeInstanceOf(ComicMangaModel);
+			expect(results[2]).toMatchObject({ type: MediaType.ComicManga, subType: 'manga', id: '86635' });
+		});
+
+		test('only requests adult media if the SFW filter is disabled', async () => {
+			const requests: HttpRequest[] = [];
+			await new AniListAPI(createTestPlugin([{ url: url, file: 'AniListAPI/search.json' }], {}, requests)).searchByTitle('koe no katachi');
+			await new AniListAPI(createTestPlugin([{ url: url, file: 'AniListAPI/search.json' }], { sfwFilter: false }, requests)).searchByTitle('koe no katachi');
+
+			expect(requests[0].body).toContain('isAdult: false');
+			expect(requests[1].body).not.toContain('isAdult: false');
+		});
+	});
+
+	describe('getById', () => {
+		test('parses a series', async () => {
+			const requests: HttpRequest[] = [];
+			const api = new AniListAPI(createTestPlugin([{ url: url, file: 'AniListAPI/series.json' }], {}, requests));
+
+			const result = await api.getById('16498');
+
+			expect(JSON.parse(requests[0].body ?? '')).toMatchObject({ variables: { id: 16498 } });
+			expect(result).toBeInstanceOf(SeriesModel);
+			expect(result).toMatchObject({
+				type: MediaType.Series,
+				subType: 'series',
+				title: 'Shingeki no Kyojin',
+				englishTitle: 'Attack on Titan',
+				alternateTitles: ['Shingeki no Kyojin', 'Attack on Titan', '進撃の巨人'],
+				year: '2013',
+				url: 'https://anilist.co/anime/16498',
+				id: '16498',
+				plot: 'Several hundred years ago, humans were nearly exterminated by titans.\n(Source: Kodansha)',
+				genres: ['Action', 'Drama', 'Fantasy'],
+				writer: ['Hajime Isayama', 'Yasuko Kobayashi'],
+				studio: ['WIT STUDIO'],
+				episodes: 25,
+				duration: '24 min per ep',
+				onlineRating: 8.5,
+				image: 'https://s4.anilist.co/file/anilistcdn/media/anime/cover/large/bx16498.jpg',
+				backdrop: 'https://s4.anilist.co/file/anilistcdn/media/anime/banner/16498.jpg',
+				prequels: [],
+				sequels: ['Attack on Titan Season 2'],
+				released: true,
+				streamingServices: ['Crunchyroll', 'Netflix'],
+				airing: false,
+				airedFrom: '2013-04-07',
+				airedTo: '2013-09-28',
+			});
+		});
+
+		test('parses a movie', async () => {
+			const api = new AniListAPI(createTestPlugin([{ url: url, file: 'AniListAPI/movie.json' }]));
+
+			const result = await api.getById('20954');
+
+			expect(result).toBeInstanceOf(MovieModel);
+			expect(result).toMatchObject({
+				type: MediaType.Movie,
+				englishTitle: 'A Silent Voice',
+				director: ['Naoko Yamada'],
+				writer: ['Yoshitoki Ooima', 'Reiko Yoshida'],
+				studio: ['Kyoto Animation'],
+				duration: '130 min',
+				onlineRating: 8.9,
+				backdrop: '',
+				premiere: '2016-09-17',
+			});
+		});
+
+		test('parses a manhwa', async () => {
+			const api = new AniListAPI(createTestPlugin([{ url: url, file: 'AniListAPI/manhwa.json' }]));
+
+			const result = await api.getById('105398');
+
+			expect(result).toBeInstanceOf(ComicMangaModel);
+			expect(result).toMatchObject({
+				type: MediaType.ComicManga,
+				subType: 'manhwa',
+				title: 'Na Honjaman Level Up',
+				englishTitle: 'Solo Leveling',
+				year: '2018',
+				plot: '',
+				authors: ['Jang Sung-Lak', 'Chugong'],
+				chapters: 0,
+				onlineRating: 0,
+				prequels: ['Na Honjaman Level Up: Ragnarok'],
+				status: 'Releasing',
+				publishedFrom: '2018-03-04',
+				publishedTo: 'unknown',
+			});
+		});
+
+		test('throws the errors returned by the API', async () => {
+			const api = new AniListAPI(createTestPlugin([{ url: url, file: 'AniListAPI/error.json' }]));
+
+			await expect(api.getById('0')).rejects.toThrow('MDB | Received error from AniListAPI: Not Found.');
+		});
+	});
+});
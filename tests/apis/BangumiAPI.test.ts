@@ -0,0 +1,215 @@
+import { describe, expect, test } from 'bun:test';
+import { BangumiAPI } from '../../src/api/apis/BangumiAPI';
+import type { HttpRequest } from '../../src/api/HttpClient';
+import { GameModel } from '../../src/models/GameModel';
+import { SeriesModel } from '../../src/models/SeriesModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin } from '../testUtils';
+
+describe('BangumiAPI', () => {
+	describe('searchByTitle', () => {
+		test('maps the subject types and skips unknown or incomplete results', async () => {
+			const api = new BangumiAPI(createTestPlugin([{ url: /bangumi\.mynanase\.workers\.dev\/search\/subject\/nier\?responseGroup=large$/, file: 'BangumiAPI/search.json' }]));
+
+			const results = await api.searchByTitle('nier');
+
+			expect(results).toHaveLength(2);
+			expect(results[0]).toBeInstanceOf(SeriesModel);
+			expect(results[0]).toMatchObject({
+				type: MediaType.Series,
+				title: '吹响吧！上低音号',
+				englishTitle: '響け！ユーフォニアム',
+				year: '2015',
+				dataSource: 'BangumiAPI',
+				id: '115908',
+				image: 'https://lain.bgm.tv/pic/cover/l/5e/2c/115908_Nj1nn.jpg',
+			});
+			expect(results[1]).toBeInstanceOf(GameModel);
+			expect(results[1]).toMatchObject({ type: MediaType.Game, title: '尼尔：机械纪元', year: '2017', id: '188355' });
+		});
+
+		test('returns an empty list if nothing is found', async () => {
+			const api = new BangumiAPI(createTestPlugin([{ url: /search\/subject/, file: 'BangumiAPI/search.json', status: 404 }]));
+
+			expect(await api.searchByTitle('nothing')).toEqual([]);
+		});
+	});
+
+	describe('getById', () => {
+		test('parses a game and its infobox', async () => {
+			const requests: HttpRequest[] = [];
+			const api = new BangumiAPI(createTestPlugin([{ url: /v0\/subjects\/188355$/, file: 'BangumiAPI/subject-game.json' }], {}, requests));
+
+			const result = await api.getById('188355');
+
+			// without an access token the user collection is not requested
+			expect(requests).toHaveLength(1);
+			expect(result).toBeInstanceOf(GameModel);
+			expect(result).toMatchObject({
+				type: MediaType.Game,
+				subType: 'videoGame',
+				title: '尼尔：机械纪元',
+				englishTitle: 'NieR:Automata',
+				year: '2017',
+				url: 'https://www.bangumi.tv/subject/188355',
+				id: '188355',
+				apiTags: ['PS4', 'ARPG', '横尾太郎', 'SQUARE_ENIX', '白金工作室'],
+				genres: ['ARPG'],
+				onlineRating: 8.5,
+				developers: ['PlatinumGames'],
+				publishers: ['Square Enix'],
+				composer: ['岡部啓一', 'MONACA'],
+				director: ['横尾太郎'],
+				producer: ['齊藤陽介'],
+				platforms: ['PS4', 'PC', 'NS', 'XB1'],
+				website: ['http://www.jp.square-enix.com/nierautomata/'],
+				image: 'https://lain.bgm.tv/pic/cover/l/1b/3d/188355_aq1z6.jpg',
+				description: 'A story of androids fighting for humanity.',
+				released: true,
+				releaseDate: '2017-02-23T00:00:00.000Z',
+			});
+		});
+
+		test('adds the personal data from the user collection', async () => {
+			const requests: HttpRequest[] = [];
+			const api = new BangumiAPI(
+				createTestPlugin(
+					[
+						{ url: /v0\/users\/test-user\/collections\/188355$/, file: 'BangumiAPI/user-collection.json' },
+						{ url: /v0\/subjects\/188355$/, file: 'BangumiAPI/subject-game.json' },
+					],
+					{ bangumiAccessToken: 'test-token', bangumiUserId: 'test-user' },
+					requests,
+				),
+			);
+
+			const result = await api.getById('188355');
+
+			expect(requests[0].headers?.Authorization).toBe('Bearer test-token');
+			// the public subject is requested without the token
+			expect(requests[1].headers?.Authorization).toBeUndefined();
+			expect(result.userData).toMatchObject({ personalRating: 9, personalStatus: 'Collect', personalTags: ['masterpiece', '2B'] });
+		});
+
+		test('still works if the user collection can not be loaded', async () => {
+			const api = new BangumiAPI(
+				createTestPlugin(
+					[
+						{ url: /v0\/users\//, file: 'BangumiAPI/user-collection.json', status: 401 },
+						{ url: /v0\/subjects\/188355$/, file: 'BangumiAPI/subject-game.json' },
+					],
+					{ bangumiAccessToken: 'expired-token', bangumiUserId: 'test-user' },
+				),
+			);
+
+			const result = await api.getById('188355');
+
+			expect(result).toMatchObject({ title: '尼尔：机械纪元' });
+			expect(result.userData).toMatchObject({ personalRating: undefined, personalStatus: undefined });
+		});
+
+		test('parses an anime series', async () => {
+			const api = new BangumiAPI(createTestPlugin([{ url: /v0\/subjects\/115908$/, file: 'BangumiAPI/subject-anime.json' }]));
+
+			const result = await api.getById('115908');
+
+			expect(result).toBeInstanceOf(SeriesModel);
+			expect(result).toMatchObject({ type: MediaType.Series, subType: 'TV', title: '吹响吧！上低音号', year: '2015', id: '115908' });
+		});
+
+		test('throws if the subject can not be loaded', async () => {
+			const api = new BangumiAPI(createTestPlugin([{ url: /v0\/subjects\//, file: 'BangumiAPI/subject-anime.json', status: 404 }]));
+
+			await expect(api.getById('1')).rejects.toThrow('MDB | BangumiAPI | Failed to fetch data for ID 1. Error: MDB | Received status code 404 from BangumiAPI.');
+		});
+	});
+
+	describe('getEpisodes', () => {
+		test('parses the main episodes', async () => {
+			const api = new BangumiAPI(createTestPlugin([{ url: /v0\/episodes\?subject_id=115908&type=0&limit=100&offset=0$/, file: 'BangumiAPI/episodes.json' }]));
+
+			const episodes = await api.getEpisodes('115908');
+
+			expect(episodes).toEqual([
+				{ season: 1, episode: 1, title: '欢迎来到高中', airDate: '2015-04-08' },
+				{ season: 1, episode: 2, title: 'よろしくユーフォニアム', airDate: '2015-04-15' },
+			]);
+		});
+	});
+
+	describe('collections', () => {
+		const settings = { bangumiAccessToken: 'test-token', bangumiUserId: 'test-user' };
+
+		test('reads a collection entry of the user', async () => {
+			const api = new BangumiAPI(createTestPlugin([{ url: /v0\/users\/test-user\/collections\/188355$/, file: 'BangumiAPI/user-collection.json' }], settings));
+
+			expect(await api.getCollection('188355')).toEqual({ status: 'Collect', rating: 9, tags: ['masterpiece', '2B'], progress: undefined });
+		});
+
+		test('returns undefined for subjects that are not collected', async () => {
+			const api = new BangumiAPI(createTestPlugin([{ url: /v0\/users\/test-user\/collections\/1$/, file: 'BangumiAPI/user-collection.json', status: 404 }], settings));
+
+			expect(await api.getCollection('1')).toBeUndefined();
+		});
+
+		test('requires an access token', async () => {
+			const api = new BangumiAPI(createTestPlugin([], { bangumiUserId: 'test-user' }));
+
+			await expect(api.getCollections()).rejects.toThrow('MDB | BangumiAPI | an access token is required to sync collections, set it in the settings');
+		});
+
+		test('reads the entire collection of the user', async () => {
+			const api = new BangumiAPI(createTestPlugin([{ url: /v0\/users\/test-user\/collections\?limit=50&offset=0$/, file: 'BangumiAPI/collections.json' }], settings));
+
+			expect(await api.getCollections()).toEqual([
+				{ id: '188355', title: '尼尔：机械纪元', state: { status: 'Collect', rating: 9, tags: ['masterpiece', '2B'], progress: undefined } },
+				{ id: '115908', title: '吹响吧！上低音号', state: { status: 'Doing', rating: undefined, tags: [], progress: 5 } },
+			]);
+		});
+
+		test('updates a collection entry and marks the watched episodes', async () => {
+			const requests: HttpRequest[] = [];
+			const api = new BangumiAPI(
+				createTestPlugin(
+					[
+						{ url: /v0\/episodes\?subject_id=115908/, file: 'BangumiAPI/episodes.json' },
+						{ url: /v0\/users\/-\/collections\/115908/, file: 'BangumiAPI/user-collection.json' },
+					],
+					settings,
+					requests,
+				),
+			);
+
+			await api.updateCollection('115908', { status: 'In progress', rating: 8, tags: ['kyoani'], progress: 1 }, false);
+
+			expect(requests[0]).toMatchObject({ method: 'POST', url: 'https://bangumi.mynanase.workers.dev/v0/users/-/collections/115908' });
+			expect(JSON.parse(requests[0].body ?? '')).toEqual({ type: 3, rate: 8, tags: ['kyoani'] });
+			expect(requests[2]).toMatchObject({ method: 'PATCH', url: 'https://bangumi.mynanase.workers.dev/v0/users/-/collections/115908/episodes' });
+			expect(JSON.parse(requests[2].body ?? '')).toEqual({ episode_id: [522185], type: 2 });
+		});
+
+		test('uses the proxy from the settings', async () => {
+			const requests: HttpRequest[] = [];
+			const api = new BangumiAPI(
+				createTestPlugin([{ url: /collections/, file: 'BangumiAPI/user-collection.json' }], { ...settings, bangumiProxyUrl: 'https://proxy.example.com' }, requests),
+			);
+
+			await api.updateCollection('1', { status: 'Wish', tags: [], progress: 3 }, true);
+
+			expect(requests).toHaveLength(1);
+			expect(requests[0].url).toBe('https://proxy.example.com/v0/users/-/collections/1');
+			expect(JSON.parse(requests[0].body ?? '')).toEqual({ type: 1, rate: 0, tags: [], ep_status: 3 });
+		});
+	});
+
+	describe('getIdFromUrl', () => {
+		test('recognizes the subject urls of all Bangumi domains', () => {
+			const api = new BangumiAPI(createTestPlugin([]));
+
+			expect(api.getIdFromUrl('https://bgm.tv/subject/188355')).toBe('188355');
+			expect(api.getIdFromUrl('https://www.bangumi.tv/subject/115908/ep')).toBe('115908');
+			expect(api.getIdFromUrl('https://chii.in/subject/115908')).toBe('115908');
+			expect(api.getIdFromUrl('https://bgm.tv/person/5847')).toBeUndefined();
+		});
+	});
+});
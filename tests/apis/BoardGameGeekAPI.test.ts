@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { BoardGameGeekAPI } from '../../src/api/apis/BoardGameGeekAPI';
+import { HttpClient, HttpError } from '../../src/api/HttpClient';
+import { BoardGameModel } from '../../src/models/BoardGameModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin, readFixture } from '../testUtils';
+
+describe('BoardGameGeekAPI', () => {
+	test('searchByTitle parses the XML search results', async () => {
+		const api = new BoardGameGeekAPI(createTestPlugin([{ url: /api\.geekdo\.com\/xmlapi\/search\?search=catan$/, file: 'BoardGameGeekAPI/search.xml' }]));
+
+		const results = await api.searchByTitle('catan');
+
+		expect(results).toHaveLength(2);
+		expect(results[0]).toBeInstanceOf(BoardGameModel);
+		expect(results[0]).toMatchObject({ type: MediaType.BoardGame, title: 'CATAN', englishTitle: 'CATAN', year: '1995', dataSource: 'BoardGameGeekAPI', id: '13' });
+		// falls back to the first name if there is no primary one
+		expect(results[1]).toMatchObject({ title: 'Catan Dice Game', year: '2007', id: '27710' });
+	});
+
+	test('getById parses a board game', async () => {
+		const api = new BoardGameGeekAPI(createTestPlugin([{ url: /api\.geekdo\.com\/xmlapi\/boardgame\/13\?stats=1$/, file: 'BoardGameGeekAPI/boardgame.xml' }]));
+
+		const result = await api.getById('13');
+
+		expect(result).toBeInstanceOf(BoardGameModel);
+		expect(result).toMatchObject({
+			title: 'CATAN',
+			year: '1995',
+			url: 'https://boardgamegeek.com/boardgame/13',
+			id: '13',
+			genres: ['Economic', 'Negotiation'],
+			onlineRating: 7.10032,
+			complexityRating: 2.2883,
+			minPlayers: 3,
+			maxPlayers: 4,
+			playtime: '120 minutes',
+			publishers: ['KOSMOS', 'Mayfair Games'],
+			image: 'https://cf.geekdo-images.com/W3Bsga_uLP9kO91gZ7H8yw__original/img/xV7oisd3RQ8R-k18cdWAYthHXsA=/0x0/filters:format(jpeg)/pic2419375.jpg',
+		});
+	});
+
+	test('getById retries while BGG is queuing the request', async () => {
+		const plugin = createTestPlugin([]);
+		let requestCount = 0;
+		plugin.httpClient = new HttpClient(async () => {
+			requestCount++;
+			const text = requestCount < 3 ? '' : readFixture('BoardGameGeekAPI/boardgame.xml');
+			return { status: requestCount < 3 ? 202 : 200, headers: {}, text: text, json: undefined };
+		});
+		const api = new BoardGameGeekAPI(plugin);
+		api.requestPolicy = { ...api.requestPolicy, retryDelay: 0 };
+
+		const result = await api.getById('13');
+
+		expect(requestCount).toBe(3);
+		expect(result).toMatchObject({ title: 'CATAN' });
+	});
+
+	test('getById gives up after the maximum number of retries', async () => {
+		const plugin = createTestPlugin([]);
+		let requestCount = 0;
+		plugin.httpClient = new HttpClient(async () => {
+			requestCount++;
+			return { status: 202, headers: {}, text: '', json: undefined };
+		});
+		const api = new BoardGameGeekAPI(plugin);
+		api.requestPolicy = { maxRetries: 2, retryDelay: 0 };
+
+		const error = await api.getById('13').catch(e => e);
+
+		expect(requestCount).toBe(3);
+		expect(error).toBeInstanceOf(HttpError);
+		expect(error.status).toBe(202);
+	});
+
+	test('getIdFromUrl extracts the id from board game and expansion urls', () => {
+		const api = new BoardGameGeekAPI(createTestPlugin([]));
+
+		expect(api.getIdFromUrl('https://boardgamegeek.com/boardgame/13/catan')).toBe('13');
+		expect(api.getIdFromUrl('https://boardgamegeek.com/boardgameexpansion/325/catan-seafarers')).toBe('325');
+	});
+});
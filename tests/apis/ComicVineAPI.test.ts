@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { ComicVineAPI } from '../../src/api/apis/ComicVineAPI';
+import { ComicMangaModel } from '../../src/models/ComicMangaModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin } from '../testUtils';
+
+describe('ComicVineAPI', () => {
+	test('searchByTitle returns the found volumes', async () => {
+		const api = new ComicVineAPI(
+			createTestPlugin([{ url: /comicvine\.gamespot\.com\/api\/search\/\?api_key=test-key&format=json&resources=volume&query=boule$/, file: 'ComicVineAPI/search.json' }]),
+		);
+
+		const results = await api.searchByTitle('boule');
+
+		expect(results).toHaveLength(2);
+		expect(results[0]).toBeInstanceOf(ComicMangaModel);
+		expect(results[0]).toMatchObject({
+			type: MediaType.ComicManga,
+			title: 'Boule & Bill',
+			year: '1962',
+			dataSource: 'ComicVineAPI',
+			id: '4050-70187',
+			publishers: 'Dupuis',
+		});
+		expect(results[1]).toMatchObject({ id: '4050-48261', publishers: [] });
+	});
+
+	test('getById parses a volume', async () => {
+		const api = new ComicVineAPI(
+			createTestPlugin([{ url: /comicvine\.gamespot\.com\/api\/volume\/4050-70187\/\?api_key=test-key&format=json$/, file: 'ComicVineAPI/volume.json' }]),
+		);
+
+		const result = await api.getById('4050-70187');
+
+		expect(result).toBeInstanceOf(ComicMangaModel);
+		expect(result).toMatchObject({
+			title: 'Boule & Bill',
+			alternateTitles: 'Billy & Buddy',
+			plot: 'The adventures of a boy and his cocker spaniel.',
+			year: '1962',
+			url: 'https://comicvine.gamespot.com/boule-bill/4050-70187/',
+			id: '4050-70187',
+			authors: ['Jean Roba'],
+			chapters: 43,
+			image: 'https://comicvine.gamespot.com/a/uploads/original/6/67663/3127543-01.jpg',
+			publishers: 'Dupuis',
+			publishedFrom: '1962',
+		});
+	});
+});
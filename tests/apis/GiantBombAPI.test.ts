@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { GiantBombAPI } from '../../src/api/apis/GiantBombAPI';
+import { HttpError } from '../../src/api/HttpClient';
+import { GameModel } from '../../src/models/GameModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin } from '../testUtils';
+
+describe('GiantBombAPI', () => {
+	test('searchByTitle returns the found games', async () => {
+		const api = new GiantBombAPI(createTestPlugin([{ url: /giantbomb\.com\/api\/games\?api_key=test-key&filter=name:dota&format=json$/, file: 'GiantBombAPI/search.json' }]));
+
+		const results = await api.searchByTitle('dota');
+
+		expect(results).toHaveLength(1);
+		expect(results[0]).toBeInstanceOf(GameModel);
+		expect(results[0]).toMatchObject({ type: MediaType.Game, title: 'Dota 2', year: '2013', dataSource: 'GiantBombAPI', id: '3030-32887' });
+	});
+
+	test('searchByTitle reports an exceeded quota', async () => {
+		const api = new GiantBombAPI(createTestPlugin([{ url: /giantbomb\.com/, file: 'GiantBombAPI/search.json', status: 429 }]));
+		api.requestPolicy = { maxRetries: 0 };
+
+		const error = await api.searchByTitle('dota').catch(e => e);
+
+		expect(error).toBeInstanceOf(HttpError);
+		expect(error.message).toBe("MDB | Too many requests for GiantBombAPI, you've exceeded your API quota.");
+	});
+
+	test('searchByTitle throws without an API key', async () => {
+		const api = new GiantBombAPI(createTestPlugin([], { GiantBombKey: '' }));
+
+		await expect(api.searchByTitle('dota')).rejects.toThrow('API key for GiantBombAPI missing');
+	});
+
+	test('getById parses a game', async () => {
+		const api = new GiantBombAPI(createTestPlugin([{ url: /giantbomb\.com\/api\/game\/3030-32887\/\?api_key=test-key&format=json$/, file: 'GiantBombAPI/game.json' }]));
+
+		const result = await api.getById('3030-32887');
+
+		expect(result).toBeInstanceOf(GameModel);
+		expect(result).toMatchObject({
+			title: 'Dota 2',
+			year: '2013',
+			url: 'https://www.giantbomb.com/dota-2/3030-32887/',
+			id: '3030-32887',
+			developers: ['Valve Corporation'],
+			publishers: ['Valve Corporation'],
+			genres: ['MOBA', 'Strategy'],
+			image: 'https://www.giantbomb.com/a/uploads/scale_large/0/3699/2473011-dota2.jpg',
+			releaseDate: '2013-07-09',
+		});
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test';
+import { GoogleBooksAPI } from '../../src/api/apis/GoogleBooksAPI';
+import type { HttpRequest } from '../../src/api/HttpClient';
+import { BookModel } from '../../src/models/BookModel';
+import { MediaType } from '../../src/utils/MediaType';
+import type { Fixture } from '../testUtils';
+import { createTestPlugin } from '../testUtils';
+
+function createAPI(fixtures: Fixture[], requests: HttpRequest[] = []): GoogleBooksAPI {
+	return new GoogleBooksAPI(createTestPlugin(fixtures, {}, requests));
+}
+
+describe('GoogleBooksAPI', () => {
+	describe('searchByTitle', () => {
+		test('returns books', async () => {
+			const api = createAPI([{ url: /googleapis\.com\/books\/v1\/volumes\?q=intitle%3Aharry%20potter&maxResults=20&printType=books$/, file: 'GoogleBooksAPI/search.json' }]);
+
+			const results = await api.searchByTitle('harry potter');
+
+			expect(results).toHaveLength(2);
+			expect(results[0]).toBeInstanceOf(BookModel);
+			expect(results[0]).toMatchObject({
+				type: MediaType.Book,
+				title: "Harry Potter and the Sorcerer's Stone",
+				year: '2015',
+				dataSource: 'GoogleBooksAPI',
+				id: 'wrOQLV6xB-wC',
+				author: 'J.K. Rowling',
+				image: 'https://books.google.com/books/content?id=wrOQLV6xB-wC&printsec=frontcover&img=1&zoom=1&source=gbs_api',
+			});
+			expect(results[1]).toMatchObject({ title: 'Harry Potter y la piedra filosofal', year: '', author: 'unknown', image: '' });
+		});
+
+		test('searches by ISBN if the title is an ISBN', async () => {
+			const api = createAPI([{ url: /volumes\?q=isbn%3A9783522128001&/, file: 'GoogleBooksAPI/isbn.json' }]);
+
+			const results = await api.searchByTitle('978-3-522-12800-1');
+
+			expect(results).toHaveLength(1);
+			expect(results[0]).toMatchObject({ title: 'Die unendliche Geschichte', id: 'hP1NzgEACAAJ' });
+		});
+
+		test('sends the API key if one is set', async () => {
+			const requests: HttpRequest[] = [];
+			const api = new GoogleBooksAPI(createTestPlugin([{ url: /volumes/, file: 'GoogleBooksAPI/search.json' }], { GoogleBooksKey: 'test-key' }, requests));
+
+			await api.searchByTitle('harry potter');
+
+			expect(requests[0].url).toEndWith('&key=test-key');
+		});
+	});
+
+	describe('getById', () => {
+		test('parses a volume', async () => {
+			const api = createAPI([{ url: /googleapis\.com\/books\/v1\/volumes\/hP1NzgEACAAJ$/, file: 'GoogleBooksAPI/volume.json' }]);
+
+			const result = await api.getById('hP1NzgEACAAJ');
+
+			expect(result).toBeInstanceOf(BookModel);
+			expect(result).toMatchObject({
+				type: MediaType.Book,
+				title: 'Die unendliche Geschichte',
+				year: '1979',
+				dataSource: 'GoogleBooksAPI',
+				url: 'https://books.google.com/books/about/Die_unendliche_Geschichte.html?hl=&id=hP1NzgEACAAJ',
+				id: 'hP1NzgEACAAJ',
+				isbn: '3522128001',
+				isbn13: '9783522128001',
+				author: 'Michael Ende, Roswitha Quadflieg',
+				plot: 'Bastian Balthasar Bux entdeckt ein geheimnisvolles Buch.\nPhantásien ist in Gefahr.',
+				pages: 428,
+				onlineRating: 4.5,
+				image: 'https://books.google.com/books/content?id=hP1NzgEACAAJ&printsec=frontcover&img=1&zoom=5&source=gbs_api',
+				publisher: 'Thienemann',
+				language: 'de',
+				categories: ['Juvenile Fiction', 'Fantasy'],
+				released: true,
+			});
+		});
+
+		test('looks up ISBN-10 and ISBN-13', async () => {
+			for (const isbn of ['3-522-12800-1', '9783522128001']) {
+				const requests: HttpRequest[] = [];
+				const api = createAPI(
+					[
+						{ url: /volumes\?q=isbn%3A(3522128001|9783522128001)&/, file: 'GoogleBooksAPI/isbn.json' },
+						{ url: /volumes\/hP1NzgEACAAJ$/, file: 'GoogleBooksAPI/volume.json' },
+					],
+					requests,
+				);
+
+				const result = await api.getById(isbn);
+
+				expect(requests).toHaveLength(2);
+				expect(result).toMatchObject({ id: 'hP1NzgEACAAJ', isbn13: '9783522128001' });
+			}
+		});
+
+		test('rejects ISBNs with a wrong check digit without a request', async () => {
+			const requests: HttpRequest[] = [];
+			const api = createAPI([], requests);
+
+			await expect(api.getById('9783522128002')).rejects.toThrow('9783522128002 is not a valid ISBN');
+			expect(requests).toHaveLength(0);
+		});
+
+		test('throws for unknown ISBNs', async () => {
+			const api = createAPI([{ url: /volumes\?q=isbn/, file: 'GoogleBooksAPI/isbn-not-found.json' }]);
+
+			await expect(api.getById('0-306-40615-2')).rejects.toThrow('GoogleBooksAPI has no book with the ISBN 0-306-40615-2');
+		});
+	});
+});
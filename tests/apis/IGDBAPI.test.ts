@@ -0,0 +1,130 @@
+import { describe, expect, test } from 'bun:test';
+import { IGDBAPI } from '../../src/api/apis/IGDBAPI';
+import type { HttpRequest } from '../../src/api/HttpClient';
+import { HttpClient } from '../../src/api/HttpClient';
+import { GameModel } from '../../src/models/GameModel';
+import { MediaType } from '../../src/utils/MediaType';
+import type { Fixture } from '../testUtils';
+import { createFixtureRequestFunction, createTestPlugin } from '../testUtils';
+
+const tokenFixture: Fixture = {
+	url: /^https:\/\/id\.twitch\.tv\/oauth2\/token\?client_id=test-client-id&client_secret=test-client-secret&grant_type=client_credentials$/,
+	file: 'IGDBAPI/token.json',
+};
+
+function createAPI(fixtures: Fixture[], requests: HttpRequest[] = []): IGDBAPI {
+	const api = new IGDBAPI(createTestPlugin([tokenFixture, ...fixtures], {}, requests));
+	api.requestPolicy = {};
+	return api;
+}
+
+describe('IGDBAPI', () => {
+	describe('searchByTitle', () => {
+		test('returns games', async () => {
+			const requests: HttpRequest[] = [];
+			const api = createAPI([{ url: /^https:\/\/api\.igdb\.com\/v4\/games$/, file: 'IGDBAPI/search.json' }], requests);
+
+			const results = await api.searchByTitle('the "witcher" 3');
+
+			expect(requests[1]).toMatchObject({
+				method: 'POST',
+				headers: { 'Client-ID': 'test-client-id', Authorization: 'Bearer test-access-token' },
+				body: 'search "the \\"witcher\\" 3"; fields name,first_release_date,cover.image_id; limit 20;',
+			});
+			expect(results).toHaveLength(2);
+			expect(results[0]).toBeInstanceOf(GameModel);
+			expect(results[0]).toMatchObject({
+				type: MediaType.Game,
+				title: 'The Witcher 3: Wild Hunt',
+				year: '2015',
+				dataSource: 'IGDBAPI',
+				id: '1942',
+				image: 'https://images.igdb.com/igdb/image/upload/t_cover_big/co1wyy.jpg',
+			});
+			expect(results[1]).toMatchObject({ title: 'The Witcher 4', year: '', image: '' });
+		});
+
+		test('throws without client credentials', async () => {
+			const api = new IGDBAPI(createTestPlugin([], { IGDBClientSecret: '' }));
+
+			await expect(api.searchByTitle('the witcher 3')).rejects.toThrow('Client ID and secret for IGDBAPI missing');
+		});
+
+		test('throws if Twitch does not accept the client credentials', async () => {
+			const api = new IGDBAPI(createTestPlugin([{ url: /id\.twitch\.tv/, file: 'IGDBAPI/token.json', status: 403 }]));
+
+			await expect(api.searchByTitle('the witcher 3')).rejects.toThrow('Twitch did not accept the client ID and secret for IGDBAPI');
+		});
+	});
+
+	describe('getById', () => {
+		test('parses a game', async () => {
+			const api = createAPI([{ url: /api\.igdb\.com\/v4\/games$/, file: 'IGDBAPI/game.json' }]);
+
+			const result = await api.getById('1942');
+
+			expect(result).toBeInstanceOf(GameModel);
+			expect(result).toMatchObject({
+				type: MediaType.Game,
+				title: 'The Witcher 3: Wild Hunt',
+				year: '2015',
+				url: 'https://www.igdb.com/games/the-witcher-3-wild-hunt',
+				id: '1942',
+				developers: ['CD Projekt RED'],
+				publishers: ['CD Projekt', 'Bandai Namco Entertainment'],
+				genres: ['Role-playing (RPG)', 'Adventure'],
+				platforms: ['PC (Microsoft Windows)', 'PlayStation 4', 'Nintendo Switch'],
+				franchises: ['The Witcher'],
+				onlineRating: 9.3,
+				image: 'https://images.igdb.com/igdb/image/upload/t_cover_big/co1wyy.jpg',
+				website: 'https://thewitcher.com/en/witcher3',
+				released: true,
+				releaseDate: '2015-05-19',
+				platformReleaseDates: ['PC (Microsoft Windows): 2015-05-19', 'PlayStation 4: 2015-05-19', 'Nintendo Switch: 2019-10-17'],
+			});
+		});
+
+		test('throws for unknown IDs', async () => {
+			const api = createAPI([{ url: /api\.igdb\.com/, file: 'IGDBAPI/empty.json' }]);
+
+			await expect(api.getById('0')).rejects.toThrow('IGDBAPI has no game with the ID 0');
+		});
+	});
+
+	describe('access token', () => {
+		test('is reused until it expires', async () => {
+			const requests: HttpRequest[] = [];
+			const api = createAPI([{ url: /api\.igdb\.com/, file: 'IGDBAPI/search.json' }], requests);
+
+			await api.searchByTitle('the witcher 3');
+			await api.searchByTitle('the witcher 3');
+			expect(requests.filter(x => x.url.includes('twitch')).length).toBe(1);
+
+			api.accessTokenExpiry = Date.now();
+			await api.searchByTitle('the witcher 3');
+			expect(requests.filter(x => x.url.includes('twitch')).length).toBe(2);
+		});
+
+		test('is renewed when IGDB rejects it', async () => {
+			const requests: HttpRequest[] = [];
+			const plugin = createTestPlugin([]);
+			const fixtureRequest = createFixtureRequestFunction([tokenFixture, { url: /api\.igdb\.com/, file: 'IGDBAPI/search.json' }], requests);
+			let rejectedToken = false;
+			plugin.httpClient = new HttpClient(async request => {
+				if (request.url.includes('api.igdb.com') && !rejectedToken) {
+					rejectedToken = true;
+					requests.push(request);
+					return { status: 401, headers: {}, text: '', json: undefined };
+				}
+				return fixtureRequest(request);
+			});
+			const api = new IGDBAPI(plugin);
+			api.requestPolicy = {};
+
+			const results = await api.searchByTitle('the witcher 3');
+
+			expect(results).toHaveLength(2);
+			expect(requests.map(x => new URL(x.url).host)).toEqual(['id.twitch.tv', 'api.igdb.com', 'id.twitch.tv', 'api.igdb.com']);
+		});
+	});
+});
@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test';
+import { ITunesAPI } from '../../src/api/apis/ITunesAPI';
+import type { HttpRequest } from '../../src/api/HttpClient';
+import { AudiobookModel } from '../../src/models/AudiobookModel';
+import { PodcastModel } from '../../src/models/PodcastModel';
+import type { MediaDbPluginSettings } from '../../src/settings/Settings';
+import { MediaType } from '../../src/utils/MediaType';
+import type { Fixture } from '../testUtils';
+import { createTestPlugin } from '../testUtils';
+
+function createAPI(fixtures: Fixture[], settings: Partial<MediaDbPluginSettings> = {}, requests: HttpRequest[] = []): ITunesAPI {
+	const api = new ITunesAPI(createTestPlugin(fixtures, settings, requests));
+	api.requestPolicy = {};
+	return api;
+}
+
+describe('ITunesAPI', () => {
+	describe('searchByTitle', () => {
+		test('returns podcasts and audiobooks', async () => {
+			const api = createAPI([
+				{ url: /^https:\/\/itunes\.apple\.com\/search\?term=the%20daily&media=podcast&limit=20&explicit=No$/, file: 'ITunesAPI/search-podcast.json' },
+				{ url: /^https:\/\/itunes\.apple\.com\/search\?term=the%20daily&media=audiobook&limit=20&explicit=No$/, file: 'ITunesAPI/search-audiobook.json' },
+			]);
+
+			const results = await api.searchByTitle('the daily');
+
+			expect(results).toHaveLength(2);
+			expect(results[0]).toBeInstanceOf(PodcastModel);
+			expect(results[0]).toMatchObject({
+				type: MediaType.Podcast,
+				title: 'The Daily',
+				year: '2024',
+				dataSource: 'iTunesAPI',
+				id: '1200361736',
+				hosts: ['The New York Times'],
+				image: 'https://is1-ssl.mzstatic.com/image/thumb/Podcasts/600x600bb.jpg',
+			});
+			expect(results[1]).toBeInstanceOf(AudiobookModel);
+			expect(results[1]).toMatchObject({
+				type: MediaType.Audiobook,
+				title: "The Hitchhiker's Guide to the Galaxy",
+				year: '2005',
+				id: '1440463474',
+				author: 'Douglas Adams',
+				image: 'https://is1-ssl.mzstatic.com/image/thumb/Music/600x600bb.jpg',
+			});
+		});
+
+		test('uses the API URL from the settings', async () => {
+			const requests: HttpRequest[] = [];
+			const api = createAPI(
+				[
+					{ url: /media=podcast/, file: 'ITunesAPI/search-podcast.json' },
+					{ url: /media=audiobook/, file: 'ITunesAPI/search-audiobook.json' },
+				],
+				{ iTunesApiUrl: 'http://localhost:8080/itunes/', sfwFilter: false },
+				requests,
+			);
+
+			await api.searchByTitle('the daily');
+
+			expect(requests.map(x => x.url)).toEqual([
+				'http://localhost:8080/itunes/search?term=the%20daily&media=podcast&limit=20',
+				'http://localhost:8080/itunes/search?term=the%20daily&media=audiobook&limit=20',
+			]);
+		});
+	});
+
+	describe('getById', () => {
+		test('parses a podcast', async () => {
+			const api = createAPI([{ url: /itunes\.apple\.com\/lookup\?id=1200361736$/, file: 'ITunesAPI/lookup-podcast.json' }]);
+
+			const result = await api.getById('1200361736');
+
+			expect(result).toBeInstanceOf(PodcastModel);
+			expect(result).toMatchObject({
+				type: MediaType.Podcast,
+				title: 'The Daily',
+				year: '2024',
+				url: 'https://podcasts.apple.com/us/podcast/the-daily/id1200361736?uo=4',
+				id: '1200361736',
+				genres: ['Daily News', 'News'],
+				hosts: ['The New York Times'],
+				feedUrl: 'https://feeds.simplecast.com/54nAGcIl',
+				episodes: 2150,
+				released: true,
+				latestEpisode: '2024-05-03',
+			});
+		});
+
+		test('parses an audiobook', async () => {
+			const api = createAPI([{ url: /itunes\.apple\.com\/lookup\?id=1440463474$/, file: 'ITunesAPI/lookup-audiobook.json' }]);
+
+			const result = await api.getById('1440463474');
+
+			expect(result).toBeInstanceOf(AudiobookModel);
+			expect(result).toMatchObject({
+				type: MediaType.Audiobook,
+				title: "The Hitchhiker's Guide to the Galaxy",
+				year: '2005',
+				url: 'https://books.apple.com/us/audiobook/the-hitchhikers-guide-to-the-galaxy/id1440463474?uo=4',
+				id: '1440463474',
+				plot: 'Seconds before the Earth is demolished to make way for a galactic freeway, Arthur Dent is plucked off the planet.\n\nNarrated by Stephen Fry and Martin Freeman.',
+				genres: ['Sci-Fi & Fantasy'],
+				author: 'Douglas Adams',
+				narrator: ['Stephen Fry', 'Martin Freeman'],
+				publisher: 'Random House Audio',
+				released: true,
+				releaseDate: '2005-04-28',
+			});
+		});
+
+		test('throws for unknown IDs', async () => {
+			const api = createAPI([{ url: /lookup/, file: 'ITunesAPI/lookup-empty.json' }]);
+
+			await expect(api.getById('1')).rejects.toThrow('iTunesAPI has no podcast or audiobook with the ID 1');
+		});
+	});
+});
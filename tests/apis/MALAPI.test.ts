@@ -0,0 +1,143 @@
+import { describe, expect, test } from 'bun:test';
+import { MALAPI } from '../../src/api/apis/MALAPI';
+import type { HttpRequest } from '../../src/api/HttpClient';
+import { MovieModel } from '../../src/models/MovieModel';
+import { SeriesModel } from '../../src/models/SeriesModel';
+import { MediaType } from '../../src/utils/MediaType';
+import type { Fixture } from '../testUtils';
+import { createTestPlugin } from '../testUtils';
+
+function createAPI(fixtures: Fixture[], requests: HttpRequest[] = []): MALAPI {
+	return new MALAPI(createTestPlugin(fixtures, {}, requests));
+}
+
+describe('MALAPI', () => {
+	describe('searchByTitle', () => {
+		test('maps the anime types to movies and series', async () => {
+			const api = createAPI([{ url: /api\.jikan\.moe\/v4\/anime\?q=kyoukai%20no%20kanata&limit=20&sfw$/, file: 'MALAPI/search.json' }]);
+
+			const results = await api.searchByTitle('kyoukai no kanata');
+
+			expect(results).toHaveLength(4);
+			expect(results[0]).toBeInstanceOf(SeriesModel);
+			expect(results[0]).toMatchObject({
+				type: MediaType.Series,
+				subType: 'series',
+				title: 'Kyoukai no Kanata',
+				englishTitle: 'Beyond the Boundary',
+				year: 2013,
+				dataSource: 'MALAPI',
+				id: 18153,
+			});
+			expect(results[1]).toBeInstanceOf(MovieModel);
+			expect(results[1]).toMatchObject({ subType: 'movie', englishTitle: "Kyoukai no Kanata Movie: I'll Be Here - Kako-hen", year: 2015 });
+			expect(results[2]).toMatchObject({ type: MediaType.Movie, subType: 'special', year: 2014 });
+			// unknown types are treated as movies
+			expect(results[3]).toMatchObject({ type: MediaType.Movie, subType: '', id: 25797 });
+		});
+
+		test('only filters NSFW results if the filter is enabled', async () => {
+			const requests: HttpRequest[] = [];
+			const api = new MALAPI(createTestPlugin([{ url: /api\.jikan\.moe/, file: 'MALAPI/search.json' }], { sfwFilter: false }, requests));
+
+			await api.searchByTitle('kyoukai no kanata');
+
+			expect(requests[0].url).not.toContain('sfw');
+		});
+	});
+
+	describe('getById', () => {
+		test('parses a series', async () => {
+			const api = createAPI([{ url: /api\.jikan\.moe\/v4\/anime\/18153\/full$/, file: 'MALAPI/series.json' }]);
+
+			const result = await api.getById('18153');
+
+			expect(result).toBeInstanceOf(SeriesModel);
+			expect(result).toMatchObject({
+				subType: 'series',
+				title: 'Kyoukai no Kanata',
+				englishTitle: 'Beyond the Boundary',
+				year: 2013,
+				url: 'https://myanimelist.net/anime/18153/Kyoukai_no_Kanata',
+				id: 18153,
+				plot: 'Akihito Kanbara is seemingly a normal high school student.',
+				genres: ['Action', 'Fantasy'],
+				studio: ['Kyoto Animation'],
+				episodes: 12,
+				duration: '24 min per ep',
+				onlineRating: 7.72,
+				streamingServices: ['Crunchyroll'],
+				image: 'https://cdn.myanimelist.net/images/anime/5/50199.jpg',
+				airedFrom: '2013-10-03',
+				airedTo: '2013-12-19',
+				airing: false,
+			});
+		});
+
+		test('parses a movie', async () => {
+			const api = createAPI([{ url: /api\.jikan\.moe\/v4\/anime\/22855\/full$/, file: 'MALAPI/movie.json' }]);
+
+			const result = await api.getById('22855');
+
+			expect(result).toBeInstanceOf(MovieModel);
+			expect(result).toMatchObject({
+				subType: 'movie',
+				englishTitle: "Kyoukai no Kanata Movie: I'll Be Here - Kako-hen",
+				year: 2015,
+				duration: '1 hr 26 min',
+				onlineRating: 7.6,
+				premiere: '2015-03-14',
+				streamingServices: [],
+			});
+		});
+	});
+
+	describe('getEpisodes', () => {
+		test('requests all pages of episodes', async () => {
+			const api = createAPI([
+				{ url: /api\.jikan\.moe\/v4\/anime\/18153\/episodes\?page=1$/, file: 'MALAPI/episodes-page-1.json' },
+				{ url: /api\.jikan\.moe\/v4\/anime\/18153\/episodes\?page=2$/, file: 'MALAPI/episodes-page-2.json' },
+			]);
+
+			const episodes = await api.getEpisodes('18153');
+
+			expect(episodes).toEqual([
+				{ season: 1, episode: 1, title: 'Carmine', airDate: '2013-10-03' },
+				{ season: 1, episode: 2, title: 'Ultramarine', airDate: '2013-10-10' },
+				{ season: 1, episode: 3, title: 'Moss Green', airDate: 'unknown' },
+			]);
+		});
+	});
+
+	describe('getUserList', () => {
+		test('maps the statuses, watched episodes and scores on the rating scale', async () => {
+			const api = createAPI([{ url: /myanimelist\.net\/animelist\/test-user\/load\.json\?status=7&offset=0$/, file: 'MALAPI/animelist.json' }]);
+
+			const entries = await api.getUserList('test-user', 5);
+
+			expect(entries).toEqual([
+				{
+					id: '1',
+					title: 'Cowboy Bebop',
+					apiName: 'MALAPI',
+					userData: { personalStatus: 'Completed', personalRating: 4.5, personalTags: ['space', 'classic'], progress: 26, watched: true },
+				},
+				{
+					id: '6',
+					title: 'Trigun',
+					apiName: 'MALAPI',
+					userData: { personalStatus: 'Planned', personalRating: undefined, personalTags: undefined, progress: undefined, watched: false },
+				},
+			]);
+		});
+	});
+
+	describe('getIdFromUrl', () => {
+		test('only recognizes anime urls', () => {
+			const api = createAPI([]);
+
+			expect(api.getIdFromUrl('https://myanimelist.net/anime/18153/Kyoukai_no_Kanata')).toBe('18153');
+			expect(api.getIdFromUrl('https://myanimelist.net/manga/62887/All_You_Need_Is_Kill')).toBeUndefined();
+		});
+	});
+});
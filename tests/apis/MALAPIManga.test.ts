@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { MALAPIManga } from '../../src/api/apis/MALAPIManga';
+import { ComicMangaModel } from '../../src/models/ComicMangaModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin } from '../testUtils';
+
+describe('MALAPIManga', () => {
+	test('searchByTitle maps the manga types', async () => {
+		const api = new MALAPIManga(createTestPlugin([{ url: /api\.jikan\.moe\/v4\/manga\?q=all%20you%20need%20is%20kill&limit=20&sfw$/, file: 'MALAPIManga/search.json' }]));
+
+		const results = await api.searchByTitle('all you need is kill');
+
+		expect(results).toHaveLength(2);
+		expect(results[0]).toBeInstanceOf(ComicMangaModel);
+		expect(results[0]).toMatchObject({
+			type: MediaType.ComicManga,
+			subType: 'manga',
+			title: 'All You Need Is Kill',
+			englishTitle: 'All You Need Is Kill',
+			alternateTitles: ['All You Need Is Kill', 'オール・ユー・ニード・イズ・キル'],
+			year: 2014,
+			dataSource: 'MALAPI Manga',
+			id: 62887,
+			authors: ['Obata, Takeshi'],
+			chapters: 17,
+			volumes: 2,
+			onlineRating: 8.11,
+			status: 'Finished',
+		});
+		expect(results[1]).toMatchObject({ subType: 'light-novel', year: 2004, id: 16965 });
+	});
+
+	test('getById parses a manga', async () => {
+		const api = new MALAPIManga(createTestPlugin([{ url: /api\.jikan\.moe\/v4\/manga\/62887\/full$/, file: 'MALAPIManga/manga.json' }]));
+
+		const result = await api.getById('62887');
+
+		expect(result).toBeInstanceOf(ComicMangaModel);
+		expect(result).toMatchObject({
+			subType: 'manga',
+			title: 'All You Need Is Kill',
+			url: 'https://myanimelist.net/manga/62887/All_You_Need_Is_Kill',
+			id: 62887,
+			plot: "Keiji Kiriya is one of the 'recruits' in the war against the Mimics.",
+			genres: ['Action', 'Sci-Fi'],
+			authors: ['Obata, Takeshi', 'Sakurazaka, Hiroshi'],
+			publishers: ['Shounen Jump (Weekly)'],
+			image: 'https://cdn.myanimelist.net/images/manga/3/155021.jpg',
+			released: true,
+		});
+		expect(result).toHaveProperty('publishedFrom', new Date('2014-01-06T00:00:00+00:00').toLocaleDateString());
+	});
+
+	test('getUserList loads the list from the base url in the settings', async () => {
+		const api = new MALAPIManga(
+			createTestPlugin([{ url: /^https:\/\/mal\.example\.com\/mangalist\/test-user\/load\.json\?status=7&offset=0$/, file: 'MALAPIManga/mangalist.json' }], {
+				malListBaseUrl: 'https://mal.example.com/',
+			}),
+		);
+
+		const entries = await api.getUserList('test-user', 10);
+
+		expect(entries).toEqual([
+			{
+				id: '62887',
+				title: 'All You Need Is Kill',
+				apiName: 'MALAPI Manga',
+				userData: { personalStatus: 'In progress', personalRating: 8, personalTags: undefined, progress: 5, read: false },
+			},
+		]);
+	});
+
+	test('getIdFromUrl only recognizes manga urls', () => {
+		const api = new MALAPIManga(createTestPlugin([]));
+
+		expect(api.getIdFromUrl('https://myanimelist.net/manga/62887/All_You_Need_Is_Kill')).toBe('62887');
+		expect(api.getIdFromUrl('https://myanimelist.net/anime/18153/Kyoukai_no_Kanata')).toBeUndefined();
+	});
+});
@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'bun:test';
+import { MobyGamesAPI } from '../../src/api/apis/MobyGamesAPI';
+import { GameModel } from '../../src/models/GameModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin } from '../testUtils';
+
+describe('MobyGamesAPI', () => {
+	test('searchByTitle returns the found games', async () => {
+		const api = new MobyGamesAPI(createTestPlugin([{ url: /api\.mobygames\.com\/v1\/games\?title=bioshock%202&api_key=test-key$/, file: 'MobyGamesAPI/search.json' }]));
+
+		const results = await api.searchByTitle('bioshock 2');
+
+		expect(results).toHaveLength(1);
+		expect(results[0]).toBeInstanceOf(GameModel);
+		expect(results[0]).toMatchObject({ type: MediaType.Game, title: 'BioShock 2', year: '2010', dataSource: 'MobyGamesAPI', id: 45089 });
+	});
+
+	test('getById parses a game', async () => {
+		const api = new MobyGamesAPI(createTestPlugin([{ url: /api\.mobygames\.com\/v1\/games\?id=45089&api_key=test-key$/, file: 'MobyGamesAPI/game.json' }]));
+
+		const result = await api.getById('45089');
+
+		expect(result).toBeInstanceOf(GameModel);
+		expect(result).toMatchObject({
+			title: 'BioShock 2',
+			year: '2010',
+			url: 'https://www.mobygames.com/game/45089',
+			id: 45089,
+			genres: ['Action', '1st-person'],
+			onlineRating: 8.2,
+			image: 'https://cdn.mobygames.com/covers/4010583-bioshock-2-windows-front-cover.jpg',
+			releaseDate: '2010-02-09',
+		});
+	});
+});
@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { MusicBrainzAPI } from '../../src/api/apis/MusicBrainzAPI';
+import type { HttpRequest } from '../../src/api/HttpClient';
+import { MusicReleaseModel } from '../../src/models/MusicReleaseModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin } from '../testUtils';
+
+describe('MusicBrainzAPI', () => {
+	test('searchByTitle returns the found release groups', async () => {
+		const requests: HttpRequest[] = [];
+		const api = new MusicBrainzAPI(
+			createTestPlugin([{ url: /musicbrainz\.org\/ws\/2\/release-group\?query=ok%20computer&limit=20&fmt=json$/, file: 'MusicBrainzAPI/search.json' }], {}, requests),
+		);
+
+		const results = await api.searchByTitle('ok computer');
+
+		// MusicBrainz rejects requests without a user agent
+		expect(requests[0].headers?.['User-Agent']).toStartWith('obsidian-media-db-plugin/');
+		expect(results).toHaveLength(2);
+		expect(results[0]).toBeInstanceOf(MusicReleaseModel);
+		expect(results[0]).toMatchObject({
+			type: MediaType.MusicRelease,
+			subType: 'Album',
+			title: 'OK Computer',
+			year: '1997',
+			dataSource: 'MusicBrainz API',
+			url: 'https://musicbrainz.org/release-group/b1392450-e666-3926-a536-22c65f834433',
+			id: 'b1392450-e666-3926-a536-22c65f834433',
+			image: 'https://coverartarchive.org/release-group/b1392450-e666-3926-a536-22c65f834433/front',
+			artists: ['Radiohead'],
+		});
+		expect(results[1]).toMatchObject({ title: 'OK Computer OKNOTOK 1997 2017', year: '2017' });
+	});
+
+	test('getById parses a release group', async () => {
+		const api = new MusicBrainzAPI(
+			createTestPlugin([{ url: /musicbrainz\.org\/ws\/2\/release-group\/b1392450-e666-3926-a536-22c65f834433\?/, file: 'MusicBrainzAPI/release-group.json' }]),
+		);
+
+		const result = await api.getById('b1392450-e666-3926-a536-22c65f834433');
+
+		expect(result).toBeInstanceOf(MusicReleaseModel);
+		expect(result).toMatchObject({
+			subType: 'Album',
+			title: 'OK Computer',
+			year: '1997',
+			artists: ['Radiohead'],
+			genres: ['alternative rock', 'art rock'],
+			rating: 9.2,
+		});
+	});
+
+	test('getIdFromUrl extracts the id from release group urls', () => {
+		const api = new MusicBrainzAPI(createTestPlugin([]));
+
+		expect(api.getIdFromUrl('https://musicbrainz.org/release-group/f5093c06-23e3-404f-aeaa-40f72885ee3a')).toBe('f5093c06-23e3-404f-aeaa-40f72885ee3a');
+		// releases have their own ids, only release groups can be loaded
+		expect(api.getIdFromUrl('https://musicbrainz.org/release/b84ee12a-09ef-421b-82de-0441a926375b')).toBeUndefined();
+	});
+});
@@ -0,0 +1,175 @@
+import { describe, expect, test } from 'bun:test';
+import { OMDbAPI } from '../../src/api/apis/OMDbAPI';
+import { HttpError } from '../../src/api/HttpClient';
+import { GameModel } from '../../src/models/GameModel';
+import { MovieModel } from '../../src/models/MovieModel';
+import { SeriesModel } from '../../src/models/SeriesModel';
+import { MediaType } from '../../src/utils/MediaType';
+import type { Fixture } from '../testUtils';
+import { createTestPlugin } from '../testUtils';
+
+function createAPI(fixtures: Fixture[]): OMDbAPI {
+	return new OMDbAPI(createTestPlugin(fixtures));
+}
+
+describe('OMDbAPI', () => {
+	describe('searchByTitle', () => {
+		test('returns movies, series and games and skips unsupported types', async () => {
+			const api = createAPI([{ url: /omdbapi\.com\/\?s=rogue%20one&apikey=test-key$/, file: 'OMDbAPI/search.json' }]);
+
+			const results = await api.searchByTitle('rogue one');
+
+			expect(results).toHaveLength(3);
+			expect(results[0]).toBeInstanceOf(MovieModel);
+			expect(results[0]).toMatchObject({
+				type: MediaType.Movie,
+				title: 'Rogue One: A Star Wars Story',
+				englishTitle: 'Rogue One: A Star Wars Story',
+				year: '2016',
+				dataSource: 'OMDbAPI',
+				id: 'tt3748528',
+			});
+			expect(results[1]).toBeInstanceOf(SeriesModel);
+			expect(results[1]).toMatchObject({ type: MediaType.Series, id: 'tt9253284', year: '2022–2025' });
+			expect(results[2]).toBeInstanceOf(GameModel);
+			expect(results[2]).toMatchObject({ type: MediaType.Game, id: 'tt0169640', year: '1998' });
+		});
+
+		test('returns an empty list if nothing is found', async () => {
+			const api = createAPI([{ url: /omdbapi\.com\/\?s=/, file: 'OMDbAPI/search-not-found.json' }]);
+
+			expect(await api.searchByTitle('nothing')).toEqual([]);
+		});
+
+		test('throws without an API key', async () => {
+			const api = new OMDbAPI(createTestPlugin([], { OMDbKey: '' }));
+
+			await expect(api.searchByTitle('rogue one')).rejects.toThrow('API key for OMDbAPI missing');
+		});
+
+		test('throws a typed error on a failed authentication', async () => {
+			const api = createAPI([{ url: /omdbapi\.com/, file: 'OMDbAPI/invalid-id.json', status: 401 }]);
+
+			const error = await api.searchByTitle('rogue one').catch(e => e);
+
+			expect(error).toBeInstanceOf(HttpError);
+			expect(error.status).toBe(401);
+			expect(error.message).toBe('MDB | Authentication for OMDbAPI failed. Check the API key.');
+		});
+	});
+
+	describe('searchByTitleAndYear', () => {
+		test('filters the search by the year', async () => {
+			const api = createAPI([{ url: /omdbapi\.com\/\?s=rogue%20one&y=2016&apikey=test-key$/, file: 'OMDbAPI/search.json' }]);
+
+			const results = await api.searchByTitleAndYear('rogue one', '2016');
+
+			expect(results).toHaveLength(3);
+			expect(results[0]).toMatchObject({ title: 'Rogue One: A Star Wars Story', id: 'tt3748528' });
+		});
+	});
+
+	describe('getById', () => {
+		test('parses a movie', async () => {
+			const api = createAPI([{ url: /omdbapi\.com\/\?i=tt3748528&/, file: 'OMDbAPI/movie.json' }]);
+
+			const result = await api.getById('tt3748528');
+
+			expect(result).toBeInstanceOf(MovieModel);
+			expect(result).toMatchObject({
+				type: MediaType.Movie,
+				title: 'Rogue One: A Star Wars Story',
+				year: '2016',
+				dataSource: 'OMDbAPI',
+				url: 'https://www.imdb.com/title/tt3748528/',
+				id: 'tt3748528',
+				plot: 'In a time of conflict, a group of unlikely heroes band together on a mission to steal the plans to the Death Star.',
+				genres: ['Action', 'Adventure', 'Sci-Fi'],
+				director: ['Gareth Edwards'],
+				writer: ['Chris Weitz', 'Tony Gilroy', 'John Knoll'],
+				duration: '133 min',
+				onlineRating: 7.8,
+				actors: ['Felicity Jones', 'Diego Luna', 'Alan Tudyk'],
+				image: 'https://m.media-amazon.com/images/M/MV5BMjEwMzMxODIzOV5BMl5BanBnXkFtZTgwNzg3OTAzMDI@._V1_SX300.jpg',
+				released: true,
+				premiere: '2016-12-16',
+			});
+		});
+
+		test('parses a series', async () => {
+			const api = createAPI([{ url: /omdbapi\.com\/\?i=tt9253284&/, file: 'OMDbAPI/series.json' }]);
+
+			const result = await api.getById('tt9253284');
+
+			expect(result).toBeInstanceOf(SeriesModel);
+			expect(result).toMatchObject({
+				type: MediaType.Series,
+				title: 'Andor',
+				year: '2022–2025',
+				id: 'tt9253284',
+				genres: ['Action', 'Adventure', 'Drama'],
+				writer: ['Tony Gilroy'],
+				duration: '40 min',
+				onlineRating: 8.4,
+				actors: ['Diego Luna', 'Kyle Soller', 'Stellan Skarsgård'],
+				airedFrom: '2022-09-21',
+			});
+		});
+
+		test('parses a game', async () => {
+			const api = createAPI([{ url: /omdbapi\.com\/\?i=tt0169640&/, file: 'OMDbAPI/game.json' }]);
+
+			const result = await api.getById('tt0169640');
+
+			expect(result).toBeInstanceOf(GameModel);
+			expect(result).toMatchObject({
+				type: MediaType.Game,
+				title: 'Star Wars: Rogue Squadron',
+				year: '1998',
+				id: 'tt0169640',
+				genres: ['Action', 'Adventure', 'Sci-Fi'],
+				onlineRating: 8,
+				releaseDate: '1998-12-07',
+			});
+		});
+
+		test('throws the error returned by the API', async () => {
+			const api = createAPI([{ url: /omdbapi\.com\/\?i=/, file: 'OMDbAPI/invalid-id.json' }]);
+
+			await expect(api.getById('tt0')).rejects.toThrow('Incorrect IMDb ID.');
+		});
+	});
+
+	describe('getEpisodes', () => {
+		test('requests every season', async () => {
+			const api = createAPI([
+				{ url: /omdbapi\.com\/\?i=tt9253284&Season=1&apikey=test-key$/, file: 'OMDbAPI/season-1.json' },
+				{ url: /omdbapi\.com\/\?i=tt9253284&Season=2&apikey=test-key$/, file: 'OMDbAPI/season-2.json' },
+			]);
+
+			const episodes = await api.getEpisodes('tt9253284');
+
+			expect(episodes).toEqual([
+				{ season: 1, episode: 1, title: 'Kassa', airDate: '2022-09-21' },
+				{ season: 1, episode: 2, title: 'That Would Be Me', airDate: '2022-09-21' },
+				{ season: 2, episode: 1, title: 'One Year Later', airDate: 'unknown' },
+			]);
+		});
+
+		test('throws the error returned by the API', async () => {
+			const api = createAPI([{ url: /omdbapi\.com\/\?i=/, file: 'OMDbAPI/invalid-id.json' }]);
+
+			await expect(api.getEpisodes('tt0')).rejects.toThrow('Incorrect IMDb ID.');
+		});
+	});
+
+	describe('getIdFromUrl', () => {
+		test('extracts the IMDb id from title urls', () => {
+			const api = createAPI([]);
+
+			expect(api.getIdFromUrl('https://www.imdb.com/title/tt0133093/')).toBe('tt0133093');
+			expect(api.getIdFromUrl('https://m.imdb.com/de/title/tt0944947/episodes/?season=1')).toBe('tt0944947');
+			expect(api.getIdFromUrl('https://www.imdb.com/name/nm0000206/')).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import { OpenLibraryAPI } from '../../src/api/apis/OpenLibraryAPI';
+import { BookModel } from '../../src/models/BookModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin } from '../testUtils';
+
+describe('OpenLibraryAPI', () => {
+	test('searchByTitle returns the found works', async () => {
+		const api = new OpenLibraryAPI(createTestPlugin([{ url: /openlibrary\.org\/search\.json\?title=fantastic%20mr%20fox$/, file: 'OpenLibraryAPI/search.json' }]));
+
+		const results = await api.searchByTitle('fantastic mr fox');
+
+		expect(results).toHaveLength(2);
+		expect(results[0]).toBeInstanceOf(BookModel);
+		expect(results[0]).toMatchObject({
+			type: MediaType.Book,
+			title: 'Fantastic Mr Fox',
+			englishTitle: 'Fantastic Mr Fox',
+			year: 1970,
+			dataSource: 'OpenLibraryAPI',
+			id: '/works/OL45804W',
+			author: ['Roald Dahl'],
+		});
+		expect(results[1]).toMatchObject({ title: 'Fantastic Mr. Fox', author: 'unknown' });
+	});
+
+	test('searchByISBN searches by the isbn', async () => {
+		const api = new OpenLibraryAPI(createTestPlugin([{ url: /openlibrary\.org\/search\.json\?isbn=9780140328721$/, file: 'OpenLibraryAPI/search.json' }]));
+
+		const results = await api.searchByISBN('9780140328721');
+
+		expect(results[0]).toMatchObject({ title: 'Fantastic Mr Fox', id: '/works/OL45804W' });
+	});
+
+	test('searchByTitleAndAuthor searches by title and author', async () => {
+		const api = new OpenLibraryAPI(
+			createTestPlugin([{ url: /openlibrary\.org\/search\.json\?title=fantastic%20mr%20fox&author=roald%20dahl$/, file: 'OpenLibraryAPI/search.json' }]),
+		);
+
+		const results = await api.searchByTitleAndAuthor('fantastic mr fox', 'roald dahl');
+
+		expect(results).toHaveLength(2);
+		expect(results[0]).toMatchObject({ title: 'Fantastic Mr Fox', author: ['Roald Dahl'] });
+	});
+
+	test('getById parses a work', async () => {
+		const api = new OpenLibraryAPI(createTestPlugin([{ url: /openlibrary\.org\/search\.json\?q=key:%2Fworks%2FOL45804W$/, file: 'OpenLibraryAPI/work.json' }]));
+
+		const result = await api.getById('/works/OL45804W');
+
+		expect(result).toBeInstanceOf(BookModel);
+		expect(result).toMatchObject({
+			title: 'Fantastic Mr Fox',
+			year: 1970,
+			url: 'https://openlibrary.org/works/OL45804W',
+			id: '/works/OL45804W',
+			isbn: '0140328726',
+			isbn13: '9780140328721',
+			author: ['Roald Dahl'],
+			pages: 96,
+			onlineRating: 4.06,
+			image: 'https://covers.openlibrary.org/b/OLID/OL7353617M-L.jpg',
+		});
+	});
+
+	test('getIdFromUrl extracts the key from work urls', () => {
+		const api = new OpenLibraryAPI(createTestPlugin([]));
+
+		expect(api.getIdFromUrl('https://openlibrary.org/works/OL45804W/Fantastic_Mr_Fox')).toBe('/works/OL45804W');
+		expect(api.getIdFromUrl('https://openlibrary.org/authors/OL34184A/Roald_Dahl')).toBeUndefined();
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { SteamAPI } from '../../src/api/apis/SteamAPI';
+import { GameModel } from '../../src/models/GameModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin } from '../testUtils';
+
+describe('SteamAPI', () => {
+	test('searchByTitle returns the found games', async () => {
+		const api = new SteamAPI(createTestPlugin([{ url: /steamcommunity\.com\/actions\/SearchApps\/factorio$/, file: 'SteamAPI/search.json' }]));
+
+		const results = await api.searchByTitle('factorio');
+
+		expect(results).toHaveLength(2);
+		expect(results[0]).toBeInstanceOf(GameModel);
+		expect(results[0]).toMatchObject({ type: MediaType.Game, title: 'Factorio', englishTitle: 'Factorio', dataSource: 'SteamAPI', id: '427520' });
+		expect(results[1]).toMatchObject({ title: 'Factorio: Space Age', id: '2218990' });
+	});
+
+	test('getById parses a game', async () => {
+		const api = new SteamAPI(createTestPlugin([{ url: /store\.steampowered\.com\/api\/appdetails\?appids=427520&l=en$/, file: 'SteamAPI/app.json' }]));
+
+		const result = await api.getById('427520');
+
+		expect(result).toBeInstanceOf(GameModel);
+		expect(result).toMatchObject({
+			title: 'Factorio',
+			year: '2020',
+			url: 'https://store.steampowered.com/app/427520',
+			id: 427520,
+			developers: ['Wube Software LTD.'],
+			publishers: ['Wube Software LTD.'],
+			genres: ['Indie', 'Simulation', 'Strategy'],
+			onlineRating: 90,
+			image: 'https://shared.akamai.steamstatic.com/store_item_assets/steam/apps/427520/header.jpg',
+			released: true,
+			releaseDate: '2020-08-14',
+		});
+	});
+
+	test('getById throws if the app does not exist', async () => {
+		const api = new SteamAPI(createTestPlugin([{ url: /store\.steampowered\.com\/api\/appdetails/, file: 'SteamAPI/app-invalid.json' }]));
+
+		await expect(api.getById('1')).rejects.toThrow('MDB | API returned invalid data.');
+	});
+
+	test('getOwnedGames returns the games of an account with their playtime', async () => {
+		const api = new SteamAPI(
+			createTestPlugin(
+				[{ url: /api\.steampowered\.com\/IPlayerService\/GetOwnedGames\/v1\/\?key=steam-key&steamid=76561197960287930&/, file: 'SteamAPI/owned-games.json' }],
+				{
+					SteamKey: 'steam-key',
+				},
+			),
+		);
+
+		const results = await api.getOwnedGames('76561197960287930');
+
+		expect(results).toEqual([
+			{ id: '620', title: 'Portal 2', apiName: 'SteamAPI', userData: { played: true, playtime: 12.6, lastPlayed: '2024-01-02' } },
+			{ id: '440', title: 'Team Fortress 2', apiName: 'SteamAPI', userData: { played: false, playtime: undefined, lastPlayed: undefined } },
+		]);
+	});
+
+	test('getOwnedGames throws if the games of the account are private', async () => {
+		const api = new SteamAPI(createTestPlugin([{ url: /GetOwnedGames/, file: 'SteamAPI/owned-games-private.json' }], { SteamKey: 'steam-key' }));
+
+		await expect(api.getOwnedGames('76561197960287930')).rejects.toThrow('might be private');
+	});
+
+	test('getOwnedGames throws without an API key', async () => {
+		const api = new SteamAPI(createTestPlugin([]));
+
+		await expect(api.getOwnedGames('76561197960287930')).rejects.toThrow('API key for SteamAPI missing');
+	});
+
+	test('getIdFromUrl extracts the app id from store urls', () => {
+		const api = new SteamAPI(createTestPlugin([]));
+
+		expect(api.getIdFromUrl('https://store.steampowered.com/app/427520/Factorio/')).toBe('427520');
+		expect(api.getIdFromUrl('https://steamcommunity.com/app/427520')).toBeUndefined();
+	});
+});
@@ -0,0 +1,154 @@
+import { describe, expect, test } from 'bun:test';
+import { TMDBAPI } from '../../src/api/apis/TMDBAPI';
+import { MovieModel } from '../../src/models/MovieModel';
+import { SeriesModel } from '../../src/models/SeriesModel';
+import { MediaType } from '../../src/utils/MediaType';
+import type { Fixture } from '../testUtils';
+import { createTestPlugin } from '../testUtils';
+
+function createAPI(fixtures: Fixture[]): TMDBAPI {
+	return new TMDBAPI(createTestPlugin(fixtures));
+}
+
+describe('TMDBAPI', () => {
+	describe('searchByTitle', () => {
+		test('returns movies and series and skips people', async () => {
+			const api = createAPI([{ url: /api\.themoviedb\.org\/3\/search\/multi\?query=the%20matrix&include_adult=false&api_key=test-key$/, file: 'TMDBAPI/search.json' }]);
+
+			const results = await api.searchByTitle('the matrix');
+
+			expect(results).toHaveLength(2);
+			expect(results[0]).toBeInstanceOf(MovieModel);
+			expect(results[0]).toMatchObject({
+				type: MediaType.Movie,
+				title: 'The Matrix',
+				year: '1999',
+				dataSource: 'TMDBAPI',
+				id: 'movie/603',
+				image: 'https://image.tmdb.org/t/p/original/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg',
+			});
+			expect(results[1]).toBeInstanceOf(SeriesModel);
+			expect(results[1]).toMatchObject({ type: MediaType.Series, title: 'The Matrix Revisited', year: '', id: 'tv/71024', image: '' });
+		});
+
+		test('throws without an API key', async () => {
+			const api = new TMDBAPI(createTestPlugin([], { TMDBKey: '' }));
+
+			await expect(api.searchByTitle('the matrix')).rejects.toThrow('API key for TMDBAPI missing');
+		});
+	});
+
+	describe('getById', () => {
+		test('parses a movie', async () => {
+			const api = createAPI([{ url: /api\.themoviedb\.org\/3\/movie\/603\?append_to_response=credits,watch\/providers&api_key=test-key$/, file: 'TMDBAPI/movie.json' }]);
+
+			const result = await api.getById('movie/603');
+
+			expect(result).toBeInstanceOf(MovieModel);
+			expect(result).toMatchObject({
+				type: MediaType.Movie,
+				title: 'The Matrix',
+				year: '1999',
+				dataSource: 'TMDBAPI',
+				url: 'https://www.themoviedb.org/movie/603',
+				id: 'movie/603',
+				genres: ['Action', 'Science Fiction'],
+				director: ['Lana Wachowski', 'Lilly Wachowski'],
+				writer: ['Lana Wachowski', 'Lilly Wachowski'],
+				studio: ['Village Roadshow Pictures', 'Groucho II Film Partnership'],
+				duration: '136 min',
+				onlineRating: 8.2,
+				actors: ['Keanu Reeves', 'Laurence Fishburne', 'Carrie-Anne Moss'],
+				image: 'https://image.tmdb.org/t/p/original/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg',
+				backdrop: 'https://image.tmdb.org/t/p/original/ncEsesgOJDNrTUED89hYbA117wo.jpg',
+				released: true,
+				streamingServices: ['Max', 'Hulu'],
+				premiere: '1999-03-31',
+			});
+		});
+
+		test('parses a series', async () => {
+			const api = createAPI([{ url: /api\.themoviedb\.org\/3\/tv\/1399\?/, file: 'TMDBAPI/series.json' }]);
+
+			const result = await api.getById('tv/1399');
+
+			expect(result).toBeInstanceOf(SeriesModel);
+			expect(result).toMatchObject({
+				type: MediaType.Series,
+				title: 'Game of Thrones',
+				year: '2011',
+				url: 'https://www.themoviedb.org/tv/1399',
+				id: 'tv/1399',
+				genres: ['Sci-Fi & Fantasy', 'Drama'],
+				writer: ['David Benioff', 'D. B. Weiss'],
+				studio: ['Revolution Sun Studios'],
+				networks: ['HBO'],
+				episodes: 73,
+				duration: '60 min',
+				onlineRating: 8.5,
+				actors: ['Peter Dinklage', 'Emilia Clarke'],
+				backdrop: 'https://image.tmdb.org/t/p/original/2OMB0ynKlyIenMJWI2Dy9IWT4c.jpg',
+				released: true,
+				streamingServices: ['Max'],
+				airing: false,
+				airedFrom: '2011-04-17',
+				airedTo: '2019-05-19',
+			});
+		});
+
+		test('uses the watch region from the settings', async () => {
+			const api = new TMDBAPI(createTestPlugin([{ url: /movie\/603\?/, file: 'TMDBAPI/movie.json' }], { TMDBWatchRegion: 'de' }));
+
+			const result = await api.getById('movie/603');
+
+			expect(result).toMatchObject({ streamingServices: ['WOW'] });
+		});
+
+		test('looks up IMDb IDs', async () => {
+			const api = createAPI([
+				{ url: /api\.themoviedb\.org\/3\/find\/tt0133093\?external_source=imdb_id&api_key=test-key$/, file: 'TMDBAPI/find.json' },
+				{ url: /movie\/603\?/, file: 'TMDBAPI/movie.json' },
+			]);
+
+			const result = await api.getById('tt0133093');
+
+			expect(result).toMatchObject({ type: MediaType.Movie, id: 'movie/603', title: 'The Matrix' });
+		});
+
+		test('throws for unknown IMDb IDs', async () => {
+			const api = createAPI([{ url: /find\//, file: 'TMDBAPI/find-not-found.json' }]);
+
+			await expect(api.getById('tt0000000')).rejects.toThrow('TMDBAPI has no movie or series with the IMDb ID tt0000000');
+		});
+
+		test('throws for invalid IDs', async () => {
+			const api = createAPI([]);
+
+			await expect(api.getById('603')).rejects.toThrow('603 is not a valid ID for TMDBAPI');
+		});
+	});
+
+	describe('getEpisodes', () => {
+		test('requests every season except the specials', async () => {
+			const api = createAPI([
+				{ url: /api\.themoviedb\.org\/3\/tv\/1399\?api_key=test-key$/, file: 'TMDBAPI/tv-seasons.json' },
+				{ url: /api\.themoviedb\.org\/3\/tv\/1399\/season\/1\?api_key=test-key$/, file: 'TMDBAPI/season-1.json' },
+				{ url: /api\.themoviedb\.org\/3\/tv\/1399\/season\/2\?api_key=test-key$/, file: 'TMDBAPI/season-2.json' },
+			]);
+
+			const episodes = await api.getEpisodes('tv/1399');
+
+			expect(episodes).toEqual([
+				{ season: 1, episode: 1, title: 'Winter Is Coming', airDate: '2011-04-17' },
+				{ season: 1, episode: 2, title: 'The Kingsroad', airDate: '2011-04-24' },
+				{ season: 2, episode: 1, title: 'The North Remembers', airDate: '2012-04-01' },
+			]);
+		});
+
+		test('throws for movies', async () => {
+			const api = createAPI([]);
+
+			await expect(api.getEpisodes('movie/603')).rejects.toThrow('movie/603 is not a series on TMDBAPI');
+		});
+	});
+});
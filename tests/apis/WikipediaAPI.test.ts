@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'bun:test';
+import { WikipediaAPI } from '../../src/api/apis/WikipediaAPI';
+import { WikiModel } from '../../src/models/WikiModel';
+import { MediaType } from '../../src/utils/MediaType';
+import { createTestPlugin } from '../testUtils';
+
+describe('WikipediaAPI', () => {
+	test('searchByTitle returns the found articles', async () => {
+		const api = new WikipediaAPI(createTestPlugin([{ url: /en\.wikipedia\.org\/w\/api\.php\?action=query&list=search&srsearch=obsidian&/, file: 'WikipediaAPI/search.json' }]));
+
+		const results = await api.searchByTitle('obsidian');
+
+		expect(results).toHaveLength(2);
+		expect(results[0]).toBeInstanceOf(WikiModel);
+		expect(results[0]).toMatchObject({ type: MediaType.Wiki, title: 'Obsidian', englishTitle: 'Obsidian', dataSource: 'Wikipedia API', id: 22604 });
+		expect(results[1]).toMatchObject({ title: 'Obsidian Entertainment', id: 1049339 });
+	});
+
+	test('getById parses an article', async () => {
+		const api = new WikipediaAPI(createTestPlugin([{ url: /en\.wikipedia\.org\/w\/api\.php\?action=query&prop=info&pageids=22604&/, file: 'WikipediaAPI/page.json' }]));
+
+		const result = await api.getById('22604');
+
+		expect(result).toBeInstanceOf(WikiModel);
+		expect(result).toMatchObject({
+			type: MediaType.Wiki,
+			title: 'Obsidian',
+			url: 'https://en.wikipedia.org/wiki/Obsidian',
+			id: 22604,
+			wikiUrl: 'https://en.wikipedia.org/wiki/Obsidian',
+			lastUpdated: '2024-11-05',
+			length: 24012,
+		});
+	});
+});
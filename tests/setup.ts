@@ -0,0 +1,19 @@
+import { GlobalRegistrator } from '@happy-dom/global-registrator';
+import { mock } from 'bun:test';
+import * as obsidian from '../__mocks__/obsidian';
+
+// dates in the fixtures are formatted in the local timezone, so pin it to get the same results everywhere
+process.env.TZ = 'UTC';
+
+GlobalRegistrator.register();
+
+mock.module('obsidian', () => obsidian);
+
+// the APIs log a lot, only show that output when running `bun run test:log`
+if (process.env.LOG_TESTS !== 'true') {
+	console.log = (): void => {};
+	console.debug = (): void => {};
+	console.info = (): void => {};
+	console.warn = (): void => {};
+	console.error = (): void => {};
+}
@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { HttpRequest, HttpRequestFunction, HttpResponse } from '../src/api/HttpClient';
+import { HttpClient } from '../src/api/HttpClient';
+import type MediaDbPlugin from '../src/main';
+import type { MediaDbPluginSettings } from '../src/settings/Settings';
+import { DateFormatter } from '../src/utils/DateFormatter';
+
+/**
+ * A recorded response that is returned for every request whose url matches `url`.
+ * - url: a regular expression the requested url has to match
+ * - file: the path of the recorded response, relative to `tests/fixtures`
+ * - status: the status code of the response (DEFAULT: 200)
+ */
+export interface Fixture {
+	url: RegExp;
+	file: string;
+	status?: number;
+}
+
+export const TEST_SETTINGS: Partial<MediaDbPluginSettings> = {
+	OMDbKey: 'test-key',
+	TMDBKey: 'test-key',
+	TMDBWatchRegion: 'US',
+	MobyGamesKey: 'test-key',
+	GiantBombKey: 'test-key',
+	ComicVineKey: 'test-key',
+	IGDBClientId: 'test-client-id',
+	IGDBClientSecret: 'test-client-secret',
+	GoogleBooksKey: '',
+	iTunesApiUrl: '',
+	malUsername: '',
+	malListBaseUrl: '',
+	SteamKey: '',
+	steamId: '',
+	bangumiAccessToken: '',
+	bangumiUserId: '',
+	bangumiProxyUrl: '',
+	sfwFilter: true,
+};
+
+export function readFixture(file: string): string {
+	return readFileSync(join(import.meta.dir, 'fixtures', file), 'utf8');
+}
+
+/**
+ * Creates a request function that answers requests with recorded responses instead of going to the network.
+ * Requests that don't match any fixture fail, so a test can never accidentally hit a real API.
+ *
+ * @param fixtures
+ * @param requests every request made is added to this list
+ */
+export function createFixtureRequestFunction(fixtures: Fixture[], requests: HttpRequest[] = []): HttpRequestFunction {
+	return async (request: HttpRequest): Promise<HttpResponse> => {
+		requests.push(request);
+
+		const fixture = fixtures.find(x => x.url.test(request.url));
+		if (!fixture) {
+			throw new Error(`no fixture for request to "${request.url}"`);
+		}
+
+		const text = readFixture(fixture.file);
+		return {
+			status: fixture.status ?? 200,
+			headers: {},
+			text: text,
+			get json(): any {
+				return JSON.parse(text);
+			},
+		};
+	};
+}
+
+/**
+ * Creates the parts of the plugin that the APIs use, with an http client that replays the given fixtures.
+ *
+ * @param fixtures
+ * @param settings overrides for the {@link TEST_SETTINGS}
+ * @param requests every request made is added to this list
+ */
+export function createTestPlugin(fixtures: Fixture[], settings: Partial<MediaDbPluginSettings> = {}, requests: HttpRequest[] = []): MediaDbPlugin {
+	const dateFormatter = new DateFormatter();
+	dateFormatter.setFormat('YYYY-MM-DD');
+
+	return {
+		settings: { ...TEST_SETTINGS, ...settings },
+		httpClient: new HttpClient(createFixtureRequestFunction(fixtures, requests)),
+		dateFormatter: dateFormatter,
+	} as unknown as MediaDbPlugin;
+}
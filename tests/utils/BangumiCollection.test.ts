@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { BangumiSyncConflictPolicy, fromBangumiRating, getBangumiCollectionType, mergeBangumiCollectionState, toBangumiRating } from '../../src/utils/BangumiCollection';
+
+describe('BangumiCollection', () => {
+	test('getBangumiCollectionType understands the Bangumi and the default status names', () => {
+		expect(getBangumiCollectionType('Collect')).toBe(2);
+		expect(getBangumiCollectionType('On hold')).toBe(4);
+		expect(getBangumiCollectionType('in_progress')).toBe(3);
+		expect(getBangumiCollectionType('Unknown')).toBeUndefined();
+		expect(getBangumiCollectionType(undefined)).toBeUndefined();
+	});
+
+	test('mergeBangumiCollectionState takes the side that changed since the last sync', () => {
+		const base = { status: 'Doing', rating: 7, tags: ['a'], progress: 3 };
+		const note = { status: 'Collect', rating: 7, tags: ['a'], progress: 3 };
+		const bangumi = { status: 'Doing', rating: 8, tags: ['a'], progress: 5 };
+
+		expect(mergeBangumiCollectionState(base, note, bangumi, BangumiSyncConflictPolicy.Note)).toEqual({ status: 'Collect', rating: 8, tags: ['a'], progress: 5 });
+	});
+
+	test('mergeBangumiCollectionState resolves conflicts with the policy', () => {
+		const base = { status: 'Doing', tags: ['a'] };
+		const note = { status: 'Collect', tags: ['b', 'a'] };
+		const bangumi = { status: 'Dropped', tags: ['a', 'b'] };
+
+		expect(mergeBangumiCollectionState(base, note, bangumi, BangumiSyncConflictPolicy.Note)).toMatchObject({ status: 'Collect', tags: ['b', 'a'] });
+		expect(mergeBangumiCollectionState(base, note, bangumi, BangumiSyncConflictPolicy.Bangumi)).toMatchObject({ status: 'Dropped', tags: ['b', 'a'] });
+		// without a previous sync every difference is a conflict
+		expect(mergeBangumiCollectionState(undefined, note, bangumi, BangumiSyncConflictPolicy.Bangumi)).toMatchObject({ status: 'Dropped' });
+	});
+
+	test('toBangumiRating and fromBangumiRating convert between the rating scale and the 1 to 10 rating of Bangumi', () => {
+		expect(toBangumiRating(4, 5)).toBe(8);
+		expect(toBangumiRating(4.3, 5)).toBe(9);
+		// the lowest rating on Bangumi is 1
+		expect(toBangumiRating(0.1, 5)).toBe(1);
+		expect(toBangumiRating(undefined, 5)).toBeUndefined();
+		expect(fromBangumiRating(8, 5)).toBe(4);
+		expect(fromBangumiRating(7, 100)).toBe(70);
+		expect(fromBangumiRating(undefined, 5)).toBeUndefined();
+	});
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test';
+import { findBestBookMatch, getBookMatchConfidence, parseBookExport, removeBookSeries } from '../../src/utils/BookImport';
+
+const formatDate = (date: string): string => `formatted ${date}`;
+
+const GOODREADS_EXPORT = `Book Id,Title,Author,Author l-f,Additional Authors,ISBN,ISBN13,My Rating,Average Rating,Date Read,Date Added,Bookshelves,Exclusive Shelf
+5907,"The Hobbit (Middle-earth Universe)",J.R.R. Tolkien,"Tolkien, J.R.R.",,"=""0618260307""","=""9780618260300""",5,4.29,2024/01/20,2023/12/01,"fantasy, favorites, read",read
+11,Dune,Frank Herbert,"Herbert, Frank",,"=""""","=""""",0,4.27,,2024/02/01,to-read,to-read
+`;
+
+const STORYGRAPH_EXPORT = `Title,Authors,Contributors,ISBN/UID,Format,Read Status,Date Added,Last Date Read,Dates Read,Read Count,Star Rating,Review,Tags,Owned?
+Piranesi,Susanna Clarke,,9781635575637,hardcover,read,2023/05/01,2023/06/10,"2021/03/01-2021/03/04, 2023/06/01-2023/06/10",2,4.5,,"fantasy, reread",Yes
+The Left Hand of Darkness,"Ursula K. Le Guin, Someone Else",,b1b2c3,paperback,currently-reading,2024/01/01,,,0,,,,No
+`;
+
+describe('BookImport', () => {
+	test('parseBookExport parses a Goodreads export', () => {
+		expect(parseBookExport(GOODREADS_EXPORT, 5, formatDate)).toEqual([
+			{
+				row: 2,
+				title: 'The Hobbit',
+				author: 'J.R.R. Tolkien',
+				isbn: '9780618260300',
+				userData: {
+					personalStatus: 'Completed',
+					personalRating: 5,
+					personalTags: ['fantasy', 'favorites'],
+					read: true,
+					lastRead: 'formatted 2024-01-20',
+					started: undefined,
+					finished: 'formatted 2024-01-20',
+				},
+			},
+			{
+				row: 3,
+				title: 'Dune',
+				author: 'Frank Herbert',
+				isbn: '',
+				userData: {
+					personalStatus: 'Planned',
+					personalRating: undefined,
+					personalTags: undefined,
+					read: false,
+					lastRead: undefined,
+					started: undefined,
+					finished: undefined,
+				},
+			},
+		]);
+	});
+
+	test('parseBookExport parses a StoryGraph export', () => {
+		const rows = parseBookExport(STORYGRAPH_EXPORT, 5, formatDate);
+
+		expect(rows[0]).toMatchObject({
+			title: 'Piranesi',
+			author: 'Susanna Clarke',
+			isbn: '9781635575637',
+			userData: {
+				personalStatus: 'Completed',
+				personalRating: 4.5,
+				personalTags: ['fantasy', 'reread'],
+				read: true,
+				started: 'formatted 2023-06-01',
+				finished: 'formatted 2023-06-10',
+			},
+		});
+		expect(rows[1]).toMatchObject({
+			title: 'The Left Hand of Darkness',
+			author: 'Ursula K. Le Guin',
+			isbn: '',
+			userData: { personalStatus: 'In progress', read: false },
+		});
+	});
+
+	test('parseBookExport converts the ratings to the rating scale', () => {
+		expect(parseBookExport(GOODREADS_EXPORT, 10, formatDate).map(x => x.userData.personalRating)).toEqual([10, undefined]);
+		expect(parseBookExport(STORYGRAPH_EXPORT, 10, formatDate)[0].userData.personalRating).toBe(9);
+	});
+
+	test('parseBookExport rejects other files', () => {
+		expect(() => parseBookExport('a,b\n1,2', 5, formatDate)).toThrow('not a Goodreads or StoryGraph export');
+	});
+
+	test('removeBookSeries removes the series at the end of a title', () => {
+		expect(removeBookSeries('The Way of Kings (The Stormlight Archive, #1)')).toBe('The Way of Kings');
+		expect(removeBookSeries('(Untitled)')).toBe('(Untitled)');
+	});
+
+	test('getBookMatchConfidence compares titles and authors', () => {
+		const row = { title: 'The Hobbit', author: 'J.R.R. Tolkien' };
+
+		expect(getBookMatchConfidence(row, { title: 'The Hobbit: or There and Back Again', author: ['J. R. R. Tolkien'] })).toBe(1);
+		expect(getBookMatchConfidence(row, { title: 'The Hobbit', author: 'unknown' })).toBe(1);
+		expect(getBookMatchConfidence(row, { title: 'The Hobbit Companion', author: ['David Day'] })).toBeLessThan(0.8);
+	});
+
+	test('findBestBookMatch returns the closest candidate', () => {
+		const candidates = [
+			{ title: 'Dune Messiah', author: ['Frank Herbert'] },
+			{ title: 'Dune', author: ['Frank Herbert'] },
+		];
+
+		expect(findBestBookMatch({ title: 'Dune', author: 'Frank Herbert' }, candidates)).toEqual({ candidate: candidates[1], confidence: 1 });
+		expect(findBestBookMatch({ title: 'Dune', author: '' }, [])).toBeUndefined();
+	});
+});
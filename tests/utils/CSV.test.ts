@@ -0,0 +1,22 @@
+import { describe, expect, test } from 'bun:test';
+import { parseCSV, parseCSVRecords } from '../../src/utils/CSV';
+
+describe('CSV', () => {
+	test('parseCSV handles quoted fields, escaped quotes and line breaks', () => {
+		const csv = '\uFEFFa,b,c\r\n"1, 2","say ""hi""","line\nbreak"\n\nlast,,\n';
+
+		expect(parseCSV(csv)).toEqual([
+			['a', 'b', 'c'],
+			['1, 2', 'say "hi"', 'line\nbreak'],
+			['last', '', ''],
+		]);
+	});
+
+	test('parseCSVRecords uses the first row as column names', () => {
+		expect(parseCSVRecords('Title, Author\nDune,Frank Herbert\nEmma')).toEqual([
+			{ Title: 'Dune', Author: 'Frank Herbert' },
+			{ Title: 'Emma', Author: '' },
+		]);
+		expect(parseCSVRecords('')).toEqual([]);
+	});
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import type { Episode } from '../../src/api/APIModel';
+import { getEpisodeNotes, getSeasonNotes, groupEpisodesBySeason } from '../../src/utils/EpisodeNotes';
+
+const EPISODES: Episode[] = [
+	{ season: 2, episode: 1, title: 'One Year Later', airDate: 'unknown' },
+	{ season: 1, episode: 2, title: 'That Would Be Me', airDate: '2022-09-21' },
+	{ season: 1, episode: 1, title: 'Kassa', airDate: '2022-09-21' },
+];
+
+describe('EpisodeNotes', () => {
+	test('groupEpisodesBySeason sorts seasons and episodes', () => {
+		const seasons = groupEpisodesBySeason(EPISODES);
+
+		expect([...seasons.keys()]).toEqual([1, 2]);
+		expect(seasons.get(1)?.map(x => x.episode)).toEqual([1, 2]);
+	});
+
+	test('getEpisodeNotes creates one note per episode linking to the series', () => {
+		const notes = getEpisodeNotes(EPISODES, 'Andor');
+
+		expect(notes.map(x => x.fileName)).toEqual(['Andor S01E01', 'Andor S01E02', 'Andor S02E01']);
+		expect(notes[0].metadata).toEqual({ series: '[[Andor]]', season: 1, episode: 1, title: 'Kassa', airDate: '2022-09-21' });
+		expect(notes[0].body).toBe('# S01E01 - Kassa\n\n- [ ] Watched\n');
+	});
+
+	test('getEpisodeNotes pads episode numbers of long series', () => {
+		const notes = getEpisodeNotes(
+			[
+				{ season: 1, episode: 100, title: '', airDate: 'unknown' },
+				{ season: 1, episode: 1, title: '', airDate: 'unknown' },
+			],
+			'One Piece',
+		);
+
+		expect(notes.map(x => x.fileName)).toEqual(['One Piece S01E001', 'One Piece S01E100']);
+		expect(notes[0].body).toBe('# S01E001\n\n- [ ] Watched\n');
+	});
+
+	test('getSeasonNotes creates one note per season with a checklist of episodes', () => {
+		const notes = getSeasonNotes(EPISODES, 'Andor');
+
+		expect(notes.map(x => x.fileName)).toEqual(['Andor Season 1', 'Andor Season 2']);
+		expect(notes[0].metadata).toEqual({ series: '[[Andor]]', season: 1, episodes: 2, airedFrom: '2022-09-21', airedTo: '2022-09-21' });
+		expect(notes[0].body).toBe('# Season 1\n\n- [ ] E01 - Kassa (2022-09-21)\n- [ ] E02 - That Would Be Me (2022-09-21)\n');
+		expect(notes[1].metadata).toMatchObject({ airedFrom: 'unknown', airedTo: 'unknown' });
+		expect(notes[1].body).toBe('# Season 2\n\n- [ ] E01 - One Year Later\n');
+	});
+});
@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test';
+import { isValidISBN, isValidISBN10, isValidISBN13, looksLikeISBN, normalizeISBN } from '../../src/utils/ISBN';
+
+describe('ISBN', () => {
+	test('normalizeISBN removes hyphens and spaces', () => {
+		expect(normalizeISBN('978-0-14-032872-1')).toBe('9780140328721');
+		expect(normalizeISBN('0 8044 2957 x')).toBe('080442957X');
+	});
+
+	test('looksLikeISBN only checks the format', () => {
+		expect(looksLikeISBN('978-0-14-032872-1')).toBe(true);
+		expect(looksLikeISBN('9780140328720')).toBe(true);
+		expect(looksLikeISBN('080442957X')).toBe(true);
+		expect(looksLikeISBN('/works/OL45804W')).toBe(false);
+		expect(looksLikeISBN('12345')).toBe(false);
+	});
+
+	test('isValidISBN10 checks the check digit', () => {
+		expect(isValidISBN10('0-306-40615-2')).toBe(true);
+		expect(isValidISBN10('080442957X')).toBe(true);
+		expect(isValidISBN10('0-306-40615-3')).toBe(false);
+		expect(isValidISBN10('9780306406157')).toBe(false);
+	});
+
+	test('isValidISBN13 checks the check digit', () => {
+		expect(isValidISBN13('978-0-306-40615-7')).toBe(true);
+		expect(isValidISBN13('9780306406158')).toBe(false);
+		expect(isValidISBN13('0306406152')).toBe(false);
+	});
+
+	test('isValidISBN accepts both lengths', () => {
+		expect(isValidISBN('0306406152')).toBe(true);
+		expect(isValidISBN('9780306406157')).toBe(true);
+		expect(isValidISBN('hello')).toBe(false);
+	});
+});
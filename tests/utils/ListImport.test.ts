@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { MovieModel } from '../../src/models/MovieModel';
+import { SeriesModel } from '../../src/models/SeriesModel';
+import { applyImportedUserData, getSimilarity } from '../../src/utils/ListImport';
+
+describe('ListImport', () => {
+	test('applyImportedUserData sets the user data of the model and the properties of the model itself', () => {
+		const model = new SeriesModel({ title: 'Andor', episodes: 12 });
+
+		applyImportedUserData(model, { watched: true, personalRating: 9, personalStatus: 'Watching', personalTags: ['star wars'], started: '2024-01-02' });
+
+		expect(model.userData).toEqual({ watched: true, lastWatched: '', personalRating: 9 });
+		expect(model.personalRating).toBeUndefined();
+		expect(model.personalStatus).toBe('Watching');
+		expect(model.personalTags).toEqual(['star wars']);
+		expect(model.started).toBe('2024-01-02');
+	});
+
+	test('applyImportedUserData skips unknown and undefined properties', () => {
+		const model = new SeriesModel({ title: 'Andor', episodes: 12, plot: 'plot' });
+
+		applyImportedUserData(model, { unknown: 'value', userData: { watched: true }, plot: undefined, lastWatched: undefined });
+
+		expect(model).not.toHaveProperty('unknown');
+		expect(model.userData).toEqual({ watched: false, lastWatched: '', personalRating: 0 });
+		expect(model.plot).toBe('plot');
+	});
+
+	test('applyImportedUserData calculates the progress in percent', () => {
+		const series = new SeriesModel({ title: 'Andor', episodes: 12 });
+		applyImportedUserData(series, { progress: 3 });
+		expect(series.progress).toBe(3);
+		expect(series.progressPercent).toBe(25);
+
+		const finishedSeries = new SeriesModel({ title: 'Andor', episodes: 12 });
+		applyImportedUserData(finishedSeries, { progress: 14 });
+		expect(finishedSeries.progressPercent).toBe(100);
+
+		const unknownLength = new SeriesModel({ title: 'One Piece', episodes: 0 });
+		applyImportedUserData(unknownLength, { progress: 3 });
+		expect(unknownLength.progress).toBe(3);
+		expect(unknownLength.progressPercent).toBeUndefined();
+
+		const movie = new MovieModel({ title: 'Dune' });
+		applyImportedUserData(movie, { progressPercent: 40 });
+		expect(movie.progressPercent).toBe(40);
+	});
+
+	test('getSimilarity ignores case, accents, punctuation and the order of words', () => {
+		expect(getSimilarity('The Lord of the Rings', 'the lord of the rings')).toBe(1);
+		expect(getSimilarity('Amélie', 'Amelie')).toBe(1);
+		expect(getSimilarity('J.R.R. Tolkien', 'J R R Tolkien')).toBe(1);
+		expect(getSimilarity('Tolkien, J.R.R.', 'J.R.R. Tolkien')).toBe(1);
+		expect(getSimilarity('Pride & Prejudice', 'Pride and Prejudice')).toBe(1);
+	});
+
+	test('getSimilarity counts the shared words', () => {
+		expect(getSimilarity('Dune', 'Dune: Part Two')).toBe(0.5);
+		expect(getSimilarity('the the', 'the')).toBeCloseTo(2 / 3);
+		expect(getSimilarity('Dune', 'Arrival')).toBe(0);
+		expect(getSimilarity('', 'Dune')).toBe(0);
+		expect(getSimilarity('!!!', '???')).toBe(0);
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+import { SeriesModel } from '../../src/models/SeriesModel';
+import { applyImportedUserData } from '../../src/utils/ListImport';
+import { getMALStatus, parseMALExport } from '../../src/utils/MALImport';
+
+const EXPORT = `<?xml version="1.0" encoding="UTF-8" ?>
+<myanimelist>
+	<myinfo>
+		<user_name>test-user</user_name>
+		<user_export_type>1</user_export_type>
+	</myinfo>
+	<anime>
+		<series_animedb_id>1</series_animedb_id>
+		<series_title><![CDATA[Cowboy Bebop]]></series_title>
+		<series_type>TV</series_type>
+		<series_episodes>26</series_episodes>
+		<my_watched_episodes>12</my_watched_episodes>
+		<my_start_date>2024-01-02</my_start_date>
+		<my_finish_date>0000-00-00</my_finish_date>
+		<my_score>0</my_score>
+		<my_status>Watching</my_status>
+		<my_tags><![CDATA[space, classic]]></my_tags>
+	</anime>
+	<manga>
+		<manga_mangadb_id>62887</manga_mangadb_id>
+		<manga_title><![CDATA[All You Need Is Kill]]></manga_title>
+		<my_read_chapters>17</my_read_chapters>
+		<my_start_date>0000-00-00</my_start_date>
+		<my_finish_date>2024-02-03</my_finish_date>
+		<my_score>8</my_score>
+		<my_status>Completed</my_status>
+		<my_tags><![CDATA[]]></my_tags>
+	</manga>
+</myanimelist>`;
+
+describe('MALImport', () => {
+	test('getMALStatus maps the statuses of exports and of the list endpoint', () => {
+		expect(getMALStatus('Plan to Watch')).toBe('Planned');
+		expect(getMALStatus('On-Hold')).toBe('On hold');
+		expect(getMALStatus(1)).toBe('In progress');
+		expect(getMALStatus('Unknown')).toBeUndefined();
+	});
+
+	test('parseMALExport reads anime and manga', () => {
+		const entries = parseMALExport(EXPORT, 10, date => `formatted ${date}`);
+
+		expect(entries).toEqual([
+			{
+				id: '1',
+				title: 'Cowboy Bebop',
+				apiName: 'MALAPI',
+				userData: {
+					personalStatus: 'In progress',
+					personalRating: undefined,
+					personalTags: ['space', 'classic'],
+					progress: 12,
+					watched: false,
+					started: 'formatted 2024-01-02',
+					finished: undefined,
+				},
+			},
+			{
+				id: '62887',
+				title: 'All You Need Is Kill',
+				apiName: 'MALAPI Manga',
+				userData: {
+					personalStatus: 'Completed',
+					personalRating: 8,
+					personalTags: undefined,
+					progress: 17,
+					read: true,
+					started: undefined,
+					finished: 'formatted 2024-02-03',
+				},
+			},
+		]);
+	});
+
+	test('parseMALExport converts the scores to the rating scale', () => {
+		const entries = parseMALExport(EXPORT, 5, date => date);
+
+		expect(entries[0].userData.personalRating).toBeUndefined();
+		expect(entries[1].userData.personalRating).toBe(4);
+	});
+
+	test('parseMALExport rejects other files', () => {
+		expect(() => parseMALExport('<library></library>', 10, date => date)).toThrow('MDB | file is not a MyAnimeList export');
+	});
+
+	test('applyImportedUserData sets the user data and progress of a model', () => {
+		const model = new SeriesModel({ title: 'Cowboy Bebop', episodes: 26 });
+
+		applyImportedUserData(model, parseMALExport(EXPORT, 10, date => date)[0].userData);
+
+		expect(model.userData).toMatchObject({ watched: false, personalRating: 0 });
+		expect(model).toMatchObject({ personalStatus: 'In progress', personalTags: ['space', 'classic'], progress: 12, progressPercent: 46, started: '2024-01-02' });
+	});
+});
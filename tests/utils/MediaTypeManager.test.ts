@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { CustomMediaTypeModel } from '../../src/models/CustomMediaTypeModel';
+import { SeriesModel } from '../../src/models/SeriesModel';
+import type { MediaDbPluginSettings } from '../../src/settings/Settings';
+import { MediaType } from '../../src/utils/MediaType';
+import { MEDIA_TYPES, MediaTypeManager } from '../../src/utils/MediaTypeManager';
+
+function createSettings(settings: Partial<MediaDbPluginSettings>): MediaDbPluginSettings {
+	return { mediaTypeSettings: {}, customMediaTypes: [], ...settings } as unknown as MediaDbPluginSettings;
+}
+
+describe('MediaTypeManager', () => {
+	test('registers all built-in media types', () => {
+		const manager = new MediaTypeManager();
+
+		expect(manager.getMediaTypeDefinitions().map(x => x.type)).toEqual(MEDIA_TYPES);
+		expect(manager.createMediaTypeModelFromMediaType({ title: 'Andor' }, MediaType.Series)).toBeInstanceOf(SeriesModel);
+		expect(() => manager.createMediaTypeModelFromMediaType({}, 'vinyl')).toThrow('Unknown media type: vinyl');
+	});
+
+	test('registers custom media types with their fields', () => {
+		const manager = new MediaTypeManager();
+		manager.updateCustomMediaTypes([{ type: 'vinyl', name: 'Vinyl', fields: ['artist', 'label'] }]);
+
+		const model = manager.createMediaTypeModelFromMediaType({ title: 'Blue', year: '1971', artist: 'Joni Mitchell', unknownField: 'x' }, 'vinyl');
+
+		expect(model).toBeInstanceOf(CustomMediaTypeModel);
+		expect(model.getMediaType()).toBe('vinyl');
+		expect(model.getSummary()).toBe('Blue (1971)');
+		expect(model.toMetaDataObject()).toMatchObject({ type: 'vinyl', title: 'Blue', artist: 'Joni Mitchell', label: '', tags: 'mediaDB/vinyl' });
+		expect(model.toMetaDataObject()).not.toHaveProperty('unknownField');
+	});
+
+	test('replaces custom media types and ignores ones that clash with built-in types', () => {
+		const manager = new MediaTypeManager();
+		manager.updateCustomMediaTypes([{ type: 'vinyl', name: 'Vinyl', fields: [] }]);
+		manager.updateCustomMediaTypes([
+			{ type: 'cassette', name: 'Cassette', fields: [] },
+			{ type: 'movie', name: 'Movie', fields: [] },
+		]);
+
+		expect(manager.hasMediaType('vinyl')).toBe(false);
+		expect(manager.hasMediaType('cassette')).toBe(true);
+		expect(manager.getMediaTypeDefinition('movie')?.custom).toBeUndefined();
+	});
+
+	test('falls back to the defaults of a type for missing settings', () => {
+		const manager = new MediaTypeManager();
+		const settings = createSettings({ mediaTypeSettings: { movie: { folder: 'Films', template: '', fileNameTemplate: '{{ title }}' } } });
+
+		manager.updateFolders(settings);
+		manager.updateTemplates(settings);
+
+		expect(manager.mediaFolderMap.get('movie')).toBe('Films');
+		expect(manager.mediaFolderMap.get('series')).toBe('Media DB/series');
+		expect(manager.mediaFileNameTemplateMap.get('movie')).toBe('{{ title }}');
+		expect(manager.mediaFileNameTemplateMap.get('musicRelease')).toBe('{{ title }} (by {{ ENUM:artists }} - {{ year }})');
+	});
+});
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test';
+import { MovieModel } from '../../src/models/MovieModel';
+import { mergeMetadata, MetadataMergePolicy, parseMetadataMergeRules } from '../../src/utils/MetadataMerge';
+
+describe('MetadataMerge', () => {
+	test('parseMetadataMergeRules reads one rule per line and ignores empty lines', () => {
+		expect(parseMetadataMergeRules('plot: note\n\n  genres : empty \nonlineRating: api\n')).toEqual(
+			new Map([
+				['plot', MetadataMergePolicy.NoteWins],
+				['genres', MetadataMergePolicy.FillEmpty],
+				['onlineRating', MetadataMergePolicy.ApiWins],
+			]),
+		);
+		expect(parseMetadataMergeRules('')).toEqual(new Map());
+	});
+
+	test('parseMetadataMergeRules rejects invalid rules', () => {
+		expect(() => parseMetadataMergeRules('plot')).toThrow('invalid merge rule "plot"');
+		expect(() => parseMetadataMergeRules('plot: sometimes')).toThrow('invalid merge rule "plot: sometimes"');
+		expect(() => parseMetadataMergeRules(': note')).toThrow('invalid merge rule ": note"');
+		expect(() => parseMetadataMergeRules('url: https://example.com')).toThrow('invalid merge rule');
+	});
+
+	test('mergeMetadata applies the default policy to every property of the API', () => {
+		const note = { title: 'Dune', plot: 'my plot', genres: [], comment: 'only in the note' };
+		const api = { title: 'Dune: Part One', plot: 'api plot', genres: ['Sci-Fi'] };
+
+		expect(mergeMetadata(note, api, MetadataMergePolicy.ApiWins, new Map())).toEqual(api);
+		expect(mergeMetadata(note, api, MetadataMergePolicy.NoteWins, new Map())).toEqual({ title: 'Dune', plot: 'my plot', genres: [] });
+		expect(mergeMetadata(note, api, MetadataMergePolicy.FillEmpty, new Map())).toEqual({ title: 'Dune', plot: 'my plot', genres: ['Sci-Fi'] });
+	});
+
+	test('mergeMetadata prefers the rule of a property over the default policy', () => {
+		const note = { title: 'Dune', plot: 'my plot', year: '' };
+		const api = { title: 'Dune: Part One', plot: 'api plot', year: '2021' };
+		const rules = new Map([
+			['plot', MetadataMergePolicy.NoteWins],
+			['year', MetadataMergePolicy.FillEmpty],
+		]);
+
+		expect(mergeMetadata(note, api, MetadataMergePolicy.ApiWins, rules)).toEqual({ title: 'Dune: Part One', plot: 'my plot', year: '2021' });
+	});
+
+	test('mergeMetadata with the note winning uses the API value for properties the note does not have', () => {
+		expect(mergeMetadata({}, { plot: 'api plot' }, MetadataMergePolicy.NoteWins, new Map())).toEqual({ plot: 'api plot' });
+	});
+
+	test('updating a note from the API keeps the personal data of the note', () => {
+		const noteMetadata = {
+			type: 'movie',
+			title: 'Dune',
+			dataSource: 'TMDBAPI',
+			id: 'movie/438631',
+			plot: 'old plot',
+			personalRating: '4',
+			personalStatus: 'Completed',
+			personalTags: ['favorite'],
+			watched: true,
+		};
+		const apiModel = new MovieModel({ type: 'movie', title: 'Dune', dataSource: 'TMDBAPI', id: 'movie/438631', plot: 'new plot' });
+
+		const model = Object.assign(new MovieModel(noteMetadata), apiModel.getWithOutUserData());
+		const merged = mergeMetadata(noteMetadata, model.toMetaDataObject(), MetadataMergePolicy.ApiWins, new Map());
+
+		expect(merged).toMatchObject({ plot: 'new plot', personalRating: '4', personalStatus: 'Completed', personalTags: ['favorite'], watched: true });
+	});
+});
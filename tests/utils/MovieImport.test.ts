@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import { GameModel } from '../../src/models/GameModel';
+import { MovieModel } from '../../src/models/MovieModel';
+import { SeriesModel } from '../../src/models/SeriesModel';
+import type { OMDbAPI } from '../../src/api/apis/OMDbAPI';
+import { findBestMovieMatch, getMovieMatchConfidence, matchMovieRow, parseMovieExport } from '../../src/utils/MovieImport';
+
+const formatDate = (date: string): string => `formatted ${date}`;
+
+const LETTERBOXD_DIARY = `Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date
+2023-01-03,Arrival,2016,https://boxd.it/abc,4.5,,"sci-fi, favorite",2023-01-02
+2024-03-01,Arrival,2016,https://boxd.it/def,5,Yes,,2024-02-28
+2024-04-01,"Crouching Tiger, Hidden Dragon",2000,https://boxd.it/ghi,,,,2024-04-01
+`;
+
+const IMDB_RATINGS = `Const,Your Rating,Date Rated,Title,Original Title,URL,Title Type,IMDb Rating,Runtime (mins),Year,Genres,Num Votes,Release Date,Directors
+tt2543164,7,2023-05-01,Arrival,Arrival,https://www.imdb.com/title/tt2543164/,Movie,7.9,116,2016,"Drama, Sci-Fi",800000,2016-09-01,Denis Villeneuve
+tt9253284,10,2023-06-01,Andor,Andor,https://www.imdb.com/title/tt9253284/,TV Series,8.4,40,2022,"Action, Drama",200000,2022-09-21,
+tt0000001,8,2023-07-01,Some Episode,Some Episode,https://www.imdb.com/title/tt0000001/,TV Episode,8.0,40,2022,Drama,100,2022-10-01,
+`;
+
+describe('MovieImport', () => {
+	test('parseMovieExport parses a Letterboxd diary and keeps the last watch of a movie', () => {
+		expect(parseMovieExport(LETTERBOXD_DIARY, 5, formatDate)).toEqual([
+			{
+				row: 3,
+				title: 'Arrival',
+				year: '2016',
+				imdbId: '',
+				userData: {
+					personalStatus: 'Completed',
+					personalRating: 5,
+					personalTags: undefined,
+					watched: true,
+					lastWatched: 'formatted 2024-02-28',
+					finished: 'formatted 2024-02-28',
+				},
+			},
+			{
+				row: 4,
+				title: 'Crouching Tiger, Hidden Dragon',
+				year: '2000',
+				imdbId: '',
+				userData: {
+					personalStatus: 'Completed',
+					personalRating: undefined,
+					personalTags: undefined,
+					watched: true,
+					lastWatched: 'formatted 2024-04-01',
+					finished: 'formatted 2024-04-01',
+				},
+			},
+		]);
+	});
+
+	test('parseMovieExport parses IMDb ratings and normalizes the ratings', () => {
+		const rows = parseMovieExport(IMDB_RATINGS, 5, formatDate);
+
+		expect(rows).toHaveLength(2);
+		expect(rows[0]).toMatchObject({ title: 'Arrival', year: '2016', imdbId: 'tt2543164', userData: { personalRating: 3.5, lastWatched: 'formatted 2023-05-01' } });
+		expect(rows[1]).toMatchObject({ title: 'Andor', imdbId: 'tt9253284', userData: { personalRating: 5 } });
+		expect(parseMovieExport(IMDB_RATINGS, 10, formatDate)[0].userData.personalRating).toBe(7);
+	});
+
+	test('parseMovieExport rejects other files', () => {
+		expect(() => parseMovieExport('a,b\n1,2', 5, formatDate)).toThrow('not a Letterboxd or IMDb export');
+	});
+
+	test('getMovieMatchConfidence allows release years to differ by one year', () => {
+		expect(getMovieMatchConfidence({ title: 'Arrival', year: '2016' }, { title: 'Arrival', year: '2017' })).toBe(1);
+		expect(getMovieMatchConfidence({ title: 'Arrival', year: '2016' }, { title: 'Arrival', year: '1998' })).toBe(0.5);
+		expect(getMovieMatchConfidence({ title: 'Andor', year: '2022' }, { title: 'Andor', year: '2022–2025' })).toBe(1);
+	});
+
+	test('findBestMovieMatch ignores results that are not movies or series', () => {
+		const candidates = [
+			new GameModel({ title: 'Arrival', year: '2016', id: 'tt1' }),
+			new SeriesModel({ title: 'Arrival Stories', year: '2016', id: 'tt2' }),
+			new MovieModel({ title: 'Arrival', year: '2016', id: 'tt2543164' }),
+		];
+
+		expect(findBestMovieMatch({ title: 'Arrival', year: '2016' }, candidates)).toEqual({ candidate: candidates[2], confidence: 1 });
+		expect(findBestMovieMatch({ title: 'Arrival', year: '2016' }, [candidates[0]])).toBeUndefined();
+	});
+
+	test('matchMovieRow uses the IMDb id and searches without the year if nothing is found', async () => {
+		const searches: string[] = [];
+		const api = {
+			searchByTitleAndYear: async (title: string, year: string) => {
+				searches.push(`${title} ${year}`);
+				return [];
+			},
+			searchByTitle: async (title: string) => {
+				searches.push(title);
+				return [new MovieModel({ title: 'Arrival', year: '2017', id: 'tt2543164' })];
+			},
+		} as unknown as OMDbAPI;
+
+		expect(await matchMovieRow(api, { row: 2, title: 'Arrival', year: '2016', imdbId: 'tt2543164', userData: {} })).toEqual({
+			id: 'tt2543164',
+			title: 'Arrival',
+			confidence: 1,
+		});
+		expect(searches).toEqual([]);
+
+		expect(await matchMovieRow(api, { row: 2, title: 'Arrival', year: '2016', imdbId: '', userData: {} })).toEqual({ id: 'tt2543164', title: 'Arrival', confidence: 1 });
+		expect(searches).toEqual(['Arrival 2016', 'Arrival']);
+	});
+});
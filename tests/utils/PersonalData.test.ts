@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'bun:test';
+import { normalizeRating, parseTags, readPersonalData } from '../../src/utils/PersonalData';
+
+describe('PersonalData', () => {
+	test('parseTags splits by commas and whitespace and removes duplicates', () => {
+		expect(parseTags('#sci-fi, favorite  rewatch,favorite,')).toEqual(['sci-fi', 'favorite', 'rewatch']);
+		expect(parseTags('  ')).toEqual([]);
+	});
+
+	test('readPersonalData normalizes the values of a note', () => {
+		expect(readPersonalData({ personalRating: '4', personalStatus: 'Completed', personalTags: ['#anime', 'favorite'] })).toEqual({
+			personalRating: 4,
+			personalStatus: 'Completed',
+			personalTags: ['anime', 'favorite'],
+		});
+		expect(readPersonalData({ personalRating: 0, personalStatus: '', personalTags: 'anime, favorite' })).toEqual({
+			personalRating: undefined,
+			personalStatus: undefined,
+			personalTags: ['anime', 'favorite'],
+		});
+		expect(readPersonalData({})).toEqual({ personalRating: undefined, personalStatus: undefined, personalTags: [] });
+	});
+
+	test('normalizeRating converts ratings to the rating scale', () => {
+		expect(normalizeRating(7, 10, 5)).toBe(3.5);
+		expect(normalizeRating(4.5, 5, 10)).toBe(9);
+		expect(normalizeRating(12, 10, 5)).toBe(5);
+		expect(normalizeRating(0, 10, 5)).toBeUndefined();
+	});
+});
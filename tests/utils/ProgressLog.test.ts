@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'bun:test';
+import { MovieModel } from '../../src/models/MovieModel';
+import { SeriesModel } from '../../src/models/SeriesModel';
+import { appendProgressLogEntry, formatProgressLogEntry } from '../../src/utils/ProgressLog';
+
+describe('ProgressLog', () => {
+	test('setProgress computes the percentage from the total of the unit', () => {
+		const model = new SeriesModel({ title: 'Andor', episodes: 12 });
+		model.setProgress(5, '2024-05-01');
+
+		expect(model.getProgressData()).toEqual({ progress: 5, progressPercent: 42, started: '2024-05-01', finished: undefined });
+		expect(model.userData.watched).toBe(false);
+		expect(formatProgressLogEntry(model, '2024-05-01', ' great episode ')).toBe('2024-05-01: Episode 5 of 12 (42%) - great episode');
+
+		model.setProgress(12, '2024-05-03');
+
+		expect(model.getProgressData()).toEqual({ progress: 12, progressPercent: 100, started: '2024-05-01', finished: '2024-05-03' });
+		expect(model.userData).toMatchObject({ watched: true, lastWatched: '2024-05-03' });
+		expect(formatProgressLogEntry(model, '2024-05-03')).toBe('2024-05-03: Finished');
+	});
+
+	test('media without a unit track their progress in percent', () => {
+		const model = new MovieModel({ title: 'Dune' });
+		model.setProgress(30, '2024-05-01');
+
+		expect(model.progress).toBeUndefined();
+		expect(model.progressPercent).toBe(30);
+		expect(formatProgressLogEntry(model, '2024-05-01')).toBe('2024-05-01: 30%');
+
+		model.markFinished('2024-05-02');
+
+		expect(model.toMetaDataObject()).toMatchObject({ progressPercent: 100, started: '2024-05-01', finished: '2024-05-02', watched: true });
+		expect(model.getWithOutUserData()).not.toHaveProperty('finished');
+	});
+
+	test('appendProgressLogEntry creates the section at the end of the note', () => {
+		expect(appendProgressLogEntry('---\ntype: movie\n---\n# Dune\n\n', '2024-05-01: 30%')).toBe('---\ntype: movie\n---\n# Dune\n\n## Progress log\n\n- 2024-05-01: 30%\n');
+	});
+
+	test('appendProgressLogEntry appends to the end of an existing section', () => {
+		const content = '# Andor\n\n## Progress log\n\n- 2024-05-01: Episode 1\n\n## Notes\n\nGood show\n';
+
+		expect(appendProgressLogEntry(content, '2024-05-02: Episode 2')).toBe(
+			'# Andor\n\n## Progress log\n\n- 2024-05-01: Episode 1\n- 2024-05-02: Episode 2\n\n## Notes\n\nGood show\n',
+		);
+	});
+});
@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'bun:test';
+import { parseSteamOwnedGames } from '../../src/utils/SteamImport';
+
+describe('SteamImport', () => {
+	test('parseSteamOwnedGames accepts the whole response or only its games', () => {
+		const games = [{ appid: 620, name: 'Portal 2', playtime_forever: 90 }];
+
+		expect(parseSteamOwnedGames({ response: { games } }, date => date)).toEqual(parseSteamOwnedGames({ games }, date => date));
+		expect(parseSteamOwnedGames({ games }, date => date)[0]).toMatchObject({ id: '620', userData: { played: true, playtime: 1.5 } });
+	});
+
+	test('parseSteamOwnedGames reports the response of a private account', () => {
+		expect(() => parseSteamOwnedGames({ response: {} }, date => date)).toThrow('the game details of the account might be private');
+	});
+
+	test('parseSteamOwnedGames rejects other files', () => {
+		expect(() => parseSteamOwnedGames({ games: {} }, date => date)).toThrow('not a Steam GetOwnedGames response');
+		expect(() => parseSteamOwnedGames([], date => date)).toThrow('not a Steam GetOwnedGames response');
+		expect(() => parseSteamOwnedGames(null, date => date)).toThrow('not a Steam GetOwnedGames response');
+	});
+});
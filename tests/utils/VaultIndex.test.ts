@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import { TFile } from 'obsidian';
+import type MediaDbPlugin from '../../src/main';
+import { MovieModel } from '../../src/models/MovieModel';
+import { isSimilarEntry, VaultIndex } from '../../src/utils/VaultIndex';
+
+function createFile(path: string, frontmatter: Record<string, unknown>): { file: TFile; frontmatter: Record<string, unknown> } {
+	const file = new TFile();
+	file.path = path;
+	file.basename = path.replace(/\.md$/, '');
+	file.extension = 'md';
+	return { file, frontmatter };
+}
+
+function createIndex(files: { file: TFile; frontmatter: Record<string, unknown> }[]): VaultIndex {
+	const plugin = {
+		app: { vault: { getMarkdownFiles: (): TFile[] => files.map(x => x.file) } },
+		getMetadataFromFileCache: (file: TFile): Record<string, unknown> => files.find(x => x.file === file)?.frontmatter ?? {},
+		// the notes use a renamed property for the id
+		modelPropertyMapper: { convertObjectBack: (metadata: Record<string, unknown>): Record<string, unknown> => ({ ...metadata, id: metadata.imdbId }) },
+	};
+	return new VaultIndex(plugin as unknown as MediaDbPlugin);
+}
+
+describe('VaultIndex', () => {
+	const arrival = createFile('Arrival (2016).md', { type: 'movie', dataSource: 'OMDbAPI', imdbId: 'tt2543164', title: 'Arrival', year: 2016 });
+	const arrivalTMDB = createFile('Arrival.md', { type: 'movie', dataSource: 'TMDBAPI', imdbId: '329865', title: 'Arrival', englishTitle: 'Arrival', year: '2016' });
+	const note = createFile('Note.md', { title: 'Arrival' });
+
+	test('getById finds notes by their data source and id', () => {
+		const index = createIndex([arrival, arrivalTMDB, note]);
+
+		expect(index.getEntries()).toHaveLength(2);
+		expect(index.getById('OMDbAPI', 'tt2543164')?.file).toBe(arrival.file);
+		expect(index.getById('OMDbAPI', '329865')).toBeUndefined();
+	});
+
+	test('findDuplicates lists notes of the same entry first', () => {
+		const index = createIndex([arrivalTMDB, arrival, note]);
+
+		const matches = index.findDuplicates(new MovieModel({ title: 'Arrival', year: '2016', dataSource: 'OMDbAPI', id: 'tt2543164' }));
+
+		expect(matches.map(x => [x.entry.file.path, x.sameId])).toEqual([
+			['Arrival (2016).md', true],
+			['Arrival.md', false],
+		]);
+	});
+
+	test('invalidate rebuilds the index the next time it is used', () => {
+		const files = [arrival];
+		const index = createIndex(files);
+
+		expect(index.getEntries()).toHaveLength(1);
+		files.push(arrivalTMDB);
+		expect(index.getEntries()).toHaveLength(1);
+		index.invalidate();
+		expect(index.getEntries()).toHaveLength(2);
+	});
+
+	test('onResolved rebuilds an index that was built before the metadata cache was resolved', () => {
+		const files = [arrival];
+		const index = createIndex(files);
+
+		expect(index.getEntries()).toHaveLength(1);
+		files.push(arrivalTMDB);
+		index.onResolved();
+		expect(index.getById('TMDBAPI', '329865')?.file).toBe(arrivalTMDB.file);
+		// later resolves only happen after changes that are already in the index
+		files.pop();
+		index.onResolved();
+		expect(index.getEntries()).toHaveLength(2);
+	});
+
+	test('ignores metadata that is not text', () => {
+		const list = createFile('List.md', { type: 'movie', dataSource: 'OMDbAPI', imdbId: ['tt2543164'], title: 'Arrival' });
+		const index = createIndex([list, createFile('Movie.md', { type: 'movie', dataSource: 'OMDbAPI', imdbId: 'tt0000001', title: { text: 'Movie' }, year: 2020 })]);
+
+		expect(index.getEntries().map(x => [x.id, x.titles, x.year])).toEqual([['tt0000001', [], '2020']]);
+	});
+
+	test('updateFile, renameFile and removeFile keep the index up to date', () => {
+		const movie = createFile('Arrival (2016).md', { type: 'movie', dataSource: 'OMDbAPI', imdbId: 'tt2543164', title: 'Arrival' });
+		const other = createFile('Other.md', {});
+		const index = createIndex([movie, other]);
+		expect(index.getByType('movie')).toHaveLength(1);
+
+		// a note becomes a Media DB entry
+		other.frontmatter = { type: 'movie', dataSource: 'OMDbAPI', imdbId: 'tt0000001', title: 'Some Movie' };
+		index.updateFile(other.file);
+		expect(index.getById('OMDbAPI', 'tt0000001')?.file).toBe(other.file);
+
+		movie.file.path = 'Movies/Arrival (2016).md';
+		index.renameFile(movie.file, 'Arrival (2016).md');
+		expect(index.getByFile(movie.file)?.id).toBe('tt2543164');
+		expect(index.getEntries()).toHaveLength(2);
+
+		index.removeFile(other.file.path);
+		expect(index.getByType('movie').map(x => x.file.path)).toEqual(['Movies/Arrival (2016).md']);
+	});
+
+	test('isSimilarEntry compares the type, title and year', () => {
+		const entry = { type: 'series', titles: ['Andor'], year: '2022–2025' };
+
+		expect(isSimilarEntry(entry, { type: 'series', title: 'Star Wars: Andor', englishTitle: 'Andor', year: '2022' })).toBe(true);
+		expect(isSimilarEntry(entry, { type: 'series', title: 'Andor', englishTitle: 'Andor', year: '2030' })).toBe(false);
+		expect(isSimilarEntry(entry, { type: 'movie', title: 'Andor', englishTitle: 'Andor', year: '' })).toBe(false);
+		expect(isSimilarEntry(entry, { type: 'series', title: 'Andor Stories', englishTitle: '', year: '' })).toBe(false);
+	});
+});